@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { AuthRequestError, createNonce, setNonceCookie } from '@/lib/session';
+
+// Hands out a one-time nonce for the next Sign-In with Ethereum message
+export async function GET() {
+  const nonce = createNonce();
+  const response = NextResponse.json({ nonce });
+  try {
+    setNonceCookie(response, nonce);
+  } catch (err) {
+    if (err instanceof AuthRequestError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+  return response;
+}
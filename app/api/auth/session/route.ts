@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthRequestError, clearSession, getRequestSession } from '@/lib/session';
+
+// Reports who is signed in; null when there is no valid session cookie
+export async function GET(request: NextRequest) {
+  try {
+    return NextResponse.json({ session: getRequestSession(request) });
+  } catch (err) {
+    // Sign-in isn't configured, so nobody can be signed in
+    if (err instanceof AuthRequestError) {
+      return NextResponse.json({ session: null });
+    }
+    throw err;
+  }
+}
+
+// Signs out by dropping the session cookie
+export async function DELETE() {
+  const response = NextResponse.json({ session: null });
+  clearSession(response);
+  return response;
+}
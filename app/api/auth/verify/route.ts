@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthRequestError, startSession, verifySignIn } from '@/lib/session';
+
+// Exchanges a signed Sign-In with Ethereum message for an HTTP-only session cookie
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be valid JSON.' }, { status: 400 });
+  }
+
+  try {
+    const session = verifySignIn(request, body);
+    const response = NextResponse.json({ session });
+    startSession(response, session);
+    return response;
+  } catch (err) {
+    if (err instanceof AuthRequestError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error('Sign-in failed:', err);
+    return NextResponse.json({ error: 'Sign-in failed.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { classifyError } from '@/lib/errors';
+import { RelayRequestError, getRelayerStatus, relayDelegatedAttestation } from '@/lib/relayer';
+import { getRequestSession } from '@/lib/session';
+
+// Reports whether relaying is enabled and which schemas it sponsors
+export async function GET() {
+  return NextResponse.json(getRelayerStatus());
+}
+
+// Submits a delegated attestation signed in the browser (see lib/delegation) for the signed-in attester
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be valid JSON.' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await relayDelegatedAttestation(body, getRequestSession(request)));
+  } catch (err) {
+    if (err instanceof RelayRequestError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error('Relayed attestation failed:', err);
+    const classified = classifyError(err);
+    // The relayer paid the gas here, so a funding problem is the operator's, not the attester's
+    const relayerUnfunded = classified.kind === 'insufficient-funds';
+    return NextResponse.json(
+      {
+        error: relayerUnfunded ? 'The relayer account cannot pay for this transaction.' : classified.message,
+        kind: classified.kind,
+        suggestion: relayerUnfunded
+          ? 'Ask the operator to fund the relayer, or attest directly from your wallet.'
+          : classified.suggestion,
+        revertName: classified.revertName,
+      },
+      { status: 502 }
+    );
+  }
+}
@@ -3,6 +3,8 @@ import type { Metadata } from "next"
 import { Geist, Geist_Mono } from "next/font/google"
 import "./globals.css"
 import { WalletProvider } from "@/hooks/useWallet"
+import { TransactionProvider } from "@/hooks/useTransactions"
+import TransactionToasts from "@/components/transaction-toasts"
 
 const _geist = Geist({ subsets: ["latin"] })
 const _geistMono = Geist_Mono({ subsets: ["latin"] })
@@ -22,7 +24,10 @@ export default function RootLayout({
     <html lang="en" className="dark">
       <body className={`font-sans antialiased bg-background text-foreground`}>
         <WalletProvider>
-          {children}
+          <TransactionProvider>
+            {children}
+            <TransactionToasts />
+          </TransactionProvider>
         </WalletProvider>
       </body>
     </html>
@@ -1,23 +1,46 @@
 "use client"
 
-import { useState } from "react"
+import { Suspense, useState } from "react"
+import { useSearchParams } from "next/navigation"
 import SchemaModal from "@/components/schema-modal"
 import IssueModal from "@/components/issue-modal"
 import VerifyModal from "@/components/verify-modal"
+import RevokeModal from "@/components/revoke-modal"
+import SchemaCatalogModal from "@/components/schema-catalog-modal"
+import LoanWizardModal from "@/components/loan-wizard-modal"
 import ConnectWallet from "@/components/ConnectWallet"
+import ActivityFeed from "@/components/activity-feed"
+import { OFFCHAIN_URL_PARAM } from "@/lib/offchain"
 
-type ModalType = null | "schema" | "issue" | "verify"
+type ModalType = null | "schema" | "catalog" | "issue" | "loan" | "verify" | "revoke"
 
-export default function Home() {
-  const [activeModal, setActiveModal] = useState<ModalType>(null)
+function HomeContent() {
+  // Deep links: /?verify=<attestation uid> from other pages, /?offchain=<encoded attestation> from share links
+  const searchParams = useSearchParams()
+  const initialVerifyUID = searchParams.get("verify") ?? undefined
+  const initialOffchain = searchParams.get(OFFCHAIN_URL_PARAM) ?? undefined
+  const [verifyUID, setVerifyUID] = useState(initialVerifyUID)
+  const [offchainQuery, setOffchainQuery] = useState(initialOffchain)
+  const [activeModal, setActiveModal] = useState<ModalType>(initialVerifyUID || initialOffchain ? "verify" : null)
   const [isHovered, setIsHovered] = useState<string | null>(null)
+  // Schema picked in the catalog for the next issuance
+  const [issueSchema, setIssueSchema] = useState<{ uid: string; definition: string } | undefined>(undefined)
 
   const buttons = [
     { id: "issue", label: "Issue Attestation", variant: "primary" as const },
     { id: "schema", label: "Schema Setup", variant: "secondary" as const },
+    { id: "catalog", label: "Browse Schemas", variant: "secondary" as const },
+    { id: "loan", label: "Loan Records", variant: "secondary" as const },
     { id: "verify", label: "Verify Attestation", variant: "secondary" as const },
+    { id: "revoke", label: "Revoke", variant: "secondary" as const },
   ]
 
+  const openVerify = (uid: string) => {
+    setVerifyUID(uid)
+    setOffchainQuery(undefined)
+    setActiveModal("verify")
+  }
+
   return (
     <main className="min-h-screen bg-background flex flex-col">
       {/* Navigation */}
@@ -77,7 +100,14 @@ export default function Home() {
             {buttons.map((btn) => (
               <button
                 key={btn.id}
-                onClick={() => setActiveModal(btn.id as ModalType)}
+                onClick={() => {
+                  if (btn.id === "verify") {
+                    setVerifyUID(undefined)
+                    setOffchainQuery(undefined)
+                  }
+                  if (btn.id === "issue") setIssueSchema(undefined)
+                  setActiveModal(btn.id as ModalType)
+                }}
                 onMouseEnter={() => setIsHovered(btn.id)}
                 onMouseLeave={() => setIsHovered(null)}
                 className={`px-8 py-3.5 rounded-md font-medium transition-all duration-300 text-center focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 active:scale-[0.98] ${
@@ -95,25 +125,8 @@ export default function Home() {
             ))}
           </div>
 
-          {/* Small live example card showcasing RAS idea */}
-          <div className="mt-6 p-4 rounded-lg border border-border bg-gradient-to-r from-transparent to-card/50">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-xs text-muted-foreground">Sample RAS Signal</p>
-                <h4 className="font-semibold">Community Builder Badge</h4>
-                <p className="text-sm text-muted-foreground mt-1">Issued: 3 attestations • Score: <span className="font-mono">72</span></p>
-              </div>
-              <div className="text-right">
-                <div className="text-xs text-muted-foreground">Trust</div>
-                <div className="mt-1 inline-flex items-baseline gap-2">
-                  <div className="px-3 py-1 rounded-full bg-green-600 text-white font-semibold">Good</div>
-                </div>
-              </div>
-            </div>
-            <p className="text-xs text-muted-foreground mt-3">
-              How it works: Issue attestations (attendance, contribution, verification). RAS aggregates these signals into a lightweight reputation metric that dApps can read and act on.
-            </p>
-          </div>
+          {/* Live attestation activity on the active network */}
+          <ActivityFeed onSelect={openVerify} />
         </div>
       </div>
 
@@ -131,8 +144,26 @@ export default function Home() {
       </div>
 
       {activeModal === "schema" && <SchemaModal onClose={() => setActiveModal(null)} />}
-      {activeModal === "issue" && <IssueModal onClose={() => setActiveModal(null)} />}
-      {activeModal === "verify" && <VerifyModal onClose={() => setActiveModal(null)} />}
+      {activeModal === "catalog" && (
+        <SchemaCatalogModal
+          onUseSchema={(schema) => {
+            setIssueSchema({ uid: schema.uid, definition: schema.definition })
+            setActiveModal("issue")
+          }}
+          onClose={() => setActiveModal(null)}
+        />
+      )}
+      {activeModal === "issue" && (
+        <IssueModal key={issueSchema?.uid} initialSchema={issueSchema} onClose={() => setActiveModal(null)} />
+      )}
+      {activeModal === "verify" &&
+        (offchainQuery ? (
+          <VerifyModal key={offchainQuery} initialQuery={offchainQuery} initialMode="offchain" onClose={() => setActiveModal(null)} />
+        ) : (
+          <VerifyModal key={verifyUID} initialQuery={verifyUID} onClose={() => setActiveModal(null)} />
+        ))}
+      {activeModal === "loan" && <LoanWizardModal onVerify={openVerify} onClose={() => setActiveModal(null)} />}
+      {activeModal === "revoke" && <RevokeModal onVerify={openVerify} onClose={() => setActiveModal(null)} />}
 
       <style>{`
         @keyframes moveGrid {
@@ -143,3 +174,11 @@ export default function Home() {
     </main>
   )
 }
+
+export default function Home() {
+  return (
+    <Suspense>
+      <HomeContent />
+    </Suspense>
+  )
+}
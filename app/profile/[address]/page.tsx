@@ -0,0 +1,313 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { ethers } from "ethers"
+import ConnectWallet from "@/components/ConnectWallet"
+import TrustBadge from "@/components/trust-badge"
+import LoanTimelineList from "@/components/loan-timeline"
+import { useWallet } from "@/hooks/useWallet"
+import { useSchemaNames } from "@/hooks/useSchemaNames"
+import { evaluateAttestationStatus } from "@/lib/attestations"
+import { IndexedAttestation } from "@/lib/indexer"
+import { canSearchAttestations, fetchAllNetworkAttestations } from "@/lib/local-indexer"
+import { formatError } from "@/lib/errors"
+import { LOAN_SCHEMA_UID, buildLoanTimelines } from "@/lib/loans"
+import { getExplorerUrl } from "@/lib/networks"
+import { AttestationContribution, computeReputationScore } from "@/lib/reputation"
+import { DecodedField, decodeSchemaData } from "@/lib/schema"
+
+interface ProfileData {
+  // network + address the data was loaded for; a mismatch means a reload is pending
+  key: string
+  received: IndexedAttestation[]
+  issued: IndexedAttestation[]
+  error?: string
+}
+
+interface SchemaGroup {
+  schemaUID: string
+  schemaDefinition: string
+  attestations: IndexedAttestation[]
+}
+
+/** === Helpers === */
+const formatAddress = (addr: string) => (addr.length > 12 ? `${addr.slice(0, 6)}...${addr.slice(-4)}` : addr)
+
+const formatTimestamp = (ts: bigint) => (ts > BigInt(0) ? new Date(Number(ts) * 1000).toLocaleString() : "Unknown")
+
+const groupBySchema = (attestations: IndexedAttestation[]): SchemaGroup[] => {
+  const groups = new Map<string, SchemaGroup>()
+  for (const attestation of attestations) {
+    const key = attestation.schema.toLowerCase()
+    const group = groups.get(key) ?? {
+      schemaUID: attestation.schema,
+      schemaDefinition: attestation.schemaDefinition,
+      attestations: [],
+    }
+    group.attestations.push(attestation)
+    groups.set(key, group)
+  }
+  return Array.from(groups.values()).sort((a, b) => b.attestations.length - a.attestations.length)
+}
+
+const safeDecode = (attestation: IndexedAttestation): DecodedField[] | null => {
+  try {
+    return decodeSchemaData(attestation.schemaDefinition, attestation.data)
+  } catch {
+    return null
+  }
+}
+
+const formatDecodedValue = (value: DecodedField["value"]) =>
+  typeof value === "object" ? JSON.stringify(value) : String(value)
+
+/** === Components === */
+function AttestationItem({
+  attestation,
+  direction,
+  contribution,
+}: {
+  attestation: IndexedAttestation
+  direction: "received" | "issued"
+  contribution?: AttestationContribution
+}) {
+  const decoded = safeDecode(attestation)
+  const { status } = evaluateAttestationStatus(attestation)
+  const counterparty = direction === "received" ? attestation.attester : attestation.recipient
+
+  return (
+    <div className="p-4 rounded-md border border-border bg-card space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <span className={`font-bold ${status === "Valid" ? "text-green-600" : status === "Expired" ? "text-yellow-600" : "text-red-600"}`}>
+          {status}
+        </span>
+        <span className="text-muted-foreground">{formatTimestamp(attestation.time)}</span>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {direction === "received" ? "From" : "To"}{" "}
+        <Link href={`/profile/${counterparty}`} className="font-mono text-primary hover:underline">
+          {formatAddress(counterparty)}
+        </Link>
+      </p>
+
+      {decoded ? (
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2">
+          {decoded.map((field) => (
+            <div key={field.name} className="p-2 bg-secondary rounded-md">
+              <p className="text-xs text-muted-foreground">{field.name}</p>
+              <p className="font-medium text-sm break-all">{formatDecodedValue(field.value)}</p>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">Payload could not be decoded with its schema.</p>
+      )}
+
+      <div className="flex items-center justify-between text-sm">
+        {contribution ? (
+          <span className="text-muted-foreground">
+            {contribution.skippedReason ? contribution.skippedReason : `${contribution.points > 0 ? "+" : ""}${contribution.points} reputation points`}
+          </span>
+        ) : (
+          <span />
+        )}
+        <Link href={`/?verify=${attestation.uid}`} className="text-primary hover:underline">
+          Verify →
+        </Link>
+      </div>
+    </div>
+  )
+}
+
+function SchemaGroupList({
+  title,
+  groups,
+  direction,
+  contributions,
+}: {
+  title: string
+  groups: SchemaGroup[]
+  direction: "received" | "issued"
+  contributions?: Map<string, AttestationContribution>
+}) {
+  const total = groups.reduce((sum, g) => sum + g.attestations.length, 0)
+  const schemaUIDs = useMemo(() => groups.map((g) => g.schemaUID), [groups])
+  const { names: schemaNames } = useSchemaNames(schemaUIDs)
+
+  return (
+    <section className="space-y-4">
+      <h2 className="text-xl font-bold">
+        {title} <span className="text-muted-foreground text-base font-normal">({total})</span>
+      </h2>
+      {groups.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No attestations found.</p>
+      ) : (
+        groups.map((group) => (
+          <div key={group.schemaUID} className="space-y-3">
+            <div className="p-3 bg-secondary border border-border rounded-md text-sm">
+              {schemaNames[group.schemaUID.toLowerCase()] && (
+                <p className="font-medium">{schemaNames[group.schemaUID.toLowerCase()].name}</p>
+              )}
+              <p className="font-mono break-all text-primary">{group.schemaDefinition || "Unknown schema"}</p>
+              <p className="font-mono text-xs text-muted-foreground break-all mt-1">{group.schemaUID}</p>
+            </div>
+            {group.attestations.map((attestation) => (
+              <AttestationItem
+                key={attestation.uid}
+                attestation={attestation}
+                direction={direction}
+                contribution={contributions?.get(attestation.uid)}
+              />
+            ))}
+          </div>
+        ))
+      )}
+    </section>
+  )
+}
+
+/** === Page === */
+export default function ProfilePage() {
+  const params = useParams<{ address: string }>()
+  const { network, readProvider } = useWallet()
+  const [data, setData] = useState<ProfileData | null>(null)
+
+  const rawAddress = decodeURIComponent(params.address ?? "")
+  const isValidAddress = ethers.isAddress(rawAddress)
+  const profileAddress = isValidAddress ? ethers.getAddress(rawAddress) : rawAddress
+  const requestKey = `${network.chainId}:${profileAddress}`
+  const canLoad = isValidAddress && canSearchAttestations(network)
+  const isLoading = canLoad && data?.key !== requestKey
+
+  // Read-only: everything comes from the indexer (or the local event index), so no wallet is needed
+  useEffect(() => {
+    if (!canLoad) return
+
+    let cancelled = false
+    const loadProfile = async () => {
+      try {
+        const [received, issued] = await Promise.all([
+          fetchAllNetworkAttestations(network, readProvider, { field: "recipient", value: profileAddress }),
+          fetchAllNetworkAttestations(network, readProvider, { field: "attester", value: profileAddress }),
+        ])
+        if (!cancelled) setData({ key: requestKey, received, issued })
+      } catch (err) {
+        console.error("Profile load failed:", err)
+        if (!cancelled) {
+          setData({ key: requestKey, received: [], issued: [], error: formatError(err) })
+        }
+      }
+    }
+
+    loadProfile()
+    return () => {
+      cancelled = true
+    }
+  }, [canLoad, network, readProvider, profileAddress, requestKey])
+
+  const current = data?.key === requestKey ? data : null
+
+  const reputation = useMemo(
+    () =>
+      computeReputationScore(
+        profileAddress,
+        (current?.received ?? []).map((attestation) => ({ attestation, schemaDefinition: attestation.schemaDefinition }))
+      ),
+    [current, profileAddress]
+  )
+  const contributions = useMemo(() => new Map(reputation.contributions.map((c) => [c.uid, c])), [reputation])
+  const loanTimelines = useMemo(
+    () => buildLoanTimelines((current?.received ?? []).filter((a) => a.schema.toLowerCase() === LOAN_SCHEMA_UID)),
+    [current]
+  )
+  const receivedGroups = useMemo(() => groupBySchema(current?.received ?? []), [current])
+  const issuedGroups = useMemo(() => groupBySchema(current?.issued ?? []), [current])
+  const explorerUrl = isValidAddress ? getExplorerUrl(network, "address", profileAddress) : null
+
+  return (
+    <main className="min-h-screen bg-background flex flex-col">
+      {/* Navigation */}
+      <nav className="border-b border-border px-8 py-6">
+        <div className="max-w-7xl mx-auto flex items-center justify-between">
+          <Link href="/" className="text-2xl font-bold tracking-tight">
+            <span className="text-primary">Rootstock RAS</span>
+            <span className="ml-3 text-sm text-muted-foreground">(Reputation & Attestation Service)</span>
+          </Link>
+          <ConnectWallet />
+        </div>
+      </nav>
+
+      <div className="max-w-4xl w-full mx-auto px-8 py-12 space-y-10 animate-fade-in">
+        {/* Header */}
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">Public profile on {network.name}</p>
+          <h1 className="text-2xl md:text-3xl font-bold font-mono break-all">{profileAddress}</h1>
+          {explorerUrl && (
+            <a href={explorerUrl} target="_blank" rel="noreferrer" className="text-primary text-sm hover:underline">
+              View address on {network.shortName} Explorer
+            </a>
+          )}
+        </div>
+
+        {!isValidAddress ? (
+          <div className="p-4 bg-red-100 text-red-800 border border-red-300 rounded-md text-center">
+            &quot;{rawAddress}&quot; is not a valid address.
+          </div>
+        ) : !canSearchAttestations(network) ? (
+          <div className="p-4 bg-yellow-100 text-yellow-800 border border-yellow-300 rounded-md text-center">
+            Neither a RAS indexer nor EAS contracts are configured for {network.name}.
+          </div>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center gap-2 py-16 text-muted-foreground">
+            <div className="animate-spin inline-block w-4 h-4 border-2 border-current border-t-transparent rounded-full" />
+            Loading attestations...
+          </div>
+        ) : current?.error ? (
+          <div className="p-4 bg-red-100 text-red-800 border border-red-300 rounded-md text-center">
+            Could not load attestations: {current.error}
+          </div>
+        ) : (
+          <>
+            {/* Reputation Score */}
+            <div className="p-6 rounded-lg border border-border bg-gradient-to-r from-transparent to-card/50">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-xs text-muted-foreground">RAS Reputation Score</p>
+                  <p className="text-4xl font-bold font-mono mt-1">
+                    {reputation.score}
+                    <span className="text-base text-muted-foreground font-normal"> / 1000</span>
+                  </p>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Based on {reputation.contributions.filter((c) => !c.skippedReason).length} of{" "}
+                    {reputation.contributions.length} received attestations
+                  </p>
+                </div>
+                <div className="text-right">
+                  <div className="text-xs text-muted-foreground">Trust</div>
+                  <div className="mt-1 inline-flex items-baseline gap-2">
+                    <TrustBadge trust={reputation.trust} />
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            {loanTimelines.length > 0 && (
+              <section className="space-y-4">
+                <h2 className="text-xl font-bold">
+                  Loan History <span className="text-muted-foreground text-base font-normal">({loanTimelines.length})</span>
+                </h2>
+                <LoanTimelineList timelines={loanTimelines} />
+              </section>
+            )}
+
+            <SchemaGroupList title="Received" groups={receivedGroups} direction="received" contributions={contributions} />
+            <SchemaGroupList title="Issued" groups={issuedGroups} direction="issued" />
+          </>
+        )}
+      </div>
+    </main>
+  )
+}
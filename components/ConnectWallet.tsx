@@ -1,4 +1,16 @@
+import { useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
 import { useWallet } from '@/hooks/useWallet';
+import type { EIP6963ProviderInfo } from '@/lib/wallets';
+import TransactionHistory from '@/components/transaction-history';
+
+const WalletIcon = ({ wallet }: { wallet: EIP6963ProviderInfo }) =>
+  wallet.icon ? (
+    <Image src={wallet.icon} alt="" width={20} height={20} unoptimized className="rounded-sm" />
+  ) : (
+    <span className="w-5 h-5 rounded-sm bg-secondary inline-block" />
+  );
 
 const ConnectWallet = () => {
   const { 
@@ -7,29 +19,86 @@ const ConnectWallet = () => {
     isWrongNetwork, 
     connectWallet, 
     disconnectWallet, 
-    switchNetwork 
-  } = useWallet() as any;
+    switchNetwork,
+    network,
+    networks,
+    selectNetwork,
+    wallets,
+    wallet,
+    isAuthenticated,
+    signIn,
+    signOut,
+  } = useWallet();
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+
+  // With several wallets installed the user picks one; otherwise connect straight away
+  const handleConnectClick = () => {
+    if (address) {
+      disconnectWallet();
+    } else if (wallets.length > 1) {
+      setIsPickerOpen(!isPickerOpen);
+    } else {
+      connectWallet();
+    }
+  };
+
+  const handlePickWallet = (rdns: string) => {
+    setIsPickerOpen(false);
+    connectWallet(rdns);
+  };
 
   return (
     <div className="flex flex-col items-end gap-3">
-      <button 
-        onClick={address ? disconnectWallet : connectWallet}
-        className="px-6 py-2.5 rounded-md font-medium transition-all duration-300 bg-primary text-primary-foreground hover:bg-primary/90 hover:shadow-lg active:scale-[0.98] focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
-      >
-        {address ? 'Disconnect Wallet' : 'Connect Wallet'}
-      </button>
+      <div className="flex items-center gap-3">
+        <TransactionHistory />
+
+        {/* Network Picker */}
+        <select
+          value={network.chainId}
+          onChange={(e) => selectNetwork(Number(e.target.value))}
+          className="px-3 py-2.5 rounded-md border border-border bg-card text-card-foreground text-sm focus:outline-none focus:ring-2 focus:ring-ring transition-all"
+        >
+          {networks.map((n) => (
+            <option key={n.chainId} value={n.chainId}>{n.name}</option>
+          ))}
+        </select>
+
+        <button 
+          onClick={handleConnectClick}
+          className="px-6 py-2.5 rounded-md font-medium transition-all duration-300 bg-primary text-primary-foreground hover:bg-primary/90 hover:shadow-lg active:scale-[0.98] focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {address ? 'Disconnect Wallet' : 'Connect Wallet'}
+        </button>
+      </div>
+
+      {/* Wallet Picker */}
+      {isPickerOpen && !address && (
+        <div className="w-64 p-2 rounded-md bg-card border border-border shadow-lg animate-slide-up">
+          <p className="px-2 py-1 text-xs text-muted-foreground">Choose a wallet</p>
+          {wallets.map((w) => (
+            <button
+              key={w.rdns}
+              onClick={() => handlePickWallet(w.rdns)}
+              className="w-full flex items-center gap-3 px-2 py-2 rounded-md text-sm text-left hover:bg-secondary transition-colors"
+            >
+              <WalletIcon wallet={w} />
+              <span className="font-medium">{w.name}</span>
+            </button>
+          ))}
+        </div>
+      )}
 
       {/* Conditional Display for Wrong Network */}
       {address && isWrongNetwork && (
         <div className="mt-2 p-4 rounded-md border border-destructive/50 bg-destructive/10 backdrop-blur-sm animate-slide-up">
           <p className="text-sm font-medium text-destructive mb-3">
-            Wrong Network! Please switch to Rootstock Testnet.
+            Wrong Network! Please switch to {network.name}.
           </p>
           <button 
             onClick={switchNetwork}
             className="px-4 py-2 rounded-md font-medium text-sm transition-all duration-300 bg-destructive text-destructive-foreground hover:bg-destructive/90 hover:shadow-md active:scale-[0.98] focus:outline-none focus:ring-2 focus:ring-destructive focus:ring-offset-2"
           >
-            Switch to RSK Testnet
+            Switch to {network.shortName}
           </button>
         </div>
       )}
@@ -37,8 +106,27 @@ const ConnectWallet = () => {
       {/* Display connected address */}
       {address && !isWrongNetwork && (
         <div className="mt-2 px-4 py-2 rounded-md bg-card border border-border text-sm font-mono text-muted-foreground animate-slide-up">
-          <span className="text-foreground font-medium">Connected to RSK Testnet:</span>{' '}
-          <span className="text-primary">{(address as any).substring(0, 6)}...{(address as any).substring(38)}</span>
+          {wallet && (
+            <span className="inline-flex align-middle mr-2" title={wallet.name}>
+              <WalletIcon wallet={wallet} />
+            </span>
+          )}
+          <span className="text-foreground font-medium">Connected to {network.shortName}:</span>{' '}
+          <Link href={`/profile/${address}`} className="text-primary hover:underline" title="View your public profile">
+            {address.substring(0, 6)}...{address.substring(38)}
+          </Link>
+          {isAuthenticated ? (
+            <span className="ml-3 font-sans text-xs">
+              <span className="text-green-600 font-medium">✓ Signed in</span>{' '}
+              <button onClick={signOut} className="text-primary hover:underline">
+                Sign out
+              </button>
+            </span>
+          ) : (
+            <button onClick={signIn} className="ml-3 font-sans text-xs text-primary hover:underline" title="Sign-In with Ethereum">
+              Sign in
+            </button>
+          )}
         </div>
       )}
 
@@ -0,0 +1,128 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { useWallet } from "@/hooks/useWallet"
+import { useActivityFeed } from "@/hooks/useActivityFeed"
+import { useSchemaNames } from "@/hooks/useSchemaNames"
+import { ActivityFilter, EMPTY_ACTIVITY_FILTER, matchesActivityFilter } from "@/lib/activity"
+import { DecodedValue } from "@/lib/schema"
+import { formatSchemaLabel } from "@/lib/schema-names"
+import { hasContracts } from "@/lib/networks"
+
+interface ActivityFeedProps {
+  // Opens an attestation in the verify view
+  onSelect?: (uid: string) => void
+}
+
+const formatAddress = (addr: string) => (addr.length > 12 ? `${addr.slice(0, 6)}...${addr.slice(-4)}` : addr)
+
+const formatValue = (value: DecodedValue): string => (typeof value === "string" ? value : JSON.stringify(value))
+
+const inputClass =
+  "px-3 py-2 rounded-md border border-border bg-card text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all font-mono text-xs"
+
+/** Attestations and revocations on the active network as they are mined. */
+export default function ActivityFeed({ onSelect }: ActivityFeedProps) {
+  const { address, network } = useWallet()
+  const { entries, error, isListening } = useActivityFeed()
+  const [filter, setFilter] = useState<ActivityFilter>(EMPTY_ACTIVITY_FILTER)
+
+  const schemaUIDs = useMemo(() => entries.map((entry) => entry.schema), [entries])
+  const { names: schemaNames } = useSchemaNames(schemaUIDs)
+  const visible = entries.filter((entry) => matchesActivityFilter(entry, filter, address))
+
+  const updateFilter = (change: Partial<ActivityFilter>) => setFilter((prev) => ({ ...prev, ...change }))
+
+  return (
+    <div className="mt-6 p-4 rounded-lg border border-border bg-gradient-to-r from-transparent to-card/50 text-left">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-xs text-muted-foreground">Live on {network.name}</p>
+          <h4 className="font-semibold">Attestation Activity</h4>
+        </div>
+        {isListening && (
+          <span className="inline-flex items-center gap-2 text-xs text-muted-foreground">
+            <span className="w-2 h-2 rounded-full bg-green-600 animate-pulse" />
+            Listening
+          </span>
+        )}
+      </div>
+
+      {/* Filters */}
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+        <label className="inline-flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={filter.onlyMine}
+            disabled={!address}
+            onChange={(e) => updateFilter({ onlyMine: e.target.checked })}
+          />
+          Only my address
+        </label>
+        <input
+          type="text"
+          placeholder="Schema UID"
+          value={filter.schema}
+          onChange={(e) => updateFilter({ schema: e.target.value })}
+          className={`flex-1 min-w-[10rem] ${inputClass}`}
+        />
+        <input
+          type="text"
+          placeholder="Attester address"
+          value={filter.attester}
+          onChange={(e) => updateFilter({ attester: e.target.value })}
+          className={`flex-1 min-w-[10rem] ${inputClass}`}
+        />
+      </div>
+
+      {!hasContracts(network) ? (
+        <p className="mt-3 text-sm text-muted-foreground">EAS contracts are not configured for {network.name}.</p>
+      ) : error ? (
+        <div className="mt-3 p-4 bg-yellow-100 text-yellow-800 border border-yellow-300 rounded-md text-sm">{error}</div>
+      ) : visible.length === 0 ? (
+        <p className="mt-3 text-sm text-muted-foreground">
+          {entries.length === 0 ? "Waiting for new attestations..." : "No activity matches these filters."}
+        </p>
+      ) : (
+        <ul className="mt-3 max-h-80 overflow-y-auto space-y-2 pr-1">
+          {visible.map((entry) => (
+            <li key={entry.id}>
+              <button
+                onClick={() => onSelect?.(entry.uid)}
+                className="w-full text-left p-3 rounded-md border border-border bg-card hover:bg-secondary transition-colors"
+              >
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span
+                    className={`px-2 py-0.5 rounded-full border text-xs font-medium ${
+                      entry.kind === "revoked"
+                        ? "bg-red-100 text-red-800 border-red-300"
+                        : "bg-green-100 text-green-800 border-green-300"
+                    }`}
+                  >
+                    {entry.kind === "revoked" ? "Revoked" : "Attested"}
+                  </span>
+                  <span className="font-medium">{formatSchemaLabel(entry.schema, schemaNames[entry.schema])}</span>
+                  <span className="ml-auto text-xs text-muted-foreground">
+                    {entry.time > 0 ? new Date(entry.time * 1000).toLocaleString() : `Block ${entry.blockNumber}`}
+                  </span>
+                </div>
+                <p className="mt-1 text-xs text-muted-foreground">
+                  <span className="font-mono">{formatAddress(entry.attester)}</span> →{" "}
+                  <span className="font-mono">{formatAddress(entry.recipient)}</span>
+                </p>
+                {entry.fields && entry.fields.length > 0 && (
+                  <p className="mt-1 text-xs font-mono break-all">
+                    {entry.fields.map((field) => `${field.name}: ${formatValue(field.value)}`).join(" • ")}
+                  </p>
+                )}
+                {entry.decodeError && (
+                  <p className="mt-1 text-xs text-red-700">Could not decode data: {entry.decodeError}</p>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,355 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { AttestationRequestData, EAS, SchemaEncoder, SchemaItem } from "@ethereum-attestation-service/eas-sdk"
+import { useWallet } from "@/hooks/useWallet"
+import { useTransactions } from "@/hooks/useTransactions"
+import { useCostEstimate } from "@/hooks/useCostEstimate"
+import { ethers, Signer } from "ethers"
+import { computeChunkSize, estimateBatchGas, splitIntoChunks } from "@/lib/batch"
+import { downloadCsv, parseCsvRecords, toCsv } from "@/lib/csv"
+import { getExplorerUrl } from "@/lib/networks"
+import { AppError, classifyError } from "@/lib/errors"
+import ErrorNotice from "@/components/error-notice"
+import CostPreview from "@/components/cost-preview"
+import { buildCostEstimate, getGasPrice } from "@/lib/gas"
+import { SchemaField, buildSchemaItems } from "@/lib/schema"
+
+interface BulkIssuePanelProps {
+  schemaUID: string
+  schemaDefinition: string
+  schemaFields: SchemaField[]
+  // Taken from the schema record; an irrevocable schema rejects revocable attestations
+  revocable: boolean
+}
+
+// One CSV line, validated against the schema
+interface BulkRow {
+  // 1-based line number in the CSV body (header excluded)
+  line: number
+  record: Record<string, string>
+  recipient: string
+  items: SchemaItem[]
+  errors: string[]
+}
+
+interface RowOutcome {
+  uid?: string
+  txHash?: string
+  error?: string
+}
+
+const RECIPIENT_COLUMN = "recipient"
+
+const validateRows = (csvText: string, schemaFields: SchemaField[]): { rows: BulkRow[]; headerError: string | null } => {
+  if (!csvText.trim()) return { rows: [], headerError: null }
+
+  let parsed
+  try {
+    parsed = parseCsvRecords(csvText)
+  } catch (err) {
+    return { rows: [], headerError: (err as Error).message }
+  }
+
+  const missing = [RECIPIENT_COLUMN, ...schemaFields.map((f) => f.name)].filter((h) => !parsed.headers.includes(h))
+  if (missing.length > 0) {
+    return { rows: [], headerError: `CSV header is missing column(s): ${missing.join(", ")}` }
+  }
+
+  const rows = parsed.records.map((record, i) => {
+    const errors: string[] = []
+    const recipient = record[RECIPIENT_COLUMN]
+    if (!ethers.isAddress(recipient)) errors.push("recipient must be a valid address")
+
+    const { items, errors: fieldErrors } = buildSchemaItems(schemaFields, record)
+    errors.push(...Object.values(fieldErrors))
+    return { line: i + 1, record, recipient, items, errors }
+  })
+  return { rows, headerError: null }
+}
+
+interface RowRequest {
+  row: BulkRow
+  data: AttestationRequestData
+}
+
+const buildRowRequests = (rows: BulkRow[], schemaDefinition: string, revocable: boolean): RowRequest[] => {
+  const encoder = new SchemaEncoder(schemaDefinition)
+  return rows.map((row) => ({
+    row,
+    data: {
+      recipient: row.recipient,
+      expirationTime: BigInt(0),
+      revocable,
+      data: encoder.encodeData(row.items),
+    },
+  }))
+}
+
+// Sizes chunks from the largest payloads so every chunk fits under the block gas limit
+const planChunks = async (eas: EAS, provider: ethers.Provider, schemaUID: string, requests: RowRequest[]) => {
+  const largest = [...requests].sort((a, b) => b.data.data.length - a.data.data.length).map((r) => r.data)
+  const singleRowGas = await (await eas.multiAttest([{ schema: schemaUID, data: largest.slice(0, 1) }])).estimateGas()
+  const twoRowGas =
+    largest.length > 1
+      ? await (await eas.multiAttest([{ schema: schemaUID, data: largest.slice(0, 2) }])).estimateGas()
+      : singleRowGas * BigInt(2)
+  const latestBlock = await provider.getBlock("latest")
+  if (!latestBlock) throw new Error("Could not read the latest block.")
+  const chunkSize = computeChunkSize(latestBlock.gasLimit, singleRowGas, twoRowGas)
+  return { chunks: splitIntoChunks(requests, chunkSize), singleRowGas, twoRowGas }
+}
+
+export default function BulkIssuePanel({ schemaUID, schemaDefinition, schemaFields, revocable }: BulkIssuePanelProps) {
+  const { signer, provider, readProvider, address, isWrongNetwork, network } = useWallet()
+  const { sendTransaction } = useTransactions()
+
+  const [csvText, setCsvText] = useState("")
+  const [fileName, setFileName] = useState("attestations.csv")
+  const [outcomes, setOutcomes] = useState<Record<number, RowOutcome>>({})
+  const [progress, setProgress] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<AppError | null>(null)
+
+  const { rows, headerError } = useMemo(() => validateRows(csvText, schemaFields), [csvText, schemaFields])
+  const invalidCount = rows.filter((r) => r.errors.length > 0).length
+  const pendingRows = useMemo(() => rows.filter((r) => !outcomes[r.line]?.uid), [rows, outcomes])
+  const columns = [RECIPIENT_COLUMN, ...schemaFields.map((f) => f.name)]
+
+  const canBuildBatch =
+    !!signer && !!provider && !isWrongNetwork && schemaFields.length > 0 && rows.length > 0 && invalidCount === 0 && !headerError
+
+  // Total cost across every chunk, priced once for the whole batch
+  const estimateBatch = useMemo(() => {
+    if (!canBuildBatch || !signer || !address || isSubmitting || pendingRows.length === 0) return null
+    return async () => {
+      const eas = new EAS(network.easAddress)
+      eas.connect(signer as unknown as Signer)
+      const requests = buildRowRequests(pendingRows, schemaDefinition, revocable)
+      const { chunks, singleRowGas, twoRowGas } = await planChunks(eas, readProvider, schemaUID, requests)
+      const [gasPrice, balance] = await Promise.all([getGasPrice(readProvider), readProvider.getBalance(address)])
+      const gasLimit = estimateBatchGas(
+        chunks.map((chunk) => chunk.length),
+        singleRowGas,
+        twoRowGas
+      )
+      return { ...buildCostEstimate(gasLimit, gasPrice, BigInt(0), balance), chunkCount: chunks.length }
+    }
+  }, [canBuildBatch, signer, address, isSubmitting, pendingRows, network, schemaDefinition, revocable, readProvider, schemaUID])
+  const batchCost = useCostEstimate(estimateBatch)
+
+  const isReadyToSubmit = canBuildBatch && !batchCost.isUnderfunded
+
+  const loadCsv = (text: string) => {
+    setCsvText(text)
+    setOutcomes({})
+    setProgress(null)
+    setError(null)
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setFileName(file.name)
+    loadCsv(await file.text())
+  }
+
+  const handleDownloadTemplate = () => {
+    downloadCsv("attestations-template.csv", toCsv([columns]))
+  }
+
+  const handleDownloadResults = () => {
+    const header = [...columns, "uid", "txHash", "error"]
+    const body = rows.map((r) => [
+      ...columns.map((c) => r.record[c] ?? ""),
+      outcomes[r.line]?.uid ?? "",
+      outcomes[r.line]?.txHash ?? "",
+      outcomes[r.line]?.error ?? r.errors.join("; "),
+    ])
+    downloadCsv(fileName.replace(/\.csv$/i, "") + "-results.csv", toCsv([header, ...body]))
+  }
+
+  const handleSubmit = async () => {
+    if (!isReadyToSubmit || !signer || !provider) return
+
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const eas = new EAS(network.easAddress)
+      eas.connect(signer as unknown as Signer)
+
+      const requests = buildRowRequests(pendingRows, schemaDefinition, revocable)
+
+      setProgress("Estimating gas...")
+      const { chunks } = await planChunks(eas, provider, schemaUID, requests)
+      for (const [i, chunk] of chunks.entries()) {
+        setProgress(`Submitting chunk ${i + 1} of ${chunks.length} (${chunk.length} attestations)...`)
+        const tx = await eas.multiAttest([{ schema: schemaUID, data: chunk.map((c) => c.data) }])
+        try {
+          const { uids, hash: txHash } = await sendTransaction(tx.data, {
+            kind: "batch",
+            label: `Bulk issue chunk ${i + 1} of ${chunks.length} (${chunk.length} attestations)`,
+          })
+          setOutcomes((prev) => {
+            const next = { ...prev }
+            chunk.forEach((c, j) => {
+              next[c.row.line] = { uid: uids[j], txHash }
+            })
+            return next
+          })
+        } catch (err) {
+          const message = classifyError(err).message
+          setOutcomes((prev) => {
+            const next = { ...prev }
+            chunk.forEach((c) => {
+              next[c.row.line] = { error: message }
+            })
+            return next
+          })
+          throw err
+        }
+      }
+      setProgress(`Issued ${requests.length} attestations in ${chunks.length} transaction(s).`)
+    } catch (err) {
+      console.error("Bulk attestation failed:", err)
+      setError(classifyError(err))
+      setProgress(null)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6 animate-slide-up">
+      {/* CSV Input */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="block text-sm font-medium">Recipients CSV</label>
+          <button
+            onClick={handleDownloadTemplate}
+            disabled={schemaFields.length === 0}
+            className="text-primary text-xs hover:underline disabled:opacity-50"
+          >
+            Download template
+          </button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          One row per recipient. Columns: <span className="font-mono">{columns.join(", ")}</span>
+        </p>
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          className="block w-full text-sm text-muted-foreground file:mr-4 file:px-4 file:py-2 file:rounded-md file:border file:border-border file:bg-card file:text-card-foreground"
+        />
+        <textarea
+          rows={5}
+          value={csvText}
+          onChange={(e) => loadCsv(e.target.value)}
+          placeholder={`${columns.join(",")}\n0x...,...`}
+          className="w-full px-4 py-2 rounded-md border border-border bg-card text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all font-mono text-xs"
+        />
+        {headerError && <p className="text-xs text-red-600">{headerError}</p>}
+      </div>
+
+      {/* Preview */}
+      {rows.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">
+            Preview: {rows.length} row(s){invalidCount > 0 && <span className="text-red-600"> • {invalidCount} with errors</span>}
+          </p>
+          <div className="max-h-72 overflow-auto border border-border rounded-md">
+            <table className="w-full text-xs">
+              <thead className="bg-secondary sticky top-0">
+                <tr>
+                  <th className="px-2 py-1 text-left">#</th>
+                  {columns.map((c) => (
+                    <th key={c} className="px-2 py-1 text-left font-mono">{c}</th>
+                  ))}
+                  <th className="px-2 py-1 text-left">Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => {
+                  const outcome = outcomes[row.line]
+                  return (
+                    <tr key={row.line} className={`border-t border-border ${row.errors.length > 0 ? "bg-red-50/10" : ""}`}>
+                      <td className="px-2 py-1 text-muted-foreground">{row.line}</td>
+                      {columns.map((c) => (
+                        <td key={c} className="px-2 py-1 font-mono break-all">{row.record[c]}</td>
+                      ))}
+                      <td className="px-2 py-1">
+                        {row.errors.length > 0 ? (
+                          <span className="text-red-600">{row.errors.join("; ")}</span>
+                        ) : outcome?.uid ? (
+                          getExplorerUrl(network, "attestation", outcome.uid) ? (
+                            <a
+                              href={getExplorerUrl(network, "attestation", outcome.uid)!}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="font-mono text-primary hover:underline"
+                            >
+                              {outcome.uid.slice(0, 10)}...
+                            </a>
+                          ) : (
+                            <span className="font-mono text-green-600">{outcome.uid.slice(0, 10)}...</span>
+                          )
+                        ) : outcome?.error ? (
+                          <span className="text-red-600">{outcome.error}</span>
+                        ) : (
+                          <span className="text-green-600">✓ valid</span>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="space-y-2">
+          <ErrorNotice error={error} title="Bulk issuance stopped" />
+          <p className="text-xs text-muted-foreground">Completed rows keep their UIDs; submit again to retry the rest.</p>
+        </div>
+      )}
+      {progress && <p className="text-sm text-muted-foreground">{progress}</p>}
+
+      {!isSubmitting && (
+        <CostPreview
+          cost={batchCost.cost}
+          error={batchCost.error}
+          isEstimating={batchCost.isEstimating}
+          note={batchCost.cost ? `${batchCost.cost.chunkCount} transaction(s)` : undefined}
+        />
+      )}
+
+      {/* Submit Button */}
+      <button
+        onClick={handleSubmit}
+        disabled={isSubmitting || !isReadyToSubmit || pendingRows.length === 0}
+        className="w-full py-3 rounded-md bg-primary text-primary-foreground font-medium transition-all duration-300 hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isSubmitting ? (
+          <span className="inline-flex items-center gap-2">
+            <div className="animate-spin inline-block w-4 h-4 border-2 border-current border-t-transparent rounded-full" />
+            Processing Batch...
+          </span>
+        ) : (
+          `Issue ${pendingRows.length} Attestation(s)`
+        )}
+      </button>
+
+      {Object.keys(outcomes).length > 0 && (
+        <button
+          onClick={handleDownloadResults}
+          className="w-full py-2 rounded-md border border-border text-sm font-medium hover:bg-secondary transition-colors"
+        >
+          Download Result CSV
+        </button>
+      )}
+    </div>
+  )
+}
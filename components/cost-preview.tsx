@@ -0,0 +1,80 @@
+"use client"
+
+import { useWallet } from "@/hooks/useWallet"
+import { AppError } from "@/lib/errors"
+import { CostEstimate, formatNativeAmount } from "@/lib/gas"
+
+interface CostPreviewProps {
+  cost: CostEstimate | null
+  error: AppError | null
+  isEstimating: boolean
+  // Shown for batches, e.g. "3 transactions"
+  note?: string
+}
+
+/** Expected network fee next to the balance, with a faucet hint when funds are short. */
+export default function CostPreview({ cost, error, isEstimating, note }: CostPreviewProps) {
+  const { network, address } = useWallet()
+
+  if (isEstimating) {
+    return <p className="text-xs text-muted-foreground animate-slide-up">Estimating network fee...</p>
+  }
+
+  // The wallet estimates again on submit, so a failed preview doesn't block it
+  if (error) {
+    return (
+      <div className="p-3 bg-yellow-100 text-yellow-800 border border-yellow-300 rounded-md text-xs animate-slide-up">
+        <p className="font-medium">Could not estimate the cost: {error.message}</p>
+        {error.suggestion && <p className="mt-1">{error.suggestion}</p>}
+      </div>
+    )
+  }
+
+  if (!cost) return null
+
+  const isUnderfunded = cost.shortfall > BigInt(0)
+
+  return (
+    <div className="p-4 bg-card border border-border rounded-md space-y-2 text-xs animate-slide-up">
+      <div className="flex justify-between gap-4">
+        <span className="text-muted-foreground">Estimated gas{note ? ` (${note})` : ""}</span>
+        <span className="font-mono">
+          {cost.gasLimit.toLocaleString()} @ {(Number(cost.gasPrice) / 1e9).toLocaleString(undefined, { maximumFractionDigits: 4 })} gwei
+        </span>
+      </div>
+      {cost.value > BigInt(0) && (
+        <div className="flex justify-between gap-4">
+          <span className="text-muted-foreground">Value sent</span>
+          <span className="font-mono">{formatNativeAmount(cost.value, network)}</span>
+        </div>
+      )}
+      <div className="flex justify-between gap-4 font-medium">
+        <span>Expected cost</span>
+        <span className="font-mono">{formatNativeAmount(cost.total, network)}</span>
+      </div>
+      <div className="flex justify-between gap-4">
+        <span className="text-muted-foreground">Your balance</span>
+        <span className={`font-mono ${isUnderfunded ? "text-red-600" : ""}`}>{formatNativeAmount(cost.balance, network)}</span>
+      </div>
+
+      {isUnderfunded && (
+        <div role="alert" className="p-3 bg-red-100 text-red-800 border border-red-300 rounded-md">
+          <p className="font-medium">
+            Insufficient balance: {formatNativeAmount(cost.shortfall, network)} more is needed.
+          </p>
+          {network.faucetUrl ? (
+            <p className="mt-1">
+              Get free {network.nativeCurrency.symbol} from the{" "}
+              <a href={network.faucetUrl} target="_blank" rel="noopener noreferrer" className="underline">
+                {network.shortName} faucet
+              </a>
+              {address ? ` for ${address.slice(0, 6)}...${address.slice(-4)}` : ""}, then try again.
+            </p>
+          ) : (
+            <p className="mt-1">Add {network.nativeCurrency.symbol} to your account, then try again.</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
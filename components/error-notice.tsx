@@ -0,0 +1,32 @@
+"use client"
+
+import { AppError } from "@/lib/errors"
+
+interface ErrorNoticeProps {
+  // Classified failures show their suggestion; plain strings are validation messages
+  error: AppError | string
+  // What was being attempted, e.g. "Revocation failed"
+  title?: string
+  className?: string
+}
+
+/** Error box with the classified message and a suggested fix. */
+export default function ErrorNotice({ error, title, className = "" }: ErrorNoticeProps) {
+  const message = typeof error === "string" ? error : error.message
+  const suggestion = typeof error === "string" ? null : error.suggestion
+  // A rejected request is the user's own choice, not a failure
+  const tone =
+    typeof error !== "string" && error.kind === "rejected"
+      ? "bg-yellow-100 text-yellow-800 border-yellow-300"
+      : "bg-red-100 text-red-800 border-red-300"
+
+  return (
+    <div role="alert" className={`p-4 border rounded-md text-sm ${tone} ${className}`}>
+      <p className="font-medium">
+        {title ? `${title}: ` : ""}
+        {message}
+      </p>
+      {suggestion && <p className="mt-1">{suggestion}</p>}
+    </div>
+  )
+}
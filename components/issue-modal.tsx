@@ -1,53 +1,244 @@
 // components/IssueModal.tsx
 "use client"
 
-import { useState } from "react"
-import { EAS, SchemaEncoder } from '@ethereum-attestation-service/eas-sdk';
+import { useEffect, useMemo, useState } from "react"
+import { EAS, SchemaEncoder, SchemaRegistry } from '@ethereum-attestation-service/eas-sdk';
 import { useWallet } from "@/hooks/useWallet";
+import { useTransactions } from "@/hooks/useTransactions";
+import { useCostEstimate } from "@/hooks/useCostEstimate";
+import { useSchemaNames } from "@/hooks/useSchemaNames";
 import { ethers, Signer } from "ethers";
+import { getExplorerUrl } from "@/lib/networks";
+import { parseExpirationInput } from "@/lib/attestations";
+import { REPUTATION_SCHEMA_UID } from "@/lib/reputation";
+import BulkIssuePanel from "@/components/bulk-issue-panel";
+import { RelayerStatus, fetchRelayerStatus, signDelegatedAttestation, submitDelegatedAttestation } from "@/lib/delegation";
+import { OffchainAttestationPackage, buildOffchainShareUrl, downloadOffchainPackage, signOffchainAttestation } from "@/lib/offchain";
+import { TrackedTransactionError } from "@/lib/transactions";
+import { AppError, classifyError } from "@/lib/errors";
+import ErrorNotice from "@/components/error-notice";
+import CostPreview from "@/components/cost-preview";
+import { estimateTransactionCost } from "@/lib/gas";
+import { SchemaField, buildSchemaItems, extractSchemaString, getFieldInputKind, getFieldPlaceholder, safeParseSchemaFields } from "@/lib/schema";
 
 interface IssueModalProps {
   onClose: () => void
+  // Schema picked in the catalog; replaces the default reputation schema
+  initialSchema?: { uid: string; definition: string }
 }
 
-// Attestation result type from EAS SDK
-interface AttestationResult {
-  uid: string;
-  tx?: {
-    hash: string;
-  };
-  txHash?: string;
-}
-
-// --- EAS & Rootstock Configuration ---
-const EASContractAddress = '0xc300aeeadd60999933468738c9f5d7e9c0671e1c'; // Rootstock Testnet
-
 // --- DEFAULT VALUES FOR INPUTS ---
 // Set defaults to the original reputation schema for easy testing
-const DEFAULT_SCHEMA_UID = "0xf58b8b212ef75ee8cd7e8d803c37c03e0519890502d5e99ee2412aae1456cafe";
+const DEFAULT_SCHEMA_UID = REPUTATION_SCHEMA_UID;
 const DEFAULT_SCHEMA_DATA_STRING = "uint8 score";
+const DEFAULT_FIELD_VALUES: Record<string, string> = { score: "95" };
 // ------------------------------------
 
-export default function IssueModal({ onClose }: IssueModalProps) {
-  const { signer, isWrongNetwork, address, connectWallet } = useWallet();
+const isSchemaUID = (uid: string) => uid.startsWith('0x') && uid.length === 66;
+
+export default function IssueModal({ onClose, initialSchema }: IssueModalProps) {
+  const { signer, readProvider, isWrongNetwork, address, connectWallet, network, isAuthenticated, signIn } = useWallet();
+  const { sendTransaction, notify } = useTransactions();
   
   // Custom input states for Schema
-  const [schemaUID, setSchemaUID] = useState(DEFAULT_SCHEMA_UID);
-  const [schemaDataString, setSchemaDataString] = useState(DEFAULT_SCHEMA_DATA_STRING);
+  const [schemaUID, setSchemaUID] = useState(initialSchema?.uid ?? DEFAULT_SCHEMA_UID);
+  const [schemaDataString, setSchemaDataString] = useState(initialSchema?.definition ?? DEFAULT_SCHEMA_DATA_STRING);
+  // Tracks which UID the schema string was fetched for, so edits to the UID invalidate it
+  const [fetchedSchema, setFetchedSchema] = useState<{ uid: string; schema: string; revocable: boolean } | null>(null);
+  const [schemaFetchError, setSchemaFetchError] = useState<string | null>(null);
 
   // Data field states
   const [recipientAddress, setRecipientAddress] = useState("0x742d35Cc6634C0532925a3b844Bc2e7595f42"); // Default for testing
-  const [score, setScore] = useState("95"); 
-
+  const [fieldValues, setFieldValues] = useState<Record<string, string>>(DEFAULT_FIELD_VALUES);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  // Attestation options
+  const [expirationInput, setExpirationInput] = useState(""); // datetime-local value, empty = never expires
+  const [refUIDInput, setRefUIDInput] = useState("");
+  const [valueInput, setValueInput] = useState(""); // RBTC sent to the schema resolver
+  const [revocableChoice, setRevocableChoice] = useState(true);
+  const [optionErrors, setOptionErrors] = useState<Record<"expiration" | "refUID" | "value", string | undefined>>({
+    expiration: undefined,
+    refUID: undefined,
+    value: undefined,
+  });
+
+  const isSchemaFromRegistry = fetchedSchema?.uid === schemaUID;
+  const schemaUIDList = useMemo(() => [schemaUID], [schemaUID]);
+  const { names: schemaNames } = useSchemaNames(schemaUIDList);
+  const schemaMetadata = schemaNames[schemaUID.toLowerCase()];
+  const isFetchingSchema = isSchemaUID(schemaUID) && !isSchemaFromRegistry && !schemaFetchError;
+  const schemaFields = useMemo(() => safeParseSchemaFields(schemaDataString), [schemaDataString]);
+  // An irrevocable schema rejects revocable attestations, so the schema record wins over the checkbox
+  const schemaRevocable = isSchemaFromRegistry ? fetchedSchema.revocable : null;
+  const attestationRevocable = schemaRevocable === false ? false : revocableChoice;
+
+  const [issueMode, setIssueMode] = useState<"single" | "offchain" | "delegated" | "bulk">("single");
   const [isLoading, setIsLoading] = useState(false);
-  const [result, setResult] = useState<{ status: string; uid: string; txHash: string } | null>(null);
+  const [result, setResult] = useState<{ status: string; uid: string; txHash: string; error?: AppError } | null>(null);
+  // Signed offchain attestation, kept for export
+  const [offchainPackage, setOffchainPackage] = useState<OffchainAttestationPackage | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [relayerStatus, setRelayerStatus] = useState<RelayerStatus | null>(null);
+
+  // Expected cost of the on-chain attestation; only built once every input is valid
+  const estimateAttestation = useMemo(() => {
+    if (issueMode !== "single" || !signer || !address || isWrongNetwork) return null;
+    if (!ethers.isAddress(recipientAddress) || !isSchemaUID(schemaUID) || schemaFields.length === 0) return null;
+
+    const refUID = refUIDInput.trim() || ethers.ZeroHash;
+    if (!ethers.isHexString(refUID, 32)) return null;
+    const { items, errors } = buildSchemaItems(schemaFields, fieldValues);
+    if (Object.keys(errors).length > 0) return null;
+
+    let request: { expirationTime: bigint; value: bigint; data: string };
+    try {
+      request = {
+        expirationTime: parseExpirationInput(expirationInput),
+        value: valueInput.trim() ? ethers.parseEther(valueInput.trim()) : BigInt(0),
+        data: new SchemaEncoder(schemaDataString).encodeData(items),
+      };
+    } catch {
+      return null;
+    }
+    if (request.value < BigInt(0)) return null;
 
-  const isReadyToAttest = signer && !isWrongNetwork;
+    return async () => {
+      const eas = new EAS(network.easAddress);
+      eas.connect(signer as unknown as Signer);
+      const tx = await eas.attest({
+        schema: schemaUID,
+        data: { recipient: recipientAddress, revocable: attestationRevocable, refUID, ...request },
+      });
+      return estimateTransactionCost(readProvider, address, [tx.data]);
+    };
+  }, [
+    issueMode,
+    signer,
+    address,
+    isWrongNetwork,
+    recipientAddress,
+    schemaUID,
+    schemaFields,
+    refUIDInput,
+    fieldValues,
+    expirationInput,
+    valueInput,
+    schemaDataString,
+    network,
+    attestationRevocable,
+    readProvider,
+  ]);
+  const attestationCost = useCostEstimate(estimateAttestation);
+
+  const isSponsoredSchema = !!relayerStatus?.enabled && relayerStatus.schemas.includes(schemaUID.toLowerCase());
+  const isReadyToAttest =
+    signer &&
+    !isWrongNetwork &&
+    // The relayer only sponsors the signed-in attester
+    (issueMode !== "delegated" || (isSponsoredSchema && isAuthenticated)) &&
+    (issueMode !== "single" || !attestationCost.isUnderfunded);
+
+  // Ask the relayer route which schemas it pays for
+  useEffect(() => {
+    let cancelled = false;
+    fetchRelayerStatus()
+      .then((status) => {
+        if (!cancelled) setRelayerStatus(status);
+      })
+      .catch((error) => {
+        console.warn("Relayer status unavailable:", error);
+        if (!cancelled) setRelayerStatus({ enabled: false, schemas: [] });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Fetch the schema definition from the SchemaRegistry whenever a full UID is entered; no wallet needed
+  useEffect(() => {
+    if (!isSchemaUID(schemaUID)) return;
+
+    let cancelled = false;
+    const fetchSchema = async () => {
+      try {
+        const schemaRegistry = new SchemaRegistry(network.schemaRegistryAddress);
+        schemaRegistry.connect(readProvider);
+        const schemaRecord = await schemaRegistry.getSchema({ uid: schemaUID });
+        const schema = extractSchemaString(schemaRecord);
+        if (cancelled) return;
+        if (!schema) throw new Error("Schema not found in the SchemaRegistry.");
+
+        setFetchedSchema({ uid: schemaUID, schema, revocable: Boolean(schemaRecord.revocable) });
+        setSchemaDataString(schema);
+        setSchemaFetchError(null);
+        setFieldErrors({});
+      } catch (error) {
+        if (cancelled) return;
+        console.error("Schema fetch failed:", error);
+        setFetchedSchema(null);
+        setSchemaFetchError("Could not load this schema from the SchemaRegistry. Enter its definition manually.");
+      }
+    };
+
+    fetchSchema();
+    return () => {
+      cancelled = true;
+    };
+  }, [schemaUID, readProvider, network]);
+
+  const updateFieldValue = (name: string, value: string) => {
+    setFieldValues((prev) => ({ ...prev, [name]: value }));
+    setFieldErrors((prev) => {
+      const next = { ...prev };
+      delete next[name];
+      return next;
+    });
+  };
+
+  const renderFieldInput = (field: SchemaField) => {
+    const value = fieldValues[field.name] ?? "";
+    const inputClass = `w-full px-4 py-2 rounded-md border bg-card text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all font-mono text-sm ${
+      fieldErrors[field.name] ? "border-red-400" : "border-border"
+    }`;
+
+    switch (getFieldInputKind(field)) {
+      case "bool":
+        return (
+          <select value={value} onChange={(e) => updateFieldValue(field.name, e.target.value)} className={inputClass}>
+            <option value="">Select...</option>
+            <option value="true">true</option>
+            <option value="false">false</option>
+          </select>
+        );
+      case "array":
+      case "tuple":
+        return (
+          <textarea
+            rows={3}
+            value={value}
+            onChange={(e) => updateFieldValue(field.name, e.target.value)}
+            placeholder={getFieldPlaceholder(field)}
+            className={inputClass}
+          />
+        );
+      default:
+        return (
+          <input
+            type="text"
+            value={value}
+            onChange={(e) => updateFieldValue(field.name, e.target.value)}
+            placeholder={getFieldPlaceholder(field)}
+            className={inputClass}
+          />
+        );
+    }
+  };
 
 
   const handleAttest = async () => {
     if (!isReadyToAttest || !signer) {
-        alert("Please connect your wallet and ensure you are on the Rootstock Testnet.");
+        notify({ tone: "warning", title: `Please connect your wallet and ensure you are on ${network.name}.` });
         connectWallet();
         return;
     }
@@ -55,78 +246,121 @@ export default function IssueModal({ onClose }: IssueModalProps) {
     // Basic validation
     if (!ethers.isAddress(recipientAddress)) {
         setResult({ status: "Failed", uid: "", txHash: "" });
-        alert("Invalid recipient address.");
+        notify({ tone: "warning", title: "Invalid recipient address." });
         return;
     }
     if (!schemaUID || !schemaUID.startsWith('0x') || schemaUID.length !== 66) {
-        alert("Invalid Schema UID format.");
+        notify({ tone: "warning", title: "Invalid Schema UID format." });
         return;
     }
     if (!schemaDataString) {
-        alert("Schema Data String cannot be empty (e.g., 'uint8 score').");
+        notify({ tone: "warning", title: "Schema Data String cannot be empty (e.g., 'uint8 score')." });
+        return;
+    }
+    if (schemaFields.length === 0) {
+        notify({ tone: "warning", title: "Schema Data String is not a valid schema definition." });
+        return;
+    }
+
+    // Validate every field against its Solidity type before encoding
+    const { items: dataToEncode, errors } = buildSchemaItems(schemaFields, fieldValues);
+    setFieldErrors(errors);
+
+    // Validate expiration, refUID and value
+    const nextOptionErrors: typeof optionErrors = { expiration: undefined, refUID: undefined, value: undefined };
+    let expirationTime = BigInt(0);
+    try {
+        expirationTime = parseExpirationInput(expirationInput);
+    } catch (error) {
+        nextOptionErrors.expiration = (error as Error).message;
+    }
+    const refUID = refUIDInput.trim() || ethers.ZeroHash;
+    if (!ethers.isHexString(refUID, 32)) {
+        nextOptionErrors.refUID = "Referenced UID must be a 66-character hex string (0x...).";
+    }
+    let value = BigInt(0);
+    if (issueMode === "single" && valueInput.trim()) {
+        try {
+            value = ethers.parseEther(valueInput.trim());
+        } catch {
+            value = BigInt(-1);
+        }
+        if (value < BigInt(0)) {
+            nextOptionErrors.value = `Value must be a ${network.nativeCurrency.symbol} amount, e.g. 0.001.`;
+        }
+    }
+    setOptionErrors(nextOptionErrors);
+
+    if (Object.keys(errors).length > 0 || Object.values(nextOptionErrors).some(Boolean)) {
         return;
     }
 
 
     setIsLoading(true);
     setResult(null);
+    setOffchainPackage(null);
+    setLinkCopied(false);
+
+    if (issueMode === "offchain") {
+      // Offchain attestations may reference other offchain attestations, so refUID isn't checked on-chain
+      await handleSignOffchain(dataToEncode, { expirationTime, refUID });
+      return;
+    }
 
     try {
       // 1. Initialize EAS and connect the signer
-      const eas = new EAS(EASContractAddress);
+      const eas = new EAS(network.easAddress);
       // Assert signer type for EAS SDK compatibility with Ethers v6
       eas.connect(signer as unknown as Signer); 
-      
-      let encodedData: string;
-      
-      // 2. Prepare the data: Dynamically create SchemaEncoder
-      const schemaEncoder = new SchemaEncoder(schemaDataString);
 
-      // NOTE: This section now assumes the user is using a schema with a single 'uint8 score' field.
-      // For a truly dynamic solution, the UI would need to dynamically render fields based on schemaDataString.
-      
-      // *** Simplified Data Encoding (Assumes 'uint8 score' data string for this example) ***
-      let dataToEncode: { name: string, value: any, type: string }[] = [];
-      
-      const scoreValue = parseInt(score, 10);
-      if (isNaN(scoreValue) || scoreValue < 0 || scoreValue > 100) throw new Error("Invalid score value (must be 0-100).");
-      dataToEncode = [{ name: 'score', value: scoreValue, type: 'uint8' }];
+      // The EAS contract rejects references to attestations that don't exist
+      if (refUID !== ethers.ZeroHash) {
+        const referenced = await eas.getAttestation(refUID);
+        if (!referenced || referenced.uid === ethers.ZeroHash) {
+          setOptionErrors((prev) => ({ ...prev, refUID: `No attestation with this UID exists on ${network.name}.` }));
+          return;
+        }
+      }
       
-      encodedData = schemaEncoder.encodeData(dataToEncode);
-      // *** END Simplified Data Encoding ***
+      // 2. Prepare the data: Dynamically create SchemaEncoder from the schema definition
+      const schemaEncoder = new SchemaEncoder(schemaDataString);
+      const encodedData = schemaEncoder.encodeData(dataToEncode);
 
+      // Gasless: the attester only signs, the relayer route submits and pays for the transaction
+      if (issueMode === "delegated") {
+        const payload = await signDelegatedAttestation(network, signer as unknown as Signer, {
+          schema: schemaUID,
+          recipient: recipientAddress,
+          expirationTime,
+          revocable: attestationRevocable,
+          refUID,
+          data: encodedData,
+        });
+        const relayed = await submitDelegatedAttestation(payload);
+        setResult({ status: "Confirmed", uid: relayed.uid, txHash: relayed.txHash });
+        return;
+      }
 
-      // 3. Send the attestation transaction
+      // 3. Build the attestation transaction
       const tx = await eas.attest({
         // Use the custom UID from the input
         schema: schemaUID, 
         data: {
           recipient: recipientAddress,
-          // Set to 0 for no expiration
-          expirationTime: BigInt(0), 
-          // Set based on your schema definition
-          revocable: true, 
+          // 0 means no expiration
+          expirationTime,
+          // Read from the schema record when available
+          revocable: attestationRevocable,
+          refUID,
+          // Sent along to the schema resolver
+          value,
           data: encodedData,
         },
       });
 
-      // Get transaction hash before waiting (transaction response should have hash)
-      const txHash = (tx as any)?.hash || "";
-
-      // 4. Wait for the transaction to be mined
-      const waitResult = await tx.wait();
-      
-      // 5. Extract UID - wait() returns the UID string directly
-      let attestationUID: string;
-      
-      if (typeof waitResult === 'string') {
-        attestationUID = waitResult;
-      } else if (waitResult && typeof waitResult === 'object' && 'uid' in waitResult) {
-        attestationUID = (waitResult as AttestationResult).uid;
-      } else {
-        console.error("Unexpected attestation response structure:", waitResult);
-        throw new Error("Transaction confirmed but UID format is unexpected. Check console for response structure.");
-      }
+      // 4. Submit through the transaction tracker; the UID comes from the Attested log
+      const sent = await sendTransaction(tx.data, { kind: "attestation", label: "Issue attestation" });
+      const attestationUID = sent.uids[0];
 
       if (!attestationUID || !attestationUID.startsWith('0x')) {
         throw new Error("Invalid UID format received from attestation.");
@@ -135,24 +369,63 @@ export default function IssueModal({ onClose }: IssueModalProps) {
       setResult({
         status: "Confirmed",
         uid: attestationUID,
-        txHash: txHash,
+        txHash: sent.hash,
       });
 
     } catch (error) {
       console.error("Attestation failed:", error);
-      const errorMessage = (error as Error).message || "An unknown error occurred.";
+      const classified = classifyError(error);
       setResult({
         status: "Failed",
         uid: "",
         txHash: "",
+        error: classified,
       });
-      alert(`Attestation failed: ${errorMessage.substring(0, 150)}...`);
+      // Failures after submission were already reported by the tracker
+      if (!(error instanceof TrackedTransactionError)) {
+        notify({ tone: "error", title: "Attestation failed", message: classified.message });
+      }
+
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
+
+  // Signs the attestation with EIP-712 instead of sending a transaction; no gas is spent
+  const handleSignOffchain = async (
+    dataToEncode: ReturnType<typeof buildSchemaItems>["items"],
+    options: { expirationTime: bigint; refUID: string }
+  ) => {
+    try {
+      const schemaEncoder = new SchemaEncoder(schemaDataString);
+      const pkg = await signOffchainAttestation(network, signer as unknown as Signer, {
+        schema: schemaUID,
+        recipient: recipientAddress,
+        expirationTime: options.expirationTime,
+        revocable: attestationRevocable,
+        refUID: options.refUID,
+        data: schemaEncoder.encodeData(dataToEncode),
+      });
+      setOffchainPackage(pkg);
+      setResult({ status: "Signed", uid: pkg.sig.uid, txHash: "" });
+    } catch (error) {
+      console.error("Offchain signing failed:", error);
+      const classified = classifyError(error);
+      setResult({ status: "Failed", uid: "", txHash: "", error: classified });
+      notify({ tone: "error", title: "Offchain signing failed", message: classified.message });
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleCopyShareLink = async () => {
+    if (!offchainPackage) return;
+    await navigator.clipboard.writeText(buildOffchainShareUrl(window.location.origin, offchainPackage));
+    setLinkCopied(true);
+  };
+
+  const isSuccess = result?.status === "Confirmed" || result?.status === "Signed";
 
   return (
     <>
@@ -191,10 +464,35 @@ export default function IssueModal({ onClose }: IssueModalProps) {
                 </div>
             ) : isWrongNetwork ? (
                  <div className="p-4 bg-red-100 text-red-800 border border-red-300 rounded-md text-center">
-                    Wallet is connected, but you must switch to **Rootstock Testnet** (Chain ID 31).
+                    Wallet is connected, but you must switch to <strong>{network.name}</strong> (Chain ID {network.chainId}).
                 </div>
             ) : null}
 
+            {/* Issuance Mode */}
+            <div className="flex flex-wrap gap-2">
+              {(["single", "offchain", "delegated", "bulk"] as const).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => {
+                    setIssueMode(mode);
+                    setResult(null);
+                    setOffchainPackage(null);
+                  }}
+                  className={`px-3 py-1.5 rounded-md border text-sm font-medium transition-colors ${
+                    issueMode === mode ? "bg-primary text-primary-foreground border-primary" : "border-border hover:bg-secondary"
+                  }`}
+                >
+                  {mode === "single"
+                    ? "Single Recipient"
+                    : mode === "offchain"
+                    ? "Offchain (Signed)"
+                    : mode === "delegated"
+                    ? "Gasless (Relayed)"
+                    : "Bulk (CSV)"}
+                </button>
+              ))}
+            </div>
+
             {/* --- CUSTOM SCHEMA INPUTS --- */}
             <div className="space-y-4">
               <div className="space-y-2 animate-slide-up">
@@ -203,99 +501,265 @@ export default function IssueModal({ onClose }: IssueModalProps) {
                   id="schema-uid"
                   type="text"
                   value={schemaUID}
-                  onChange={(e) => setSchemaUID(e.target.value)}
-                  placeholder="Paste your Schema UID (e.g., 0xf58b8b21...)"
+                  onChange={(e) => {
+                    setSchemaUID(e.target.value.trim());
+                    setSchemaFetchError(null);
+                  }}
+                  placeholder="Paste your Schema UID (e.g., 0x23b2d2a3...)"
                   className="w-full px-4 py-2 rounded-md border border-border bg-card text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all font-mono text-xs"
                 />
+                {schemaMetadata && (
+                  <p className="text-xs text-muted-foreground">
+                    <span className="font-medium text-card-foreground">{schemaMetadata.name}</span>
+                    {schemaMetadata.description && ` — ${schemaMetadata.description}`}
+                  </p>
+                )}
               </div>
 
               <div className="space-y-2 animate-slide-up">
-                <label htmlFor="schema-data-string" className="block text-sm font-medium">Schema Data String (e.g., 'uint8 score')</label>
+                <label htmlFor="schema-data-string" className="block text-sm font-medium">
+                  Schema Data String {isSchemaFromRegistry ? "(loaded from SchemaRegistry)" : "(e.g., uint8 score)"}
+                </label>
                 <input
                   id="schema-data-string"
                   type="text"
                   value={schemaDataString}
+                  readOnly={isSchemaFromRegistry}
                   onChange={(e) => setSchemaDataString(e.target.value)}
                   placeholder="Enter the schema data string (e.g., 'string name, uint256 amount')"
-                  className="w-full px-4 py-2 rounded-md border border-border bg-card text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all font-mono text-sm"
+                  className="w-full px-4 py-2 rounded-md border border-border bg-card text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all font-mono text-sm read-only:opacity-70"
                 />
+                {isFetchingSchema && (
+                  <p className="text-xs text-muted-foreground">Loading schema from the SchemaRegistry...</p>
+                )}
+                {schemaFetchError && (
+                  <p className="text-xs text-red-600">{schemaFetchError}</p>
+                )}
+                {schemaDataString && schemaFields.length === 0 && (
+                  <p className="text-xs text-red-600">This is not a valid schema definition.</p>
+                )}
               </div>
             </div>
             {/* ----------------------------- */}
 
 
-            {/* Recipient Address */}
-            <div className="space-y-2 animate-slide-up">
-              <label className="block text-sm font-medium">Recipient Address</label>
-              <input
-                type="text"
-                value={recipientAddress}
-                onChange={(e) => setRecipientAddress(e.target.value)}
-                className="w-full px-4 py-2 rounded-md border border-border bg-card text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all font-mono text-sm"
-              />
-            </div>
+            {issueMode !== "bulk" ? (
+              <>
+                {issueMode === "offchain" && (
+                  <p className="text-xs text-muted-foreground animate-slide-up">
+                    The attestation is signed with your wallet (EIP-712) and never sent on-chain. Share the JSON or link; anyone can verify the signature without a transaction.
+                  </p>
+                )}
+                {issueMode === "delegated" && (
+                  relayerStatus && !isSponsoredSchema ? (
+                    <div className="p-4 bg-yellow-100 text-yellow-800 border border-yellow-300 rounded-md text-center text-sm">
+                      {relayerStatus.enabled
+                        ? "The relayer does not sponsor this schema. Pick a sponsored schema or pay the gas yourself."
+                        : "Gasless issuance is not configured on this server."}
+                    </div>
+                  ) : !isAuthenticated ? (
+                    <div className="p-4 bg-yellow-100 text-yellow-800 border border-yellow-300 rounded-md text-center text-sm">
+                      The relayer only submits requests from signed-in attesters.{" "}
+                      <button onClick={signIn} className="font-medium underline">
+                        Sign in with your wallet
+                      </button>{" "}
+                      to continue.
+                    </div>
+                  ) : (
+                    <p className="text-xs text-muted-foreground animate-slide-up">
+                      You sign the attestation request (EIP-712) and the relayer{relayerStatus?.relayer ? ` ${relayerStatus.relayer.slice(0, 6)}...${relayerStatus.relayer.slice(-4)}` : ""} submits it and pays the gas. You remain the attester.
+                    </p>
+                  )
+                )}
 
-            {/* Dynamic Fields (Simplified to only show 'score' based on assumed data string) */}
-            <div className="space-y-2 animate-slide-up">
-                <label className="block text-sm font-medium">Score (0-100) - Based on default data string</label>
-                <input
-                  type="number"
-                  min="0"
-                  max="100"
-                  value={score}
-                  onChange={(e) => setScore(e.target.value)}
-                  className="w-full px-4 py-2 rounded-md border border-border bg-card text-card-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all"
-                />
-              </div>
+                {/* Recipient Address */}
+                <div className="space-y-2 animate-slide-up">
+                  <label className="block text-sm font-medium">Recipient Address</label>
+                  <input
+                    type="text"
+                    value={recipientAddress}
+                    onChange={(e) => setRecipientAddress(e.target.value)}
+                    className="w-full px-4 py-2 rounded-md border border-border bg-card text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all font-mono text-sm"
+                  />
+                </div>
 
-            {/* Attest Button */}
-            <button
-              onClick={handleAttest}
-              disabled={isLoading || !isReadyToAttest}
-              className={`w-full py-3 rounded-md bg-primary text-primary-foreground font-medium transition-all duration-300 animate-slide-up ${
-                (isLoading || !isReadyToAttest) ? "opacity-70 cursor-not-allowed" : "hover:opacity-90"
-              }`}
-            >
-              {isLoading ? (
-                <span className="inline-flex items-center gap-2">
-                  <div className="animate-spin inline-block w-4 h-4 border-2 border-current border-t-transparent rounded-full" />
-                  Processing Transaction...
-                </span>
-              ) : (
-                "Issue Attestation"
-              )}
-            </button>
+                {/* Dynamic Fields (one typed input per schema field) */}
+                {schemaFields.length > 0 && (
+                  <div className="space-y-4 animate-slide-up">
+                    <label className="block text-sm font-medium">Attestation Data</label>
+                    {schemaFields.map((field) => (
+                      <div key={field.name} className="space-y-1">
+                        <label className="block text-xs text-muted-foreground">
+                          <span className="text-foreground font-medium">{field.name}</span>{" "}
+                          <span className="font-mono">({field.type})</span>
+                        </label>
+                        {renderFieldInput(field)}
+                        {fieldErrors[field.name] && (
+                          <p className="text-xs text-red-600">{fieldErrors[field.name]}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
 
-            {/* Result Display */}
-            {result && (
-              <div className={`p-6 rounded-md border border-border space-y-3 animate-slide-up ${result.status === "Confirmed" ? "bg-green-50/20 border-green-300" : "bg-red-50/20 border-red-300"}`}>
-                <div className="flex items-center gap-3">
-                  <div className={`text-3xl animate-subtle-pulse ${result.status === "Confirmed" ? 'text-green-600' : 'text-red-600'}`}>
-                    {result.status === "Confirmed" ? '✓' : '✗'}
+                {/* Attestation Options */}
+                <div className="space-y-4 animate-slide-up">
+                  <label className="block text-sm font-medium">Options</label>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div className="space-y-1">
+                      <label htmlFor="expiration" className="block text-xs text-muted-foreground">Expires (leave empty for never)</label>
+                      <input
+                        id="expiration"
+                        type="datetime-local"
+                        value={expirationInput}
+                        onChange={(e) => setExpirationInput(e.target.value)}
+                        className={`w-full px-4 py-2 rounded-md border bg-card text-card-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all text-sm ${
+                          optionErrors.expiration ? "border-red-400" : "border-border"
+                        }`}
+                      />
+                      {optionErrors.expiration && <p className="text-xs text-red-600">{optionErrors.expiration}</p>}
+                    </div>
+
+                    {issueMode === "single" && (
+                      <div className="space-y-1">
+                        <label htmlFor="value" className="block text-xs text-muted-foreground">
+                          Value ({network.nativeCurrency.symbol}, for paid resolvers)
+                        </label>
+                        <input
+                          id="value"
+                          type="text"
+                          inputMode="decimal"
+                          value={valueInput}
+                          onChange={(e) => setValueInput(e.target.value)}
+                          placeholder="0"
+                          className={`w-full px-4 py-2 rounded-md border bg-card text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all font-mono text-sm ${
+                            optionErrors.value ? "border-red-400" : "border-border"
+                          }`}
+                        />
+                        {optionErrors.value && <p className="text-xs text-red-600">{optionErrors.value}</p>}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="space-y-1">
+                    <label htmlFor="ref-uid" className="block text-xs text-muted-foreground">Referenced Attestation UID (optional)</label>
+                    <input
+                      id="ref-uid"
+                      type="text"
+                      value={refUIDInput}
+                      onChange={(e) => setRefUIDInput(e.target.value.trim())}
+                      placeholder="0x..."
+                      className={`w-full px-4 py-2 rounded-md border bg-card text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all font-mono text-xs ${
+                        optionErrors.refUID ? "border-red-400" : "border-border"
+                      }`}
+                    />
+                    {optionErrors.refUID && <p className="text-xs text-red-600">{optionErrors.refUID}</p>}
                   </div>
-                  <span className="font-medium">Transaction Status: {result.status}</span>
+
+                  <label className="inline-flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={attestationRevocable}
+                      disabled={schemaRevocable === false}
+                      onChange={(e) => setRevocableChoice(e.target.checked)}
+                    />
+                    Revocable
+                    {schemaRevocable === false && (
+                      <span className="text-xs text-muted-foreground">(this schema is irrevocable)</span>
+                    )}
+                  </label>
                 </div>
-                {result.uid && (
-                    <div className="space-y-2">
-                      <p className="text-xs text-muted-foreground">Attestation UID</p>
-                      <p className="text-sm text-card-foreground break-all font-mono">{result.uid}</p>
-                      <a 
-                          href={`https://explorer.testnet.rootstock.io/ras/attestation/${result.uid}`} 
-                          target="_blank" 
-                          rel="noopener noreferrer"
-                          className="text-primary text-sm hover:underline block pt-2"
-                      >
-                          View Attestation on RSK Explorer
-                      </a>
-                    </div>
+
+                {issueMode === "single" && (
+                  <CostPreview
+                    cost={attestationCost.cost}
+                    error={attestationCost.error}
+                    isEstimating={attestationCost.isEstimating}
+                  />
                 )}
-                 {result.txHash && (
-                    <div className="space-y-2">
-                      <p className="text-xs text-muted-foreground">Transaction Hash</p>
-                      <p className="text-sm text-card-foreground break-all font-mono">{result.txHash}</p>
+
+                {/* Attest Button */}
+                <button
+                  onClick={handleAttest}
+                  disabled={isLoading || !isReadyToAttest}
+                  className={`w-full py-3 rounded-md bg-primary text-primary-foreground font-medium transition-all duration-300 animate-slide-up ${
+                    (isLoading || !isReadyToAttest) ? "opacity-70 cursor-not-allowed" : "hover:opacity-90"
+                  }`}
+                >
+                  {isLoading ? (
+                    <span className="inline-flex items-center gap-2">
+                      <div className="animate-spin inline-block w-4 h-4 border-2 border-current border-t-transparent rounded-full" />
+                      {issueMode === "offchain" ? "Waiting for Signature..." : "Processing Transaction..."}
+                    </span>
+                  ) : issueMode === "offchain" ? (
+                    "Sign Offchain Attestation"
+                  ) : issueMode === "delegated" ? (
+                    "Sign & Relay Attestation"
+                  ) : (
+                    "Issue Attestation"
+                  )}
+                </button>
+
+                {/* Result Display */}
+                {result && (
+                  <div className={`p-6 rounded-md border border-border space-y-3 animate-slide-up ${isSuccess ? "bg-green-50/20 border-green-300" : "bg-red-50/20 border-red-300"}`}>
+                    <div className="flex items-center gap-3">
+                      <div className={`text-3xl animate-subtle-pulse ${isSuccess ? 'text-green-600' : 'text-red-600'}`}>
+                        {isSuccess ? '✓' : '✗'}
+                      </div>
+                      <span className="font-medium">
+                        {issueMode === "offchain" ? "Signature Status" : "Transaction Status"}: {result.status}
+                      </span>
                     </div>
+                    {result.error && <ErrorNotice error={result.error} />}
+                    {result.uid && (
+                        <div className="space-y-2">
+                          <p className="text-xs text-muted-foreground">Attestation UID</p>
+                          <p className="text-sm text-card-foreground break-all font-mono">{result.uid}</p>
+                          {!offchainPackage && getExplorerUrl(network, "attestation", result.uid) && (
+                            <a 
+                                href={getExplorerUrl(network, "attestation", result.uid)!} 
+                                target="_blank" 
+                                rel="noopener noreferrer"
+                                className="text-primary text-sm hover:underline block pt-2"
+                            >
+                                View Attestation on {network.shortName} Explorer
+                            </a>
+                          )}
+                        </div>
+                    )}
+                     {result.txHash && (
+                        <div className="space-y-2">
+                          <p className="text-xs text-muted-foreground">Transaction Hash</p>
+                          <p className="text-sm text-card-foreground break-all font-mono">{result.txHash}</p>
+                        </div>
+                    )}
+                    {offchainPackage && (
+                      <div className="flex flex-col sm:flex-row gap-2 pt-2">
+                        <button
+                          onClick={() => downloadOffchainPackage(offchainPackage)}
+                          className="flex-1 py-2 rounded-md border border-border text-sm font-medium hover:bg-secondary transition-colors"
+                        >
+                          Download JSON
+                        </button>
+                        <button
+                          onClick={handleCopyShareLink}
+                          className="flex-1 py-2 rounded-md border border-border text-sm font-medium hover:bg-secondary transition-colors"
+                        >
+                          {linkCopied ? "Link Copied ✓" : "Copy Share Link"}
+                        </button>
+                      </div>
+                    )}
+                  </div>
                 )}
-              </div>
+              </>
+            ) : (
+              <BulkIssuePanel
+                schemaUID={schemaUID}
+                schemaDefinition={schemaDataString}
+                schemaFields={schemaFields}
+                revocable={schemaRevocable ?? true}
+              />
             )}
           </div>
         </div>
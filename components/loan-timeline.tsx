@@ -0,0 +1,89 @@
+"use client"
+
+import { LOAN_STATUS_LABELS, LoanStatus, LoanTimeline, formatPrincipal } from "@/lib/loans"
+
+interface LoanTimelineListProps {
+  timelines: LoanTimeline[]
+  // Opens an event in the verify view
+  onVerify?: (uid: string) => void
+}
+
+const STATUS_STYLES: Record<LoanStatus, string> = {
+  [LoanStatus.Originated]: "bg-blue-100 text-blue-800 border-blue-300",
+  [LoanStatus.Repaid]: "bg-green-100 text-green-800 border-green-300",
+  [LoanStatus.Late]: "bg-yellow-100 text-yellow-800 border-yellow-300",
+  [LoanStatus.Defaulted]: "bg-red-100 text-red-800 border-red-300",
+}
+
+const formatAddress = (addr: string) => (addr.length > 12 ? `${addr.slice(0, 6)}...${addr.slice(-4)}` : addr)
+
+const formatDate = (seconds: number) => (seconds > 0 ? new Date(seconds * 1000).toLocaleDateString() : "—")
+
+export function LoanStatusBadge({ status }: { status: LoanStatus }) {
+  return (
+    <span className={`px-2 py-0.5 rounded-full border text-xs font-medium ${STATUS_STYLES[status]}`}>
+      {LOAN_STATUS_LABELS[status]}
+    </span>
+  )
+}
+
+/** State history of each loan, oldest event first. */
+export default function LoanTimelineList({ timelines, onVerify }: LoanTimelineListProps) {
+  if (timelines.length === 0) {
+    return <p className="text-sm text-muted-foreground">No loan records found.</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      {timelines.map((timeline) => {
+        const origin = timeline.events[0]
+        return (
+          <div key={origin.uid} className="p-4 bg-card border border-border rounded-md space-y-3">
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              <div>
+                <p className="font-semibold">Loan {timeline.loanId}</p>
+                <p className="text-xs text-muted-foreground">
+                  {formatPrincipal(origin.principal, origin.currency)} • due {formatDate(origin.dueDate)} • lender{" "}
+                  <span className="font-mono">{formatAddress(timeline.lender)}</span>
+                </p>
+              </div>
+              <LoanStatusBadge status={timeline.currentStatus} />
+            </div>
+
+            <ol className="ml-2 border-l-2 border-border space-y-3">
+              {timeline.events.map((event) => (
+                <li key={event.uid} className="pl-4 relative">
+                  <span className="absolute -left-[5px] top-1.5 w-2 h-2 rounded-full bg-primary" />
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="font-medium">{LOAN_STATUS_LABELS[event.status]}</span>
+                    <span className="text-xs text-muted-foreground">{new Date(event.time * 1000).toLocaleString()}</span>
+                    {event.status === LoanStatus.Repaid && (
+                      <span className="text-xs text-muted-foreground">• repaid {formatDate(event.repaidDate)}</span>
+                    )}
+                  </div>
+                  {onVerify ? (
+                    <button
+                      onClick={() => onVerify(event.uid)}
+                      className="font-mono text-xs text-primary hover:underline break-all text-left"
+                    >
+                      {event.uid}
+                    </button>
+                  ) : (
+                    <p className="font-mono text-xs text-muted-foreground break-all">{event.uid}</p>
+                  )}
+                </li>
+              ))}
+            </ol>
+
+            {timeline.orphanedEvents.length > 0 && (
+              <p className="text-xs text-yellow-700">
+                {timeline.orphanedEvents.length} event(s) for this loan don&apos;t link into its history (wrong reference,
+                different attester or an invalid status change) and were ignored.
+              </p>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,677 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { EAS, SchemaRegistry } from "@ethereum-attestation-service/eas-sdk"
+import { ethers, Signer } from "ethers"
+import { useWallet } from "@/hooks/useWallet"
+import { useTransactions } from "@/hooks/useTransactions"
+import LoanTimelineList, { LoanStatusBadge } from "@/components/loan-timeline"
+import { canSearchAttestations, fetchAllNetworkAttestations } from "@/lib/local-indexer"
+import { getExplorerUrl } from "@/lib/networks"
+import { AppError, classifyError } from "@/lib/errors"
+import ErrorNotice from "@/components/error-notice"
+import {
+  LOAN_PRINCIPAL_DECIMALS,
+  LOAN_SCHEMA_DEFINITION,
+  LOAN_SCHEMA_UID,
+  LOAN_STATUS_LABELS,
+  LoanEvent,
+  LoanStatus,
+  LoanTimeline,
+  buildLoanTimelines,
+  decodeLoanEvent,
+  ensureLoanSchema,
+  formatPrincipal,
+  getNextLoanStatuses,
+  isLoanOpen,
+  recordLoanEvent,
+} from "@/lib/loans"
+
+interface LoanWizardModalProps {
+  onClose: () => void
+  // Opens a recorded event in the verify view
+  onVerify?: (uid: string) => void
+}
+
+type WizardTab = "record" | "timeline"
+type RecordAction = "originate" | "update"
+
+// Each lookup remembers what it was loaded for; a key mismatch means it is still loading
+interface Loaded<T> {
+  key: string
+  value: T
+  error?: string
+}
+
+const toUnixDate = (value: string): number => {
+  const ms = new Date(`${value}T00:00:00`).getTime()
+  return Number.isNaN(ms) ? 0 : Math.floor(ms / 1000)
+}
+
+const todayInput = () => new Date().toISOString().slice(0, 10)
+
+const formatAddress = (addr: string) => (addr.length > 12 ? `${addr.slice(0, 6)}...${addr.slice(-4)}` : addr)
+
+export default function LoanWizardModal({ onClose, onVerify }: LoanWizardModalProps) {
+  const { signer, provider, readProvider, isWrongNetwork, address, connectWallet, network } = useWallet()
+  const { sendTransaction } = useTransactions()
+  const [tab, setTab] = useState<WizardTab>("record")
+  const [action, setAction] = useState<RecordAction>("originate")
+
+  // Bumped after every recorded event so lookups reload
+  const [revision, setRevision] = useState(0)
+
+  // --- Loan schema ---
+  const [schemaCheck, setSchemaCheck] = useState<Loaded<boolean> | null>(null)
+  const [isRegistering, setIsRegistering] = useState(false)
+  const isReady = !!signer && !!provider && !isWrongNetwork
+  const schemaKey = `${network.chainId}:${revision}`
+  const currentSchemaCheck = schemaCheck?.key === schemaKey ? schemaCheck : null
+  const isSchemaRegistered = !!currentSchemaCheck?.value
+
+  useEffect(() => {
+    let cancelled = false
+    const registry = new SchemaRegistry(network.schemaRegistryAddress)
+    registry.connect(readProvider)
+    registry
+      .getSchema({ uid: LOAN_SCHEMA_UID })
+      .then(() => true)
+      .catch((err) => {
+        if ((err as Error)?.message === "Schema not found") return false
+        throw err
+      })
+      .then(
+        (exists) => {
+          if (!cancelled) setSchemaCheck({ key: schemaKey, value: exists })
+        },
+        (err) => {
+          console.warn("Loan schema check failed:", err)
+          if (!cancelled) setSchemaCheck({ key: schemaKey, value: false, error: "Could not read the SchemaRegistry." })
+        }
+      )
+
+    return () => {
+      cancelled = true
+    }
+  }, [readProvider, network, schemaKey])
+
+  // --- Record form ---
+  const [borrowerInput, setBorrowerInput] = useState("")
+  const [loanIdInput, setLoanIdInput] = useState("")
+  const [principalInput, setPrincipalInput] = useState("")
+  const [currencyInput, setCurrencyInput] = useState(network.nativeCurrency.symbol)
+  const [dueDateInput, setDueDateInput] = useState("")
+  const [previousUIDInput, setPreviousUIDInput] = useState("")
+  const [nextStatus, setNextStatus] = useState<LoanStatus>(LoanStatus.Repaid)
+  const [repaidDateInput, setRepaidDateInput] = useState(todayInput)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  // Classified failures; plain strings for validation
+  const [error, setError] = useState<AppError | string | null>(null)
+  const [recorded, setRecorded] = useState<{ uid: string; txHash: string; status: LoanStatus } | null>(null)
+
+  // Lender's loans from the indexer, to pick the one to update
+  const [lenderLoans, setLenderLoans] = useState<Loaded<LoanTimeline[]> | null>(null)
+  const lenderKey = `${network.chainId}:${address}:${revision}`
+  const canLoadLenderLoans = action === "update" && !!address && canSearchAttestations(network)
+  const currentLenderLoans = lenderLoans?.key === lenderKey ? lenderLoans : null
+  const openLoans = (currentLenderLoans?.value ?? []).filter((t) => isLoanOpen(t.currentStatus))
+
+  useEffect(() => {
+    if (!canLoadLenderLoans || !address) return
+
+    let cancelled = false
+    fetchAllNetworkAttestations(network, readProvider, { field: "attester", value: address })
+      .then(
+        (issued) => {
+          const loans = buildLoanTimelines(issued.filter((a) => a.schema.toLowerCase() === LOAN_SCHEMA_UID))
+          if (!cancelled) setLenderLoans({ key: lenderKey, value: loans })
+        },
+        (err) => {
+          console.error("Loading loans failed:", err)
+          if (!cancelled) setLenderLoans({ key: lenderKey, value: [], error: classifyError(err).message })
+        }
+      )
+
+    return () => {
+      cancelled = true
+    }
+  }, [canLoadLenderLoans, address, network, readProvider, lenderKey])
+
+  // The previous event is always read from the chain; the indexer only helps to find it
+  const [previousEvent, setPreviousEvent] = useState<Loaded<LoanEvent | null> | null>(null)
+  const previousUID = previousUIDInput.trim()
+  const isPreviousUID = ethers.isHexString(previousUID, 32)
+  const previousKey = `${network.chainId}:${previousUID.toLowerCase()}:${revision}`
+  const canLoadPrevious = action === "update" && isPreviousUID
+  const currentPrevious = previousEvent?.key === previousKey ? previousEvent : null
+  const previous = currentPrevious?.value ?? null
+
+  useEffect(() => {
+    if (!canLoadPrevious) return
+
+    let cancelled = false
+    const eas = new EAS(network.easAddress)
+    eas.connect(readProvider)
+    eas
+      .getAttestation(previousUID)
+      .then(
+        (attestation) => {
+          const event = attestation.uid === ethers.ZeroHash ? null : decodeLoanEvent(attestation)
+          const error =
+            attestation.uid === ethers.ZeroHash
+              ? "No attestation exists with this UID."
+              : !event
+              ? "This attestation is not a loan record."
+              : undefined
+          if (!cancelled) setPreviousEvent({ key: previousKey, value: event, error })
+        },
+        (err) => {
+          console.error("Loading loan event failed:", err)
+          if (!cancelled) setPreviousEvent({ key: previousKey, value: null, error: "Could not load the attestation." })
+        }
+      )
+
+    return () => {
+      cancelled = true
+    }
+  }, [canLoadPrevious, readProvider, network, previousUID, previousKey])
+
+  const nextStatuses = previous ? getNextLoanStatuses(previous.status) : []
+  const selectedNextStatus = nextStatuses.includes(nextStatus) ? nextStatus : nextStatuses[0]
+
+  const handleRegisterSchema = async () => {
+    if (!signer || isWrongNetwork) {
+      connectWallet()
+      return
+    }
+    setIsRegistering(true)
+    setError(null)
+    try {
+      await ensureLoanSchema(network, signer as unknown as Signer, sendTransaction)
+      setRevision((r) => r + 1)
+    } catch (err) {
+      console.error("Loan schema registration failed:", err)
+      setError(classifyError(err))
+    } finally {
+      setIsRegistering(false)
+    }
+  }
+
+  const handleRecord = async () => {
+    if (!signer || isWrongNetwork) {
+      connectWallet()
+      return
+    }
+    setError(null)
+    setRecorded(null)
+
+    let borrower: string
+    let terms
+    let status: LoanStatus
+    if (action === "originate") {
+      if (!ethers.isAddress(borrowerInput.trim())) {
+        setError("Borrower must be a valid address.")
+        return
+      }
+      let principal: bigint
+      try {
+        principal = ethers.parseUnits(principalInput.trim() || "0", LOAN_PRINCIPAL_DECIMALS)
+      } catch {
+        setError("Principal must be a number, e.g. 1000 or 0.5.")
+        return
+      }
+      borrower = ethers.getAddress(borrowerInput.trim())
+      terms = { loanId: loanIdInput.trim(), principal, currency: currencyInput.trim(), dueDate: toUnixDate(dueDateInput) }
+      status = LoanStatus.Originated
+    } else {
+      if (!previous || selectedNextStatus === undefined) {
+        setError(previous ? "This loan is closed; no further events can be recorded." : "Select the loan to update.")
+        return
+      }
+      borrower = previous.borrower
+      terms = { loanId: previous.loanId, principal: previous.principal, currency: previous.currency, dueDate: previous.dueDate }
+      status = selectedNextStatus
+    }
+
+    setIsSubmitting(true)
+    try {
+      const result = await recordLoanEvent(
+        network,
+        signer as unknown as Signer,
+        {
+          borrower,
+          terms,
+          status,
+          repaidDate: status === LoanStatus.Repaid ? toUnixDate(repaidDateInput) : 0,
+          previous: action === "update" ? previous ?? undefined : undefined,
+        },
+        sendTransaction
+      )
+      setRecorded({ ...result, status })
+      // The next update continues from the new head of the chain
+      setPreviousUIDInput(result.uid)
+      setRevision((r) => r + 1)
+    } catch (err) {
+      console.error("Recording loan event failed:", err)
+      setError(classifyError(err))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  // --- Borrower timeline ---
+  const [timelineInput, setTimelineInput] = useState("")
+  const timelineAddress = (timelineInput.trim() || address || "").trim()
+  const isTimelineAddress = ethers.isAddress(timelineAddress)
+  const [borrowerLoans, setBorrowerLoans] = useState<Loaded<LoanTimeline[]> | null>(null)
+  const borrowerKey = `${network.chainId}:${timelineAddress.toLowerCase()}:${revision}`
+  const canLoadTimeline = tab === "timeline" && isTimelineAddress && canSearchAttestations(network)
+  const currentBorrowerLoans = borrowerLoans?.key === borrowerKey ? borrowerLoans : null
+
+  useEffect(() => {
+    if (!canLoadTimeline) return
+
+    let cancelled = false
+    fetchAllNetworkAttestations(network, readProvider, { field: "recipient", value: timelineAddress })
+      .then(
+        (received) => {
+          const loans = buildLoanTimelines(received.filter((a) => a.schema.toLowerCase() === LOAN_SCHEMA_UID))
+          if (!cancelled) setBorrowerLoans({ key: borrowerKey, value: loans })
+        },
+        (err) => {
+          console.error("Loading borrower loans failed:", err)
+          if (!cancelled) setBorrowerLoans({ key: borrowerKey, value: [], error: classifyError(err).message })
+        }
+      )
+
+    return () => {
+      cancelled = true
+    }
+  }, [canLoadTimeline, network, readProvider, timelineAddress, borrowerKey])
+
+  const timelineSummary = useMemo(() => {
+    const loans = currentBorrowerLoans?.value ?? []
+    return {
+      total: loans.length,
+      open: loans.filter((t) => isLoanOpen(t.currentStatus)).length,
+      repaid: loans.filter((t) => t.currentStatus === LoanStatus.Repaid).length,
+      defaulted: loans.filter((t) => t.currentStatus === LoanStatus.Defaulted).length,
+    }
+  }, [currentBorrowerLoans])
+
+  const inputClass =
+    "w-full px-4 py-2 rounded-md border border-border bg-card text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all text-sm"
+
+  const canSubmit =
+    isReady &&
+    isSchemaRegistered &&
+    !isSubmitting &&
+    (action === "originate"
+      ? !!borrowerInput.trim() && !!loanIdInput.trim() && !!principalInput.trim() && !!dueDateInput
+      : !!previous && selectedNextStatus !== undefined)
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50 z-40 animate-fade-in" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4 animate-fade-in">
+        <div
+          className="bg-background border border-border rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto animate-slide-up"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="sticky top-0 border-b border-border px-6 py-4 bg-background flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold">Loan Repayment Records</h2>
+              <p className="text-sm text-muted-foreground mt-1">
+                Record loan origination, repayment, late payment and default on {network.name}.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-muted-foreground hover:text-foreground transition-colors text-2xl leading-none"
+            >
+              ✕
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="px-6 py-8 space-y-6">
+            <div className="flex flex-wrap gap-2">
+              {([
+                ["record", "Record Loan Event"],
+                ["timeline", "Borrower Timeline"],
+              ] as const).map(([id, label]) => (
+                <button
+                  key={id}
+                  onClick={() => setTab(id)}
+                  className={`px-4 py-2 rounded-md border text-sm font-medium transition-colors ${
+                    tab === id ? "bg-primary text-primary-foreground border-primary" : "border-border hover:bg-secondary"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {tab === "record" ? (
+              <>
+                {!address ? (
+                  <div className="p-4 bg-yellow-100 text-yellow-800 border border-yellow-300 rounded-md text-center">
+                    Connect your lender wallet to record loan events.
+                  </div>
+                ) : isWrongNetwork ? (
+                  <div className="p-4 bg-red-100 text-red-800 border border-red-300 rounded-md text-center">
+                    Please switch to <strong>{network.name}</strong> (Chain ID {network.chainId}).
+                  </div>
+                ) : null}
+
+                {/* Step 1: loan schema */}
+                <div className="p-4 bg-secondary border border-border rounded-md text-sm space-y-2">
+                  <p className="font-medium">1. Loan schema</p>
+                  <p className="font-mono text-xs break-all text-primary">{LOAN_SCHEMA_DEFINITION}</p>
+                  <p className="font-mono text-xs break-all text-muted-foreground">{LOAN_SCHEMA_UID}</p>
+                  {!currentSchemaCheck ? (
+                    <p className="text-xs text-muted-foreground">Checking the SchemaRegistry...</p>
+                  ) : currentSchemaCheck.error ? (
+                    <p className="text-xs text-red-600">{currentSchemaCheck.error}</p>
+                  ) : isSchemaRegistered ? (
+                    <p className="text-xs text-green-600">✓ Registered on {network.name}</p>
+                  ) : (
+                    <div className="space-y-2">
+                      <p className="text-xs text-yellow-700">Not registered on {network.name} yet.</p>
+                      <button
+                        onClick={handleRegisterSchema}
+                        disabled={isRegistering}
+                        className="px-4 py-2 rounded-md border border-border text-sm font-medium hover:bg-background transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {isRegistering ? "Registering..." : "Register Loan Schema"}
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                {/* Step 2: event */}
+                <div className="space-y-4">
+                  <p className="font-medium text-sm">2. Loan event</p>
+                  <div className="flex flex-wrap gap-2">
+                    {([
+                      ["originate", "New Loan"],
+                      ["update", "Update Existing Loan"],
+                    ] as const).map(([id, label]) => (
+                      <button
+                        key={id}
+                        onClick={() => setAction(id)}
+                        className={`px-3 py-1.5 rounded-md border text-sm font-medium transition-colors ${
+                          action === id ? "bg-primary text-primary-foreground border-primary" : "border-border hover:bg-secondary"
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+
+                  {action === "originate" ? (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      <div className="sm:col-span-2 space-y-1">
+                        <label className="block text-xs text-muted-foreground">Borrower address</label>
+                        <input
+                          type="text"
+                          placeholder="0x..."
+                          value={borrowerInput}
+                          onChange={(e) => setBorrowerInput(e.target.value)}
+                          className={`${inputClass} font-mono`}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <label className="block text-xs text-muted-foreground">Loan ID</label>
+                        <input
+                          type="text"
+                          placeholder="e.g. LOAN-2024-001"
+                          value={loanIdInput}
+                          onChange={(e) => setLoanIdInput(e.target.value)}
+                          className={inputClass}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <label className="block text-xs text-muted-foreground">Due date</label>
+                        <input
+                          type="date"
+                          value={dueDateInput}
+                          onChange={(e) => setDueDateInput(e.target.value)}
+                          className={inputClass}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <label className="block text-xs text-muted-foreground">Principal</label>
+                        <input
+                          type="text"
+                          inputMode="decimal"
+                          placeholder="e.g. 1000"
+                          value={principalInput}
+                          onChange={(e) => setPrincipalInput(e.target.value)}
+                          className={`${inputClass} font-mono`}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <label className="block text-xs text-muted-foreground">Currency</label>
+                        <input
+                          type="text"
+                          placeholder="e.g. USDRIF"
+                          value={currencyInput}
+                          onChange={(e) => setCurrencyInput(e.target.value)}
+                          className={inputClass}
+                        />
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="space-y-3">
+                      {canLoadLenderLoans && (
+                        <div className="space-y-2">
+                          <label className="block text-xs text-muted-foreground">Your open loans</label>
+                          {!currentLenderLoans ? (
+                            <p className="text-xs text-muted-foreground">Loading your loans from the indexer...</p>
+                          ) : currentLenderLoans.error ? (
+                            <p className="text-xs text-red-600">Could not load your loans: {currentLenderLoans.error}</p>
+                          ) : openLoans.length === 0 ? (
+                            <p className="text-xs text-muted-foreground">You have no open loans. Paste the latest event UID below instead.</p>
+                          ) : (
+                            <div className="space-y-2">
+                              {openLoans.map((loan) => {
+                                const head = loan.events[loan.events.length - 1]
+                                return (
+                                  <button
+                                    key={head.uid}
+                                    onClick={() => setPreviousUIDInput(head.uid)}
+                                    className={`w-full p-3 rounded-md border text-left text-sm transition-colors ${
+                                      previousUID.toLowerCase() === head.uid.toLowerCase()
+                                        ? "border-primary bg-secondary"
+                                        : "border-border hover:bg-secondary"
+                                    }`}
+                                  >
+                                    <div className="flex items-center justify-between gap-2">
+                                      <span className="font-medium">Loan {loan.loanId}</span>
+                                      <LoanStatusBadge status={loan.currentStatus} />
+                                    </div>
+                                    <p className="text-xs text-muted-foreground">
+                                      {formatPrincipal(head.principal, head.currency)} to{" "}
+                                      <span className="font-mono">{formatAddress(loan.borrower)}</span>
+                                    </p>
+                                  </button>
+                                )
+                              })}
+                            </div>
+                          )}
+                        </div>
+                      )}
+
+                      <div className="space-y-1">
+                        <label className="block text-xs text-muted-foreground">Latest event UID of the loan</label>
+                        <input
+                          type="text"
+                          placeholder="0x..."
+                          value={previousUIDInput}
+                          onChange={(e) => setPreviousUIDInput(e.target.value)}
+                          className={`${inputClass} font-mono text-xs`}
+                        />
+                        {previousUID && !isPreviousUID ? (
+                          <p className="text-xs text-red-600">Enter a 66-character attestation UID.</p>
+                        ) : canLoadPrevious && !currentPrevious ? (
+                          <p className="text-xs text-muted-foreground">Loading the loan event...</p>
+                        ) : currentPrevious?.error ? (
+                          <p className="text-xs text-red-600">{currentPrevious.error}</p>
+                        ) : null}
+                      </div>
+
+                      {previous && (
+                        <div className="p-3 bg-secondary rounded-md text-sm space-y-1">
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="font-medium">Loan {previous.loanId}</span>
+                            <LoanStatusBadge status={previous.status} />
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            {formatPrincipal(previous.principal, previous.currency)} • borrower{" "}
+                            <span className="font-mono">{formatAddress(previous.borrower)}</span> • due{" "}
+                            {new Date(previous.dueDate * 1000).toLocaleDateString()}
+                          </p>
+                          {address && previous.attester.toLowerCase() !== address.toLowerCase() && (
+                            <p className="text-xs text-red-600">Only the lender who originated this loan can update it.</p>
+                          )}
+                        </div>
+                      )}
+
+                      {previous &&
+                        (nextStatuses.length === 0 ? (
+                          <p className="text-xs text-muted-foreground">This loan is closed; no further events can be recorded.</p>
+                        ) : (
+                          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            <div className="space-y-1">
+                              <label className="block text-xs text-muted-foreground">New status</label>
+                              <select
+                                value={selectedNextStatus}
+                                onChange={(e) => setNextStatus(Number(e.target.value))}
+                                className={inputClass}
+                              >
+                                {nextStatuses.map((status) => (
+                                  <option key={status} value={status}>
+                                    {LOAN_STATUS_LABELS[status]}
+                                  </option>
+                                ))}
+                              </select>
+                            </div>
+                            {selectedNextStatus === LoanStatus.Repaid && (
+                              <div className="space-y-1">
+                                <label className="block text-xs text-muted-foreground">Repaid on</label>
+                                <input
+                                  type="date"
+                                  value={repaidDateInput}
+                                  onChange={(e) => setRepaidDateInput(e.target.value)}
+                                  className={inputClass}
+                                />
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                    </div>
+                  )}
+                </div>
+
+                <button
+                  onClick={handleRecord}
+                  disabled={!canSubmit}
+                  className="w-full py-3 rounded-md bg-primary text-primary-foreground font-medium hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+                >
+                  {isSubmitting ? (
+                    <span className="inline-flex items-center gap-2">
+                      <div className="animate-spin inline-block w-4 h-4 border-2 border-current border-t-transparent rounded-full" />
+                      Recording Loan Event...
+                    </span>
+                  ) : action === "originate" ? (
+                    "Record Loan Origination"
+                  ) : (
+                    `Record ${selectedNextStatus !== undefined ? LOAN_STATUS_LABELS[selectedNextStatus] : "Loan Event"}`
+                  )}
+                </button>
+
+                {error && <ErrorNotice error={error} />}
+
+                {recorded && (
+                  <div className="p-6 rounded-md border space-y-3 bg-green-50/20 border-green-300">
+                    <div className="flex items-center gap-3">
+                      <div className="text-2xl text-green-600">✓</div>
+                      <span className="font-medium">{LOAN_STATUS_LABELS[recorded.status]} recorded</span>
+                    </div>
+                    <div className="space-y-1">
+                      <p className="text-xs text-muted-foreground">Attestation UID</p>
+                      {onVerify ? (
+                        <button
+                          onClick={() => onVerify(recorded.uid)}
+                          className="text-sm font-mono text-primary hover:underline break-all text-left"
+                        >
+                          {recorded.uid}
+                        </button>
+                      ) : (
+                        <p className="text-sm font-mono break-all">{recorded.uid}</p>
+                      )}
+                    </div>
+                    {recorded.txHash && getExplorerUrl(network, "tx", recorded.txHash) && (
+                      <a
+                        href={getExplorerUrl(network, "tx", recorded.txHash)!}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-primary text-sm hover:underline block"
+                      >
+                        View Transaction on {network.shortName} Explorer
+                      </a>
+                    )}
+                  </div>
+                )}
+              </>
+            ) : (
+              <>
+                <div className="space-y-1">
+                  <label className="block text-xs text-muted-foreground">Borrower address</label>
+                  <input
+                    type="text"
+                    placeholder={address ?? "0x..."}
+                    value={timelineInput}
+                    onChange={(e) => setTimelineInput(e.target.value)}
+                    className={`${inputClass} font-mono`}
+                  />
+                  {timelineAddress && !isTimelineAddress && (
+                    <p className="text-xs text-red-600">Enter a valid address.</p>
+                  )}
+                </div>
+
+                {!canSearchAttestations(network) ? (
+                  <div className="p-4 bg-yellow-100 text-yellow-800 border border-yellow-300 rounded-md text-center">
+                    EAS contracts are not configured for {network.name}.
+                  </div>
+                ) : !isTimelineAddress ? null : !currentBorrowerLoans ? (
+                  <div className="flex items-center justify-center gap-2 py-8 text-muted-foreground">
+                    <div className="animate-spin inline-block w-4 h-4 border-2 border-current border-t-transparent rounded-full" />
+                    Loading loan history...
+                  </div>
+                ) : currentBorrowerLoans.error ? (
+                  <div className="p-4 bg-red-100 text-red-800 border border-red-300 rounded-md text-sm">
+                    Could not load loan history: {currentBorrowerLoans.error}
+                  </div>
+                ) : (
+                  <>
+                    <p className="text-sm text-muted-foreground">
+                      {timelineSummary.total} loan(s): {timelineSummary.open} open, {timelineSummary.repaid} repaid,{" "}
+                      {timelineSummary.defaulted} defaulted
+                    </p>
+                    <LoanTimelineList timelines={currentBorrowerLoans.value} onVerify={onVerify} />
+                  </>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
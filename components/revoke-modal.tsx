@@ -0,0 +1,423 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { EAS, SchemaRegistry } from "@ethereum-attestation-service/eas-sdk"
+import { useWallet } from "@/hooks/useWallet"
+import { useTransactions } from "@/hooks/useTransactions"
+import { useSchemaNames } from "@/hooks/useSchemaNames"
+import { ethers, Signer } from "ethers"
+import { evaluateAttestationStatus } from "@/lib/attestations"
+import { IndexedAttestation } from "@/lib/indexer"
+import { canSearchAttestations, fetchAllNetworkAttestations } from "@/lib/local-indexer"
+import { NetworkConfig, getExplorerUrl } from "@/lib/networks"
+import { AppError, classifyError } from "@/lib/errors"
+import ErrorNotice from "@/components/error-notice"
+
+interface RevokeModalProps {
+  onClose: () => void
+  // Opens the verify view for an attestation (e.g. to confirm a revocation)
+  onVerify: (uid: string) => void
+}
+
+// A revocable attestation can still be blocked by its schema
+interface RevocableItem {
+  uid: string
+  schema: string
+  schemaDefinition: string
+  recipient: string
+  time: bigint
+  revocable: boolean
+  revokedAt?: number
+  // why revocation is not possible, if it isn't
+  blockedReason?: string
+}
+
+const formatAddress = (addr: string) => (addr.length > 12 ? `${addr.slice(0, 6)}...${addr.slice(-4)}` : addr)
+
+const formatTimestamp = (seconds: number) => (seconds > 0 ? new Date(seconds * 1000).toLocaleString() : "Unknown")
+
+const toItem = (attestation: IndexedAttestation, schemaRevocable: boolean | undefined): RevocableItem => {
+  const { revokedAt } = evaluateAttestationStatus(attestation)
+  let blockedReason: string | undefined
+  if (schemaRevocable === false) blockedReason = "Schema is irrevocable"
+  else if (!attestation.revocable) blockedReason = "Issued as irrevocable"
+  return {
+    uid: attestation.uid,
+    schema: attestation.schema,
+    schemaDefinition: attestation.schemaDefinition,
+    recipient: attestation.recipient,
+    time: attestation.time,
+    revocable: attestation.revocable,
+    revokedAt,
+    blockedReason,
+  }
+}
+
+// Schemas decide revocability for all of their attestations, so look each one up once
+const fetchSchemaRevocable = async (
+  network: NetworkConfig,
+  provider: ethers.Provider,
+  schemaUIDs: string[]
+): Promise<Map<string, boolean>> => {
+  const result = new Map<string, boolean>()
+  const schemaRegistry = new SchemaRegistry(network.schemaRegistryAddress)
+  schemaRegistry.connect(provider)
+  await Promise.all(
+    Array.from(new Set(schemaUIDs.map((s) => s.toLowerCase()))).map(async (uid) => {
+      try {
+        const record = await schemaRegistry.getSchema({ uid })
+        result.set(uid, Boolean(record.revocable))
+      } catch (err) {
+        console.warn("Failed to fetch schema record:", err)
+      }
+    })
+  )
+  return result
+}
+
+export default function RevokeModal({ onClose, onVerify }: RevokeModalProps) {
+  const { signer, provider, readProvider, isWrongNetwork, address, network } = useWallet()
+  const { sendTransaction } = useTransactions()
+
+  const [items, setItems] = useState<RevocableItem[]>([])
+  const [loadedFor, setLoadedFor] = useState<string | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [manualUID, setManualUID] = useState("")
+
+  const [isRevoking, setIsRevoking] = useState(false)
+  // Classified failures; plain strings for validation
+  const [error, setError] = useState<AppError | string | null>(null)
+  const [lastTxHash, setLastTxHash] = useState<string | null>(null)
+
+  const isReady = !!signer && !!provider && !isWrongNetwork
+  const itemSchemaUIDs = useMemo(() => items.map((item) => item.schema), [items])
+  const { names: schemaNames } = useSchemaNames(itemSchemaUIDs)
+  const loadKey = `${network.chainId}:${address}`
+  const canListIssued = canSearchAttestations(network)
+  const isLoadingList = isReady && canListIssued && loadedFor !== loadKey
+
+  // Load attestations issued by the connected address from the indexer (or the local event index)
+  useEffect(() => {
+    if (!isReady || !address || !canListIssued) return
+
+    let cancelled = false
+    const loadIssued = async () => {
+      try {
+        const issued = await fetchAllNetworkAttestations(network, readProvider, {
+          field: "attester",
+          value: address,
+          excludeRevoked: true,
+        })
+        const revocable = await fetchSchemaRevocable(network, readProvider, issued.map((a) => a.schema))
+        if (cancelled) return
+        setItems(issued.map((a) => toItem(a, revocable.get(a.schema.toLowerCase()))))
+      } catch (err) {
+        console.error("Failed to load issued attestations:", err)
+        if (!cancelled) setError(classifyError(err))
+      } finally {
+        if (!cancelled) setLoadedFor(loadKey)
+      }
+    }
+
+    loadIssued()
+    return () => {
+      cancelled = true
+    }
+  }, [isReady, address, canListIssued, network, readProvider, loadKey])
+
+  // Works without an indexer (e.g. a local devnet): look the UID up on-chain
+  const handleAddByUID = async () => {
+    const uid = manualUID.trim()
+    setError(null)
+    if (!ethers.isHexString(uid, 32)) {
+      setError("Enter a valid 66-character Attestation UID starting with 0x.")
+      return
+    }
+    if (!address) return
+    if (items.some((i) => i.uid.toLowerCase() === uid.toLowerCase())) {
+      setManualUID("")
+      return
+    }
+
+    try {
+      const eas = new EAS(network.easAddress)
+      eas.connect(readProvider)
+      const attestation = await eas.getAttestation(uid)
+      if (!attestation || attestation.uid === ethers.ZeroHash) {
+        setError(`No attestation found with UID: ${uid}`)
+        return
+      }
+      if (attestation.attester.toLowerCase() !== address.toLowerCase()) {
+        setError("Only the attester can revoke this attestation.")
+        return
+      }
+      const revocable = await fetchSchemaRevocable(network, readProvider, [attestation.schema])
+      // getAttestation returns an ethers Result, whose named fields don't survive a spread
+      const item = toItem(
+        {
+          uid: attestation.uid,
+          schema: attestation.schema,
+          refUID: attestation.refUID,
+          recipient: attestation.recipient,
+          attester: attestation.attester,
+          time: attestation.time,
+          expirationTime: attestation.expirationTime,
+          revocationTime: attestation.revocationTime,
+          revocable: attestation.revocable,
+          data: attestation.data,
+          schemaDefinition: "",
+          txid: "",
+        },
+        revocable.get(attestation.schema.toLowerCase())
+      )
+      setItems((prev) => [item, ...prev])
+      setManualUID("")
+    } catch (err) {
+      console.error("Attestation lookup failed:", err)
+      setError(classifyError(err))
+    }
+  }
+
+  const toggleSelected = (uid: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(uid)) next.delete(uid)
+      else next.add(uid)
+      return next
+    })
+  }
+
+  const handleRevoke = async (uids: string[]) => {
+    if (!isReady || !signer || !provider) {
+      setError(`Please connect your wallet and ensure you are on ${network.name}.`)
+      return
+    }
+    const targets = items.filter((i) => uids.includes(i.uid) && !i.blockedReason && !i.revokedAt)
+    if (targets.length === 0) return
+
+    setIsRevoking(true)
+    setError(null)
+    setLastTxHash(null)
+
+    try {
+      const eas = new EAS(network.easAddress)
+      eas.connect(signer as unknown as Signer)
+
+      let tx
+      if (targets.length === 1) {
+        tx = await eas.revoke({ schema: targets[0].schema, data: { uid: targets[0].uid } })
+      } else {
+        // multiRevoke takes one request per schema
+        const bySchema = new Map<string, string[]>()
+        for (const t of targets) {
+          bySchema.set(t.schema, [...(bySchema.get(t.schema) ?? []), t.uid])
+        }
+        tx = await eas.multiRevoke(
+          Array.from(bySchema.entries()).map(([schema, schemaUIDs]) => ({
+            schema,
+            data: schemaUIDs.map((uid) => ({ uid })),
+          }))
+        )
+      }
+
+      const sent = await sendTransaction(tx.data, {
+        kind: "revocation",
+        label: targets.length === 1 ? "Revoke attestation" : `Revoke ${targets.length} attestations`,
+      })
+      setLastTxHash(sent.hash)
+
+      // Read the confirmed revocation times back from the contract
+      const reader = new EAS(network.easAddress)
+      reader.connect(readProvider)
+      const revokedAt = new Map<string, number>()
+      await Promise.all(
+        targets.map(async (t) => {
+          const attestation = await reader.getAttestation(t.uid)
+          revokedAt.set(t.uid, Number(attestation.revocationTime))
+        })
+      )
+
+      setItems((prev) => prev.map((i) => (revokedAt.has(i.uid) ? { ...i, revokedAt: revokedAt.get(i.uid) } : i)))
+      setSelected(new Set())
+    } catch (err) {
+      console.error("Revocation failed:", err)
+      setError(classifyError(err))
+    } finally {
+      setIsRevoking(false)
+    }
+  }
+
+  const selectableUIDs = items.filter((i) => !i.blockedReason && !i.revokedAt).map((i) => i.uid)
+  const txUrl = lastTxHash ? getExplorerUrl(network, "tx", lastTxHash) : null
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 z-40 animate-fade-in"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4 animate-fade-in">
+        <div
+          className="bg-background border border-border rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto animate-slide-up"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="sticky top-0 border-b border-border px-6 py-4 bg-background flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold">Revoke Attestations</h2>
+              <p className="text-sm text-muted-foreground mt-1">Withdraw attestations you issued on {network.name}.</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-muted-foreground hover:text-foreground transition-colors text-2xl leading-none"
+            >
+              ✕
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="px-6 py-8 space-y-6">
+            {!address ? (
+              <div className="p-4 bg-yellow-100 text-yellow-800 border border-yellow-300 rounded-md text-center">
+                Please connect your wallet to revoke attestations.
+              </div>
+            ) : isWrongNetwork ? (
+              <div className="p-4 bg-red-100 text-red-800 border border-red-300 rounded-md text-center">
+                Wallet is connected, but you must switch to <strong>{network.name}</strong> (Chain ID {network.chainId}).
+              </div>
+            ) : null}
+
+            {/* Add by UID */}
+            <div className="flex gap-3">
+              <input
+                type="text"
+                placeholder="Add an attestation you issued by UID (0x...)"
+                value={manualUID}
+                onChange={(e) => setManualUID(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleAddByUID()}
+                className="flex-1 px-4 py-2 rounded-md border border-border bg-card text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all font-mono text-sm"
+              />
+              <button
+                onClick={handleAddByUID}
+                disabled={!isReady}
+                className="px-4 py-2 rounded-md border border-border text-sm font-medium hover:bg-secondary transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Add
+              </button>
+            </div>
+
+            {error && <ErrorNotice error={error} className="text-center" />}
+
+            {lastTxHash && (
+              <div className="p-4 rounded-md border bg-green-50/20 border-green-300 text-sm space-y-1">
+                <p className="font-medium">✓ Revocation confirmed</p>
+                <p className="font-mono text-xs break-all">{lastTxHash}</p>
+                {txUrl && (
+                  <a href={txUrl} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                    View Transaction on {network.shortName} Explorer
+                  </a>
+                )}
+              </div>
+            )}
+
+            {/* Issued attestations */}
+            {isLoadingList ? (
+              <div className="flex items-center justify-center gap-2 py-8 text-muted-foreground">
+                <div className="animate-spin inline-block w-4 h-4 border-2 border-current border-t-transparent rounded-full" />
+                Loading attestations you issued...
+              </div>
+            ) : items.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <p>
+                  {canListIssued
+                    ? "No active attestations issued by this address."
+                    : "EAS contracts are not configured for this network. Add attestations by UID."}
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between text-sm">
+                  <label className="inline-flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={selectableUIDs.length > 0 && selectableUIDs.every((uid) => selected.has(uid))}
+                      onChange={(e) => setSelected(new Set(e.target.checked ? selectableUIDs : []))}
+                    />
+                    Select all revocable
+                  </label>
+                  <span className="text-muted-foreground">{selected.size} selected</span>
+                </div>
+
+                {items.map((item) => (
+                  <div key={item.uid} className="p-4 rounded-md border border-border bg-card flex items-start gap-3">
+                    <input
+                      type="checkbox"
+                      className="mt-1"
+                      disabled={!!item.blockedReason || !!item.revokedAt}
+                      checked={selected.has(item.uid)}
+                      onChange={() => toggleSelected(item.uid)}
+                    />
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <p className="font-mono text-xs break-all">{item.uid}</p>
+                      <p className="text-xs text-muted-foreground">
+                        To <span className="font-mono">{formatAddress(item.recipient)}</span> • Issued{" "}
+                        {formatTimestamp(Number(item.time))}
+                      </p>
+                      {schemaNames[item.schema.toLowerCase()] && (
+                        <p className="text-xs font-medium">{schemaNames[item.schema.toLowerCase()].name}</p>
+                      )}
+                      {item.schemaDefinition && (
+                        <p className="text-xs font-mono text-primary break-all">{item.schemaDefinition}</p>
+                      )}
+                      {item.revokedAt ? (
+                        <p className="text-xs text-red-600">Revoked on {formatTimestamp(item.revokedAt)}</p>
+                      ) : item.blockedReason ? (
+                        <p className="text-xs text-yellow-600">{item.blockedReason} — cannot be revoked</p>
+                      ) : null}
+                    </div>
+                    <div className="flex flex-col gap-2">
+                      {!item.revokedAt && !item.blockedReason && (
+                        <button
+                          onClick={() => handleRevoke([item.uid])}
+                          disabled={isRevoking || !isReady}
+                          className="px-3 py-1.5 rounded-md border border-border text-xs font-medium hover:bg-destructive hover:text-destructive-foreground transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Revoke
+                        </button>
+                      )}
+                      <button
+                        onClick={() => onVerify(item.uid)}
+                        className="px-3 py-1.5 rounded-md border border-border text-xs font-medium hover:bg-secondary transition-colors"
+                      >
+                        Verify
+                      </button>
+                    </div>
+                  </div>
+                ))}
+
+                {/* Batch Revoke Button */}
+                <button
+                  onClick={() => handleRevoke(Array.from(selected))}
+                  disabled={isRevoking || !isReady || selected.size === 0}
+                  className="w-full py-3 rounded-md bg-destructive text-destructive-foreground font-medium hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+                >
+                  {isRevoking ? (
+                    <span className="inline-flex items-center gap-2">
+                      <div className="animate-spin inline-block w-4 h-4 border-2 border-current border-t-transparent rounded-full" />
+                      Revoking...
+                    </span>
+                  ) : (
+                    `Revoke ${selected.size || ""} Selected`
+                  )}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
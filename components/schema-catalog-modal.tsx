@@ -0,0 +1,263 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { ethers } from "ethers"
+import { useWallet } from "@/hooks/useWallet"
+import { useSchemaNames } from "@/hooks/useSchemaNames"
+import { getExplorerUrl, hasContracts } from "@/lib/networks"
+import { formatError } from "@/lib/errors"
+import {
+  CatalogSchema,
+  DEFAULT_CATALOG_PAGE_SIZE,
+  matchesSchemaQuery,
+  searchSchemaCatalog,
+} from "@/lib/schema-catalog"
+import { listLocalSchemas, syncLocalIndex } from "@/lib/local-indexer"
+
+interface SchemaCatalogModalProps {
+  onClose: () => void
+  // Opens the issuance form for the chosen schema
+  onUseSchema: (schema: CatalogSchema) => void
+}
+
+interface CatalogPage {
+  // network + query + page the rows were loaded for; a mismatch means a reload is pending
+  key: string
+  schemas: CatalogSchema[]
+  hasMore: boolean
+  error?: string
+}
+
+const formatAddress = (addr: string) => (addr.length > 12 ? `${addr.slice(0, 6)}...${addr.slice(-4)}` : addr)
+
+const formatTimestamp = (seconds: number) => (seconds > 0 ? new Date(seconds * 1000).toLocaleDateString() : "Unknown")
+
+export default function SchemaCatalogModal({ onClose, onUseSchema }: SchemaCatalogModalProps) {
+  const { readProvider, network } = useWallet()
+  const [searchInput, setSearchInput] = useState("")
+  const [query, setQuery] = useState("")
+  const [page, setPage] = useState(0)
+  const [catalog, setCatalog] = useState<CatalogPage | null>(null)
+
+  // Without an indexer the registry logs come from the local event index
+  const useEventScan = !network.indexerUrl
+  const canLoad = !useEventScan || hasContracts(network)
+  const requestKey = `${network.chainId}:${query}:${page}`
+  const current = catalog?.key === requestKey ? catalog : null
+  const isLoading = canLoad && !current
+
+  useEffect(() => {
+    if (!canLoad) return
+
+    let cancelled = false
+    const load = async (): Promise<Omit<CatalogPage, "key">> => {
+      if (network.indexerUrl) {
+        return searchSchemaCatalog(network.indexerUrl, { query, page, pageSize: DEFAULT_CATALOG_PAGE_SIZE })
+      }
+      // Incremental: only blocks mined since the last sync are scanned
+      await syncLocalIndex(readProvider, network)
+      const indexed = await listLocalSchemas(network.chainId)
+      const matches = indexed.filter((s) => matchesSchemaQuery(s, query))
+      const start = page * DEFAULT_CATALOG_PAGE_SIZE
+      return {
+        schemas: matches.slice(start, start + DEFAULT_CATALOG_PAGE_SIZE),
+        hasMore: matches.length > start + DEFAULT_CATALOG_PAGE_SIZE,
+      }
+    }
+
+    load()
+      .then((result) => {
+        if (!cancelled) setCatalog({ key: requestKey, ...result })
+      })
+      .catch((err) => {
+        console.error("Schema catalog error:", err)
+        if (!cancelled) {
+          setCatalog({
+            key: requestKey,
+            schemas: [],
+            hasMore: false,
+            error: formatError(err),
+          })
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [canLoad, requestKey, network, readProvider, query, page])
+
+  const schemaUIDs = useMemo(() => (current?.schemas ?? []).map((s) => s.uid), [current])
+  const { names: schemaNames } = useSchemaNames(schemaUIDs)
+
+  const handleSearch = () => {
+    setQuery(searchInput.trim())
+    setPage(0)
+  }
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black bg-opacity-50 z-40 animate-fade-in" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4 animate-fade-in">
+        <div
+          className="bg-background border border-border rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto animate-slide-up"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="sticky top-0 border-b border-border px-6 py-4 bg-background flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold">Schema Catalog</h2>
+              <p className="text-sm text-muted-foreground mt-1">
+                Browse schemas registered on {network.name} and reuse one for your attestations.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-muted-foreground hover:text-foreground transition-colors text-2xl leading-none"
+            >
+              ✕
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="px-6 py-8 space-y-6">
+            {useEventScan && !canLoad && (
+              <div className="p-4 bg-yellow-100 text-yellow-800 border border-yellow-300 rounded-md text-center">
+                {network.name} has no RAS indexer and no EAS contract addresses, so there is nothing to browse.
+              </div>
+            )}
+
+            {/* Search */}
+            <div className="flex gap-3">
+              <input
+                type="text"
+                placeholder="Search field names or types, e.g. uint256 score, or paste a Schema UID"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+                className="flex-1 px-4 py-2 rounded-md border border-border bg-card text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all text-sm"
+              />
+              <button
+                onClick={handleSearch}
+                disabled={isLoading}
+                className="px-6 py-2 rounded-md bg-primary text-primary-foreground font-medium hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              >
+                Search
+              </button>
+            </div>
+            {useEventScan && canLoad && (
+              <p className="text-xs text-muted-foreground">Results come from SchemaRegistry events on {network.name}, indexed in this browser.</p>
+            )}
+
+            {isLoading && (
+              <div className="flex items-center justify-center gap-2 py-8 text-muted-foreground">
+                <div className="animate-spin inline-block w-4 h-4 border-2 border-current border-t-transparent rounded-full" />
+                Loading schemas...
+              </div>
+            )}
+
+            {current?.error && (
+              <div className="p-4 bg-red-100 text-red-800 border border-red-300 rounded-md text-sm">Loading schemas failed: {current.error}</div>
+            )}
+
+            {current && !current.error && current.schemas.length === 0 && (
+              <div className="text-center py-8 text-muted-foreground">
+                <p>No schemas found{query ? ` matching "${query}"` : ""}.</p>
+              </div>
+            )}
+
+            {current && current.schemas.length > 0 && (
+              <div className="space-y-4">
+                {current.schemas.map((schema) => {
+                  const metadata = schemaNames[schema.uid.toLowerCase()]
+                  const hasResolver = schema.resolver !== ethers.ZeroAddress
+                  return (
+                    <div key={schema.uid} className="p-4 bg-card border border-border rounded-md space-y-3">
+                      <div className="flex flex-wrap items-start justify-between gap-3">
+                        <div className="min-w-0 flex-1">
+                          <p className="font-semibold">{metadata?.name ?? "Unnamed schema"}</p>
+                          {metadata?.description && (
+                            <p className="text-sm text-muted-foreground">{metadata.description}</p>
+                          )}
+                          <p className="font-mono text-xs text-muted-foreground break-all mt-1">{schema.uid}</p>
+                        </div>
+                        <button
+                          onClick={() => onUseSchema(schema)}
+                          className="px-4 py-2 rounded-md bg-primary text-primary-foreground text-sm font-medium hover:opacity-90 transition-all"
+                        >
+                          Use This Schema
+                        </button>
+                      </div>
+
+                      <p className="p-3 bg-secondary rounded-md font-mono text-sm break-all text-primary">
+                        {schema.definition || "—"}
+                      </p>
+
+                      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+                        <div>
+                          <p className="text-xs text-muted-foreground">Attestations</p>
+                          <p className="font-medium">{schema.attestationCount}</p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-muted-foreground">Revocable</p>
+                          <p className="font-medium">{schema.revocable ? "Yes" : "No"}</p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-muted-foreground">Resolver</p>
+                          <p className="font-mono text-xs break-all" title={schema.resolver}>
+                            {hasResolver ? formatAddress(schema.resolver) : "None"}
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-muted-foreground">Creator</p>
+                          <p className="font-mono text-xs break-all" title={schema.creator}>
+                            {formatAddress(schema.creator)}
+                          </p>
+                          <p className="text-xs text-muted-foreground">{formatTimestamp(schema.time)}</p>
+                        </div>
+                      </div>
+
+                      {getExplorerUrl(network, "schema", schema.uid) && (
+                        <a
+                          href={getExplorerUrl(network, "schema", schema.uid)!}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="text-primary text-sm hover:underline block text-right"
+                        >
+                          View on {network.shortName} Explorer
+                        </a>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+
+            {/* Pagination */}
+            {current && (current.hasMore || page > 0) && (
+              <div className="flex items-center justify-between pt-2">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={isLoading || page === 0}
+                  className="px-4 py-2 rounded-md border border-border text-sm font-medium hover:bg-secondary transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  ← Previous
+                </button>
+                <span className="text-sm text-muted-foreground">Page {page + 1}</span>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={isLoading || !current.hasMore}
+                  className="px-4 py-2 rounded-md border border-border text-sm font-medium hover:bg-secondary transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Next →
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -1,140 +1,529 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useMemo, useState } from "react"
 import { SchemaRegistry } from '@ethereum-attestation-service/eas-sdk';
 import { useWallet } from "@/hooks/useWallet"; // Assumes useWallet hook is available
+import { useTransactions } from "@/hooks/useTransactions";
+import { useCostEstimate } from "@/hooks/useCostEstimate";
 import { ethers, Signer } from "ethers";
-
-interface SchemaField {
-  id: string
-  name: string
-  type: string
-}
+import { getExplorerUrl, hasContracts } from "@/lib/networks";
+import { rememberSchemaMetadata, useSchemaNames } from "@/hooks/useSchemaNames";
+import { RESOLVER_TEMPLATES, ResolverTemplateArgs, ResolverTemplateId, deployResolverTemplate, hasContractCode } from "@/lib/resolvers";
+import {
+  ELEMENTARY_TYPE_GROUPS,
+  SchemaBuilderField,
+  TUPLE_TYPE,
+  addBuilderComponent,
+  buildSchemaString,
+  createBuilderField,
+  removeBuilderField,
+  updateBuilderField,
+  validateBuilderFields,
+  verifySchemaRoundTrip,
+} from "@/lib/schema";
+import { PublishedSchemaMetadata, publishSchemaMetadata } from "@/lib/schema-names";
+import { TrackedTransactionError } from "@/lib/transactions";
+import { AppError, classifyError } from "@/lib/errors";
+import ErrorNotice from "@/components/error-notice";
+import CostPreview from "@/components/cost-preview";
+import { estimateTransactionCost } from "@/lib/gas";
 
 interface SchemaModalProps {
   onClose: () => void
 }
 
 // --- EAS & Rootstock Configuration ---
-// Schema Registry contract address on RSK Testnet
-const SCHEMA_REGISTRY_ADDRESS = '0x679c62956cd2801ababf80e9d430f18859eea2d5';
+// The Schema Registry address is resolved from the active network (see lib/networks)
 
 // ZERO_ADDRESS means no custom resolver is used
-const RESOLVER_ADDRESS = ethers.ZeroAddress;
+const NO_RESOLVER = ethers.ZeroAddress;
 // ------------------------------------
 
+type ResolverMode = "none" | "custom" | "template"
+
+interface ResolverCodeCheck {
+  // chain + address the check ran for
+  key: string
+  hasCode: boolean
+  error?: string
+}
+
+// Addresses separated by commas, spaces or new lines
+const parseAddressList = (raw: string) => raw.split(/[\s,]+/).map((a) => a.trim()).filter(Boolean)
+
+// Wait for typing to pause before asking the registry about the precomputed UID
+const REGISTRY_CHECK_DELAY_MS = 400;
+
+interface RegistryCheck {
+  // chain + schema UID the check ran for; a mismatch means a new check is pending
+  key: string
+  exists: boolean
+  error?: string
+}
+
+/** Resolves to false when the SchemaRegistry has no record for the UID. */
+const isSchemaRegistered = async (schemaRegistry: SchemaRegistry, uid: string): Promise<boolean> => {
+  try {
+    await schemaRegistry.getSchema({ uid });
+    return true;
+  } catch (err) {
+    if ((err as Error)?.message === "Schema not found") return false;
+    throw err;
+  }
+};
+
+interface NameResult {
+  status: "Publishing" | "Published" | "Failed"
+  published?: PublishedSchemaMetadata
+  error?: AppError
+}
+
+interface FieldEditorProps {
+  field: SchemaBuilderField
+  errors: Record<string, string>
+  // Documentation for top-level fields, published with the schema name
+  doc?: string
+  onDocChange?: (id: string, doc: string) => void
+  // Nested tuples don't survive SchemaEncoder, so components can't be tuples themselves
+  isComponent: boolean
+  canRemove: boolean
+  onUpdate: (id: string, patch: Partial<SchemaBuilderField>) => void
+  onRemove: (id: string) => void
+  onAddComponent: (parentId: string) => void
+}
+
+function FieldEditor({ field, errors, doc, onDocChange, isComponent, canRemove, onUpdate, onRemove, onAddComponent }: FieldEditorProps) {
+  const inputClass =
+    "w-full px-4 py-2 rounded-md border bg-card text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all"
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap sm:flex-nowrap gap-3 items-end">
+        <div className="flex-1 min-w-[8rem]">
+          <label className="block text-xs text-muted-foreground mb-1">{isComponent ? "Component Name" : "Field Name"}</label>
+          <input
+            type="text"
+            placeholder="Field Name"
+            value={field.name}
+            onChange={(e) => onUpdate(field.id, { name: e.target.value.replace(/\s/g, "") })}
+            className={`${inputClass} ${errors[field.id] ? "border-red-400" : "border-border"}`}
+          />
+        </div>
+        <div className="flex-1 min-w-[8rem]">
+          <label className="block text-xs text-muted-foreground mb-1">Solidity Type</label>
+          <select
+            value={field.type}
+            onChange={(e) => {
+              const type = e.target.value
+              // Start a new struct with one empty component
+              const components = type === TUPLE_TYPE && field.components.length === 0 ? [createBuilderField()] : field.components
+              onUpdate(field.id, { type, components })
+            }}
+            className={`${inputClass} border-border`}
+          >
+            {ELEMENTARY_TYPE_GROUPS.map((group) => (
+              <optgroup key={group.label} label={group.label}>
+                {group.types.map((type) => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </optgroup>
+            ))}
+            {!isComponent && (
+              <optgroup label="Struct">
+                <option value={TUPLE_TYPE}>tuple (struct)</option>
+              </optgroup>
+            )}
+          </select>
+        </div>
+        <div className="w-28">
+          <label className="block text-xs text-muted-foreground mb-1">Array</label>
+          <select
+            value={field.isArray ? "array" : "single"}
+            onChange={(e) => onUpdate(field.id, { isArray: e.target.value === "array" })}
+            className={`${inputClass} border-border`}
+          >
+            <option value="single">No</option>
+            <option value="array">T[ ]</option>
+          </select>
+        </div>
+        {field.isArray && (
+          <div className="w-20">
+            <label className="block text-xs text-muted-foreground mb-1">Length</label>
+            <input
+              type="text"
+              inputMode="numeric"
+              placeholder="any"
+              value={field.arrayLength}
+              onChange={(e) => onUpdate(field.id, { arrayLength: e.target.value.trim() })}
+              className={`${inputClass} border-border`}
+            />
+          </div>
+        )}
+        {canRemove && (
+          <button
+            onClick={() => onRemove(field.id)}
+            className="px-3 py-2 rounded-md border border-border text-lg hover:bg-destructive hover:text-destructive-foreground transition-colors"
+          >
+            ✕
+          </button>
+        )}
+      </div>
+      {errors[field.id] && <p className="text-xs text-red-600">{errors[field.id]}</p>}
+      {onDocChange && (
+        <input
+          type="text"
+          placeholder="What this field means (optional, published with the name)"
+          value={doc ?? ""}
+          onChange={(e) => onDocChange(field.id, e.target.value)}
+          className="w-full px-3 py-1.5 rounded-md border border-border bg-card text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all text-xs"
+        />
+      )}
+
+      {field.type === TUPLE_TYPE && (
+        <div className="ml-4 pl-4 border-l-2 border-border space-y-3">
+          {field.components.map((component) => (
+            <FieldEditor
+              key={component.id}
+              field={component}
+              errors={errors}
+              isComponent
+              canRemove
+              onUpdate={onUpdate}
+              onRemove={onRemove}
+              onAddComponent={onAddComponent}
+            />
+          ))}
+          <button
+            onClick={() => onAddComponent(field.id)}
+            className="px-3 py-1.5 rounded-md border border-border text-xs font-medium hover:bg-secondary transition-colors"
+          >
+            + Add Component
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
 export default function SchemaModal({ onClose }: SchemaModalProps) {
-  const { signer, isWrongNetwork, address, connectWallet } = useWallet();
+  const { signer, readProvider, isWrongNetwork, address, connectWallet, network } = useWallet();
+  const { sendTransaction, notify } = useTransactions();
   
   const [schemaName, setSchemaName] = useState("");
+  const [schemaDescription, setSchemaDescription] = useState("");
+  // Field id -> documentation
+  const [fieldDocs, setFieldDocs] = useState<Record<string, string>>({});
+  // Publish the name as a "Name a Schema" attestation after registering
+  const [publishName, setPublishName] = useState(true);
+  const [nameResult, setNameResult] = useState<NameResult | null>(null);
   // Initial field: Must be present for the schema string logic to work
-  const [fields, setFields] = useState<SchemaField[]>([{ id: "1", name: "score", type: "uint256" }]);
+  const [fields, setFields] = useState<SchemaBuilderField[]>([createBuilderField({ id: "1", name: "score" })]);
   const [isRevocable, setIsRevocable] = useState(true);
+
+  // Resolver: none, an existing contract, or a template deployed from here
+  const [resolverMode, setResolverMode] = useState<ResolverMode>("none");
+  const [customResolverInput, setCustomResolverInput] = useState("");
+  const [resolverCodeCheck, setResolverCodeCheck] = useState<ResolverCodeCheck | null>(null);
+  const [templateId, setTemplateId] = useState<ResolverTemplateId>("AttesterAllowlistResolver");
+  const [allowlistInput, setAllowlistInput] = useState("");
+  const [feeInput, setFeeInput] = useState("");
+  const [payeeInput, setPayeeInput] = useState("");
+  const [deployedResolver, setDeployedResolver] = useState<{ templateId: ResolverTemplateId; address: string } | null>(null);
+  const [isDeployingResolver, setIsDeployingResolver] = useState(false);
+  // Validation messages are strings; failed deployments are classified
+  const [resolverError, setResolverError] = useState<AppError | string | null>(null);
   
   const [isLoading, setIsLoading] = useState(false);
-  const [result, setResult] = useState<{ status: string; uid: string; txHash: string } | null>(null);
+  const [result, setResult] = useState<{ status: string; uid: string; txHash: string; error?: AppError } | null>(null);
+
+  // Field-level errors first; the SchemaEncoder round trip only runs once every field is valid
+  const fieldErrors = useMemo(() => validateBuilderFields(fields), [fields]);
+  const hasFieldErrors = Object.keys(fieldErrors).length > 0;
+  const schemaString = useMemo(() => buildSchemaString(fields), [fields]);
+  const roundTripError = useMemo(
+    () => (hasFieldErrors ? null : verifySchemaRoundTrip(schemaString)),
+    [hasFieldErrors, schemaString]
+  );
+  const isSchemaValid = !hasFieldErrors && !roundTripError;
+
+  const customResolver = customResolverInput.trim();
+  const isCustomResolverAddress = ethers.isAddress(customResolver);
+  const codeCheckKey = isCustomResolverAddress ? `${network.chainId}:${customResolver.toLowerCase()}` : null;
+  const currentCodeCheck = resolverCodeCheck?.key === codeCheckKey ? resolverCodeCheck : null;
+  const canCheckCode = resolverMode === "custom" && !!codeCheckKey;
+  const isCheckingCode = canCheckCode && !currentCodeCheck;
+  const selectedTemplate = RESOLVER_TEMPLATES.find((t) => t.id === templateId) ?? RESOLVER_TEMPLATES[0];
+
+  // null while the chosen resolver isn't usable yet (invalid address, no code, template not deployed)
+  const resolverAddress =
+    resolverMode === "none"
+      ? NO_RESOLVER
+      : resolverMode === "custom"
+      ? currentCodeCheck?.hasCode
+        ? ethers.getAddress(customResolver)
+        : null
+      : deployedResolver?.templateId === templateId
+      ? deployedResolver.address
+      : null;
+
+  // A resolver has to contain code; EAS calls it on every attestation
+  useEffect(() => {
+    if (!canCheckCode || !codeCheckKey) return;
+
+    let cancelled = false;
+    const checkCode = async () => {
+      try {
+        const hasCode = await hasContractCode(readProvider, customResolver);
+        if (!cancelled) setResolverCodeCheck({ key: codeCheckKey, hasCode });
+      } catch (err) {
+        console.warn("Resolver code check failed:", err);
+        if (!cancelled) setResolverCodeCheck({ key: codeCheckKey, hasCode: false, error: "Could not read the address." });
+      }
+    };
+
+    checkCode();
+    return () => {
+      cancelled = true;
+    };
+  }, [canCheckCode, readProvider, codeCheckKey, customResolver]);
 
-  const isReadyToDeploy = signer && !isWrongNetwork && schemaName.trim() && fields.every(f => f.name.trim() && f.type.trim());
+  // The UID is deterministic: keccak256(schema, resolver, revocable), identical on every chain
+  const precomputedUID = useMemo(
+    () =>
+      isSchemaValid && resolverAddress ? SchemaRegistry.getSchemaUID(schemaString, resolverAddress, isRevocable) : null,
+    [isSchemaValid, schemaString, resolverAddress, isRevocable]
+  );
+  const [registryCheck, setRegistryCheck] = useState<RegistryCheck | null>(null);
+  const checkKey = precomputedUID ? `${network.chainId}:${precomputedUID}` : null;
+  const canCheckRegistry = !!checkKey && hasContracts(network);
+  const currentCheck = registryCheck?.key === checkKey ? registryCheck : null;
+  const isCheckingRegistry = canCheckRegistry && !currentCheck;
+  const isAlreadyRegistered = !!currentCheck?.exists;
+
+  useEffect(() => {
+    if (!canCheckRegistry || !precomputedUID || !checkKey) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const schemaRegistry = new SchemaRegistry(network.schemaRegistryAddress);
+        schemaRegistry.connect(readProvider);
+        const exists = await isSchemaRegistered(schemaRegistry, precomputedUID);
+        if (!cancelled) setRegistryCheck({ key: checkKey, exists });
+      } catch (err) {
+        console.warn("Schema registry lookup failed:", err);
+        if (!cancelled) {
+          setRegistryCheck({ key: checkKey, exists: false, error: "Could not check the SchemaRegistry." });
+        }
+      }
+    }, REGISTRY_CHECK_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [canCheckRegistry, readProvider, precomputedUID, checkKey, network]);
+
+  // Expected registration cost; an existing schema would only revert the estimate
+  const estimateRegistration = useMemo(() => {
+    if (!signer || !address || isWrongNetwork || !isSchemaValid || !resolverAddress) return null;
+    if (isCheckingRegistry || isAlreadyRegistered) return null;
+    return async () => {
+      const schemaRegistry = new SchemaRegistry(network.schemaRegistryAddress);
+      schemaRegistry.connect(signer as unknown as Signer);
+      const tx = await schemaRegistry.register({ schema: schemaString, resolverAddress, revocable: isRevocable });
+      return estimateTransactionCost(readProvider, address, [tx.data]);
+    };
+  }, [signer, address, isWrongNetwork, isSchemaValid, resolverAddress, isCheckingRegistry, isAlreadyRegistered, network, schemaString, isRevocable, readProvider]);
+  const registrationCost = useCostEstimate(estimateRegistration);
+
+  const isReadyToDeploy =
+    signer &&
+    !isWrongNetwork &&
+    (!publishName || schemaName.trim()) &&
+    isSchemaValid &&
+    !!resolverAddress &&
+    !registrationCost.isUnderfunded;
+
+  // Existing schemas may already carry a published name
+  const resultUIDs = useMemo(() => (result?.uid ? [result.uid] : []), [result?.uid]);
+  const { names: publishedNames, isLoading: isLoadingName } = useSchemaNames(resultUIDs);
+  const existingName = result?.uid ? publishedNames[result.uid.toLowerCase()] : undefined;
+
+  const handlePublishName = async (schemaUID: string) => {
+    if (!signer || !schemaName.trim()) return;
+
+    setNameResult({ status: "Publishing" });
+    try {
+      const docs: Record<string, string> = {};
+      for (const field of fields) {
+        if (field.name && fieldDocs[field.id]?.trim()) docs[field.name] = fieldDocs[field.id];
+      }
+      const published = await publishSchemaMetadata(
+        network,
+        signer as unknown as Signer,
+        { schemaUID, name: schemaName, description: schemaDescription, fieldDocs: docs },
+        sendTransaction
+      );
+      rememberSchemaMetadata(network.chainId, {
+        uid: schemaUID.toLowerCase(),
+        name: schemaName.trim(),
+        description: schemaDescription.trim() || null,
+        fieldDocs: docs,
+        attester: address,
+      });
+      setNameResult({ status: "Published", published });
+    } catch (error) {
+      console.error("Publishing schema name failed:", error);
+      setNameResult({ status: "Failed", error: classifyError(error) });
+    }
+  }
+
+  const handleDeployResolver = async () => {
+    if (!signer || isWrongNetwork) {
+      connectWallet();
+      return;
+    }
+
+    let args: ResolverTemplateArgs;
+    if (templateId === "AttesterAllowlistResolver") {
+      const attesters = parseAddressList(allowlistInput || address || "");
+      const invalid = attesters.find((a) => !ethers.isAddress(a));
+      if (attesters.length === 0 || invalid) {
+        setResolverError(invalid ? `"${invalid}" is not a valid address.` : "Add at least one approved attester.");
+        return;
+      }
+      args = { id: templateId, attesters: attesters.map((a) => ethers.getAddress(a)) };
+    } else if (templateId === "PaymentRequiredResolver") {
+      let fee: bigint;
+      try {
+        fee = ethers.parseEther(feeInput.trim() || "0");
+      } catch {
+        setResolverError(`Fee must be a ${network.nativeCurrency.symbol} amount, e.g. 0.001.`);
+        return;
+      }
+      const payee = payeeInput.trim() || address || "";
+      if (fee <= BigInt(0) || !ethers.isAddress(payee)) {
+        setResolverError(fee <= BigInt(0) ? "Fee must be greater than 0." : "Payee must be a valid address.");
+        return;
+      }
+      args = { id: templateId, fee, payee: ethers.getAddress(payee) };
+    } else {
+      args = { id: templateId };
+    }
+
+    setIsDeployingResolver(true);
+    setResolverError(null);
+    try {
+      const deployed = await deployResolverTemplate(network, signer as unknown as Signer, args, sendTransaction);
+      setDeployedResolver({ templateId, address: deployed.address });
+    } catch (error) {
+      console.error("Resolver deployment failed:", error);
+      setResolverError(classifyError(error));
+    } finally {
+      setIsDeployingResolver(false);
+    }
+  }
+
+  const handleUseExisting = () => {
+    if (!precomputedUID) return;
+    setNameResult(null);
+    setResult({ status: "Existing", uid: precomputedUID, txHash: "" });
+  }
 
   const addField = () => {
-    const newId = Math.random().toString(36).substr(2, 9)
-    setFields([...fields, { id: newId, name: "", type: "uint256" }])
+    setFields([...fields, createBuilderField({ name: "" })])
   }
 
   const removeField = (id: string) => {
     // Prevent removing the last field to ensure a valid schema structure
-    if (fields.length > 1) {
-      setFields(fields.filter((f) => f.id !== id))
+    if (fields.length > 1 || !fields.some((f) => f.id === id)) {
+      setFields(removeBuilderField(fields, id))
     }
   }
 
-  const updateField = (id: string, key: "name" | "type", value: string) => {
-    setFields(fields.map((f) => (f.id === id ? { ...f, [key]: value } : f)))
+  const updateField = (id: string, patch: Partial<SchemaBuilderField>) => {
+    setFields(updateBuilderField(fields, id, patch))
   }
-  
-  // Helper to generate the schema string, e.g., "uint256 score, string name"
-  const generateSchemaString = (): string => {
-    return fields
-      .map(f => `${f.type.trim()} ${f.name.trim()}`)
-      .filter(s => {
-        const parts = s.split(' ');
-        // Ensure both type and name are non-empty and there are two parts
-        return parts.length === 2 && parts[0] && parts[1];
-      }) 
-      .join(', ');
+
+  const addComponent = (parentId: string) => {
+    setFields(addBuilderComponent(fields, parentId))
   }
 
 
   const handleDeploy = async () => {
     if (!isReadyToDeploy || !signer) {
-        alert("Please connect your wallet and ensure you are on the Rootstock Testnet.");
+        notify({ tone: "warning", title: `Please connect your wallet and ensure you are on ${network.name}.` });
         connectWallet();
         return;
     }
 
-    const schemaString = generateSchemaString();
-    if (!schemaString) {
-        alert("Schema must contain at least one valid field (type and name).");
+    if (!isSchemaValid || !resolverAddress) {
+        notify({
+          tone: "warning",
+          title: isSchemaValid ? "Choose a valid resolver before deploying." : "Fix the schema fields before deploying.",
+        });
         return;
     }
 
     setIsLoading(true);
     setResult(null);
+    setNameResult(null);
 
     try {
       // 1. Initialize Schema Registry directly with its contract address
-      const schemaRegistry = new SchemaRegistry(SCHEMA_REGISTRY_ADDRESS);
+      const schemaRegistry = new SchemaRegistry(network.schemaRegistryAddress);
       
       // 2. Connect the signer to the Schema Registry
       schemaRegistry.connect(signer as unknown as Signer);
+
+      // Registering an existing schema reverts, so check again right before sending
+      if (precomputedUID && (await isSchemaRegistered(schemaRegistry, precomputedUID))) {
+        setRegistryCheck({ key: `${network.chainId}:${precomputedUID}`, exists: true });
+        setResult({ status: "Existing", uid: precomputedUID, txHash: "" });
+        return;
+      }
       
-      // 3. Register the schema on-chain
+      // 3. Build the registration transaction
       const tx = await schemaRegistry.register({
           schema: schemaString,
-          resolverAddress: RESOLVER_ADDRESS,
+          resolverAddress: resolverAddress ?? NO_RESOLVER,
           revocable: isRevocable,
       });
 
-      // Get transaction hash before waiting
-      const txHash = (tx as any)?.hash || "";
-
-      // 4. Wait for the transaction to be mined
-      // According to EAS SDK, wait() returns the Schema UID string directly (not an object)
-      const waitResult = await tx.wait();
-      
-      // 5. Extract Schema UID - wait() returns the UID string directly
-      let schemaUID: string;
-      
-      if (typeof waitResult === 'string') {
-        // wait() returns the UID string directly
-        schemaUID = waitResult;
-      } else if (waitResult && typeof waitResult === 'object' && 'uid' in waitResult) {
-        // Fallback: if it's an object with uid property
-        schemaUID = (waitResult as any).uid;
-      } else {
-        console.error("Unexpected schema registration response structure:", waitResult);
-        throw new Error("Transaction confirmed but Schema UID format is unexpected. Check console for response structure.");
-      }
-
-      if (!schemaUID || !schemaUID.startsWith('0x')) {
-        throw new Error("Invalid Schema UID format received from registration.");
-      }
+      // 4. Submit through the transaction tracker and wait for it to be mined.
+      // The UID is deterministic, so the precomputed one is recorded with the transaction
+      const schemaUID = SchemaRegistry.getSchemaUID(schemaString, resolverAddress, isRevocable);
+      const sent = await sendTransaction(tx.data, {
+        kind: "schema",
+        label: schemaName.trim() ? `Deploy schema "${schemaName.trim()}"` : "Deploy schema",
+        uid: schemaUID,
+      });
 
       setResult({
         status: "Confirmed",
         uid: schemaUID,
-        txHash: txHash,
+        txHash: sent.hash,
       });
 
+      // 5. Name the schema in a second transaction; registration already succeeded if this fails
+      if (publishName && schemaName.trim()) {
+        await handlePublishName(schemaUID);
+      }
+
     } catch (error) {
       console.error("Schema Deployment failed:", error);
-      const errorMessage = (error as Error).message || "An unknown error occurred.";
+      const classified = classifyError(error);
       setResult({
         status: "Failed",
         uid: "",
         txHash: "",
+        error: classified,
       });
-      alert(`Schema deployment failed: ${errorMessage.substring(0, 150)}...`);
+      // Failures after submission were already reported by the tracker
+      if (!(error instanceof TrackedTransactionError)) {
+        notify({ tone: "error", title: "Schema deployment failed", message: classified.message });
+      }
 
     } finally {
       setIsLoading(false);
@@ -159,7 +548,7 @@ export default function SchemaModal({ onClose }: SchemaModalProps) {
           <div className="sticky top-0 border-b border-border px-6 py-4 bg-background flex items-center justify-between">
             <div>
               <h2 className="text-2xl font-bold">Define New Attestation Schema</h2>
-              <p className="text-sm text-muted-foreground mt-1">Register the structure for your attestations on Rootstock.</p>
+              <p className="text-sm text-muted-foreground mt-1">Register the structure for your attestations on {network.name}.</p>
             </div>
             <button
               onClick={onClose}
@@ -178,13 +567,13 @@ export default function SchemaModal({ onClose }: SchemaModalProps) {
                 </div>
             ) : isWrongNetwork ? (
                  <div className="p-4 bg-red-100 text-red-800 border border-red-300 rounded-md text-center">
-                    Wallet is connected, but you must switch to **Rootstock Testnet** (Chain ID 31).
+                    Wallet is connected, but you must switch to <strong>{network.name}</strong> (Chain ID {network.chainId}).
                 </div>
             ) : null}
 
-            {/* Schema Name (Used for descriptive indexing/logging only) */}
+            {/* Schema Name (published on-chain as a "Name a Schema" attestation) */}
             <div className="space-y-2 animate-slide-up">
-              <label className="block text-sm font-medium">Schema Description (Internal reference)</label>
+              <label className="block text-sm font-medium">Schema Name</label>
               <input
                 type="text"
                 placeholder="e.g., Reputation Score"
@@ -192,11 +581,64 @@ export default function SchemaModal({ onClose }: SchemaModalProps) {
                 onChange={(e) => setSchemaName(e.target.value)}
                 className="w-full px-4 py-2 rounded-md border border-border bg-card text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all"
               />
+              <textarea
+                rows={2}
+                placeholder="Description (optional), e.g. Loan repayment record issued by a lender"
+                value={schemaDescription}
+                onChange={(e) => setSchemaDescription(e.target.value)}
+                className="w-full px-4 py-2 rounded-md border border-border bg-card text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all text-sm"
+              />
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  id="publish-name"
+                  checked={publishName}
+                  onChange={(e) => setPublishName(e.target.checked)}
+                  className="w-4 h-4 text-primary bg-gray-100 border-gray-300 rounded focus:ring-primary"
+                />
+                <label htmlFor="publish-name" className="text-xs text-muted-foreground">
+                  Publish the name and description on-chain after registering (one extra transaction), so other apps show it instead of the UID
+                </label>
+              </div>
             </div>
             
              {/* Schema Fields Summary (Live Preview) */}
-            <div className="p-4 bg-secondary border border-border rounded-md text-sm font-mono break-all">
-                <span className="text-muted-foreground">Schema String:</span> {generateSchemaString() || "No fields defined (e.g., uint256 score, string name)."}
+            <div className="p-4 bg-secondary border border-border rounded-md text-sm space-y-2">
+                <p className="font-mono break-all">
+                  <span className="text-muted-foreground">Schema String:</span> {schemaString || "No fields defined (e.g., uint256 score, string name)."}
+                </p>
+                {hasFieldErrors ? (
+                  <p className="text-xs text-red-600">Fix the highlighted fields below.</p>
+                ) : roundTripError ? (
+                  <p className="text-xs text-red-600">
+                    SchemaEncoder check failed: {roundTripError.message}
+                    {roundTripError.suggestion && ` ${roundTripError.suggestion}`}
+                  </p>
+                ) : (
+                  <p className="text-xs text-green-600">✓ Encodes and decodes with SchemaEncoder</p>
+                )}
+                {precomputedUID && (
+                  <div className="pt-2 border-t border-dashed border-border/50">
+                    <p className="text-xs text-muted-foreground">
+                      Schema UID ({resolverAddress === NO_RESOLVER ? "no resolver" : `resolver ${resolverAddress?.slice(0, 8)}...`},{" "}
+                      {isRevocable ? "revocable" : "irrevocable"})
+                    </p>
+                    <p className="font-mono text-xs break-all">{precomputedUID}</p>
+                    <p className="text-xs mt-1">
+                      {!canCheckRegistry ? (
+                        <span className="text-muted-foreground">{network.name} has no SchemaRegistry address configured.</span>
+                      ) : isCheckingRegistry ? (
+                        <span className="text-muted-foreground">Checking the SchemaRegistry...</span>
+                      ) : currentCheck?.error ? (
+                        <span className="text-yellow-600">{currentCheck.error}</span>
+                      ) : isAlreadyRegistered ? (
+                        <span className="text-yellow-600">Already registered on {network.name}. Use it instead of deploying again.</span>
+                      ) : (
+                        <span className="text-green-600">Not registered yet on {network.name}.</span>
+                      )}
+                    </p>
+                  </div>
+                )}
             </div>
 
 
@@ -205,45 +647,19 @@ export default function SchemaModal({ onClose }: SchemaModalProps) {
               <label className="block text-sm font-medium">Schema Fields (Solidity Types)</label>
               <div className="space-y-3">
                 {fields.map((field, idx) => (
-                  <div
-                    key={field.id}
-                    className="flex gap-3 items-end animate-slide-up"
-                    style={{ animationDelay: `${idx * 50}ms` }}
-                  >
-                    <div className="flex-1">
-                       <label className="block text-xs text-muted-foreground mb-1">Field Name</label>
-                      <input
-                        type="text"
-                        placeholder="Field Name"
-                        value={field.name}
-                        onChange={(e) => updateField(field.id, "name", e.target.value.toLowerCase().replace(/\s/g, ''))}
-                        className="w-full px-4 py-2 rounded-md border border-border bg-card text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all"
-                      />
-                    </div>
-                    <div className="flex-1">
-                       <label className="block text-xs text-muted-foreground mb-1">Solidity Type</label>
-                      <select
-                        value={field.type}
-                        onChange={(e) => updateField(field.id, "type", e.target.value)}
-                        className="w-full px-4 py-2 rounded-md border border-border bg-card text-card-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all"
-                      >
-                        <option>uint256</option>
-                        <option>uint8</option>
-                        <option>address</option>
-                        <option>string</option>
-                        <option>bool</option>
-                        <option>bytes32</option>
-                      </select>
-                    </div>
-                    {/* Only show remove button if there is more than one field */}
-                    {fields.length > 1 && (
-                        <button
-                          onClick={() => removeField(field.id)}
-                          className="px-3 py-2 rounded-md border border-border text-lg hover:bg-destructive hover:text-destructive-foreground transition-colors"
-                        >
-                          ✕
-                        </button>
-                    )}
+                  <div key={field.id} className="animate-slide-up" style={{ animationDelay: `${idx * 50}ms` }}>
+                    <FieldEditor
+                      field={field}
+                      errors={fieldErrors}
+                      doc={fieldDocs[field.id]}
+                      onDocChange={(id, doc) => setFieldDocs({ ...fieldDocs, [id]: doc })}
+                      isComponent={false}
+                      // Only allow removing when there is more than one field
+                      canRemove={fields.length > 1}
+                      onUpdate={updateField}
+                      onRemove={removeField}
+                      onAddComponent={addComponent}
+                    />
                   </div>
                 ))}
               </div>
@@ -257,6 +673,128 @@ export default function SchemaModal({ onClose }: SchemaModalProps) {
               </button>
             </div>
             
+            {/* Resolver */}
+            <div className="space-y-3 animate-slide-up">
+              <label className="block text-sm font-medium">Resolver (optional rules enforced on every attestation)</label>
+              <div className="flex flex-wrap gap-2">
+                {([
+                  ["none", "No Resolver"],
+                  ["custom", "Existing Contract"],
+                  ["template", "Deploy Template"],
+                ] as const).map(([mode, label]) => (
+                  <button
+                    key={mode}
+                    onClick={() => setResolverMode(mode)}
+                    className={`px-3 py-1.5 rounded-md border text-sm font-medium transition-colors ${
+                      resolverMode === mode ? "bg-primary text-primary-foreground border-primary" : "border-border hover:bg-secondary"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              {resolverMode === "custom" && (
+                <div className="space-y-1">
+                  <input
+                    type="text"
+                    placeholder="Resolver contract address (0x...)"
+                    value={customResolverInput}
+                    onChange={(e) => setCustomResolverInput(e.target.value)}
+                    className="w-full px-4 py-2 rounded-md border border-border bg-card text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all font-mono text-sm"
+                  />
+                  {customResolver && !isCustomResolverAddress ? (
+                    <p className="text-xs text-red-600">Not a valid address.</p>
+                  ) : isCheckingCode ? (
+                    <p className="text-xs text-muted-foreground">Checking contract code...</p>
+                  ) : currentCodeCheck?.error ? (
+                    <p className="text-xs text-red-600">{currentCodeCheck.error}</p>
+                  ) : currentCodeCheck && !currentCodeCheck.hasCode ? (
+                    <p className="text-xs text-red-600">No contract is deployed at this address on {network.name}.</p>
+                  ) : currentCodeCheck?.hasCode ? (
+                    <p className="text-xs text-green-600">✓ Contract found</p>
+                  ) : null}
+                </div>
+              )}
+
+              {resolverMode === "template" && (
+                <div className="space-y-3 p-4 border border-border rounded-md">
+                  <select
+                    value={templateId}
+                    onChange={(e) => {
+                      setTemplateId(e.target.value as ResolverTemplateId)
+                      setResolverError(null)
+                    }}
+                    className="w-full px-4 py-2 rounded-md border border-border bg-card text-card-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all"
+                  >
+                    {RESOLVER_TEMPLATES.map((t) => (
+                      <option key={t.id} value={t.id}>{t.name}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-muted-foreground">{selectedTemplate.description}</p>
+
+                  {templateId === "AttesterAllowlistResolver" && (
+                    <textarea
+                      rows={3}
+                      placeholder={address ? `Approved attesters, one per line (defaults to ${address})` : "Approved attesters, one per line"}
+                      value={allowlistInput}
+                      onChange={(e) => setAllowlistInput(e.target.value)}
+                      className="w-full px-4 py-2 rounded-md border border-border bg-card text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all font-mono text-xs"
+                    />
+                  )}
+                  {templateId === "PaymentRequiredResolver" && (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        placeholder={`Fee (${network.nativeCurrency.symbol})`}
+                        value={feeInput}
+                        onChange={(e) => setFeeInput(e.target.value)}
+                        className="w-full px-4 py-2 rounded-md border border-border bg-card text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all font-mono text-sm"
+                      />
+                      <input
+                        type="text"
+                        placeholder={address ? "Payee (defaults to you)" : "Payee address"}
+                        value={payeeInput}
+                        onChange={(e) => setPayeeInput(e.target.value)}
+                        className="w-full px-4 py-2 rounded-md border border-border bg-card text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary transition-all font-mono text-sm"
+                      />
+                    </div>
+                  )}
+
+                  {deployedResolver?.templateId === templateId ? (
+                    <div className="text-xs space-y-1">
+                      <p className="text-green-600">✓ Deployed at <span className="font-mono break-all">{deployedResolver.address}</span></p>
+                      {getExplorerUrl(network, "address", deployedResolver.address) && (
+                        <a
+                          href={getExplorerUrl(network, "address", deployedResolver.address)!}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-primary hover:underline"
+                        >
+                          View on {network.shortName} Explorer
+                        </a>
+                      )}
+                    </div>
+                  ) : (
+                    <button
+                      onClick={handleDeployResolver}
+                      disabled={isDeployingResolver || !signer || isWrongNetwork}
+                      className="px-4 py-2 rounded-md border border-border text-sm font-medium hover:bg-secondary transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isDeployingResolver ? "Deploying Resolver..." : "Deploy Resolver"}
+                    </button>
+                  )}
+                  {resolverError && (
+                    <ErrorNotice
+                      error={resolverError}
+                      title={resolverError instanceof AppError ? "Resolver deployment failed" : undefined}
+                    />
+                  )}
+                </div>
+              )}
+            </div>
+
             {/* Options */}
             <div className="flex items-center gap-2 pt-4">
                  <input
@@ -270,42 +808,63 @@ export default function SchemaModal({ onClose }: SchemaModalProps) {
             </div>
 
             {/* Deploy Button */}
-            <button
-              onClick={handleDeploy}
-              disabled={!isReadyToDeploy || isLoading}
-              className={`w-full py-3 rounded-md bg-primary text-primary-foreground font-medium hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 animate-slide-up`}
-            >
-              {isLoading ? (
-                <span className="inline-flex items-center gap-2">
-                  <div className="animate-spin inline-block w-4 h-4 border-2 border-current border-t-transparent rounded-full" />
-                  Sending Schema Transaction...
-                </span>
-              ) : (
-                "Deploy Schema to Rootstock"
-              )}
-            </button>
+            {isAlreadyRegistered ? (
+              <button
+                onClick={handleUseExisting}
+                className="w-full py-3 rounded-md bg-primary text-primary-foreground font-medium hover:opacity-90 transition-all duration-300 animate-slide-up"
+              >
+                Use Existing Schema
+              </button>
+            ) : (
+              <>
+                <CostPreview
+                  cost={registrationCost.cost}
+                  error={registrationCost.error}
+                  isEstimating={registrationCost.isEstimating}
+                />
+                <button
+                  onClick={handleDeploy}
+                  disabled={!isReadyToDeploy || isLoading}
+                  className={`w-full py-3 rounded-md bg-primary text-primary-foreground font-medium hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 animate-slide-up`}
+                >
+                  {isLoading ? (
+                    <span className="inline-flex items-center gap-2">
+                      <div className="animate-spin inline-block w-4 h-4 border-2 border-current border-t-transparent rounded-full" />
+                      Sending Schema Transaction...
+                    </span>
+                  ) : (
+                    `Deploy Schema to ${network.name}`
+                  )}
+                </button>
+              </>
+            )}
 
             {/* Result Display */}
             {result && (
-              <div className={`p-6 rounded-md border space-y-3 animate-slide-up ${result.status === "Confirmed" ? "bg-green-50/20 border-green-300" : "bg-red-50/20 border-red-300"}`}>
+              <div className={`p-6 rounded-md border space-y-3 animate-slide-up ${result.status !== "Failed" ? "bg-green-50/20 border-green-300" : "bg-red-50/20 border-red-300"}`}>
                 <div className="flex items-center gap-3">
-                  <div className={`text-2xl ${result.status === "Confirmed" ? 'text-green-600' : 'text-red-600'}`}>
-                    {result.status === "Confirmed" ? '✓' : '✗'}
+                  <div className={`text-2xl ${result.status !== "Failed" ? 'text-green-600' : 'text-red-600'}`}>
+                    {result.status !== "Failed" ? '✓' : '✗'}
                   </div>
-                  <span className="font-medium">Schema Status: {result.status}</span>
+                  <span className="font-medium">
+                    Schema Status: {result.status === "Existing" ? "Already registered" : result.status}
+                  </span>
                 </div>
+                {result.error && <ErrorNotice error={result.error} />}
                 {result.uid && (
                     <div className="space-y-2">
                       <p className="text-xs text-muted-foreground">Schema UID (Copy this for attestation!)</p>
                       <p className="text-sm text-card-foreground break-all font-mono">{result.uid}</p>
-                      <a 
-                          href={`https://explorer.testnet.rsk.co/ras/schema/${result.uid}`} 
-                          target="_blank" 
-                          rel="noopener noreferrer"
-                          className="text-primary text-sm hover:underline block pt-2"
-                      >
-                          View Schema on RSK Explorer
-                      </a>
+                      {getExplorerUrl(network, "schema", result.uid) && (
+                        <a 
+                            href={getExplorerUrl(network, "schema", result.uid)!} 
+                            target="_blank" 
+                            rel="noopener noreferrer"
+                            className="text-primary text-sm hover:underline block pt-2"
+                        >
+                            View Schema on {network.shortName} Explorer
+                        </a>
+                      )}
                     </div>
                 )}
                  {result.txHash && (
@@ -314,6 +873,43 @@ export default function SchemaModal({ onClose }: SchemaModalProps) {
                       <p className="text-sm text-card-foreground break-all font-mono">{result.txHash}</p>
                     </div>
                 )}
+                {result.uid && (
+                  <div className="space-y-1 pt-3 border-t border-dashed border-border/50">
+                    <p className="text-xs text-muted-foreground">Schema Name</p>
+                    {nameResult?.status === "Publishing" ? (
+                      <p className="text-sm text-muted-foreground">Publishing name attestation... confirm in your wallet.</p>
+                    ) : nameResult?.status === "Published" ? (
+                      <>
+                        <p className="text-sm font-medium">{schemaName.trim()}</p>
+                        {nameResult.published?.registeredSchemas.length ? (
+                          <p className="text-xs text-muted-foreground">
+                            Registered the schema-naming schema on {network.name} first.
+                          </p>
+                        ) : null}
+                        <p className="text-xs text-muted-foreground break-all font-mono">
+                          Name attestation: {nameResult.published?.uids[0]}
+                        </p>
+                      </>
+                    ) : existingName && !nameResult ? (
+                      <p className="text-sm font-medium">{existingName.name}</p>
+                    ) : isLoadingName ? (
+                      <p className="text-sm text-muted-foreground">Looking up published name...</p>
+                    ) : (
+                      <div className="space-y-2">
+                        {nameResult?.status === "Failed" && nameResult.error && (
+                          <ErrorNotice error={nameResult.error} title="Publishing the name failed" />
+                        )}
+                        <button
+                          onClick={() => handlePublishName(result.uid)}
+                          disabled={!signer || isWrongNetwork || !schemaName.trim()}
+                          className="px-4 py-2 rounded-md border border-border text-sm font-medium hover:bg-secondary transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {schemaName.trim() ? `Publish Name "${schemaName.trim()}"` : "Enter a name above to publish it"}
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
             )}
           </div>
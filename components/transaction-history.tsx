@@ -0,0 +1,120 @@
+"use client"
+
+import { useState } from "react"
+import { useTransactions } from "@/hooks/useTransactions"
+import { getExplorerUrl, getNetwork } from "@/lib/networks"
+import { TX_KIND_LABELS, TransactionStatus } from "@/lib/transactions"
+
+const STATUS_STYLES: Record<TransactionStatus, string> = {
+  pending: "bg-blue-100 text-blue-800 border-blue-300",
+  mined: "bg-green-100 text-green-800 border-green-300",
+  failed: "bg-red-100 text-red-800 border-red-300",
+  replaced: "bg-yellow-100 text-yellow-800 border-yellow-300",
+}
+
+const STATUS_LABELS: Record<TransactionStatus, string> = {
+  pending: "Pending",
+  mined: "Confirmed",
+  failed: "Failed",
+  replaced: "Replaced",
+}
+
+const formatHash = (hash: string) => `${hash.slice(0, 10)}...${hash.slice(-8)}`
+
+/** Button that opens a drawer listing every transaction the dApp submitted. */
+export default function TransactionHistory() {
+  const { transactions, clearHistory } = useTransactions()
+  const [isOpen, setIsOpen] = useState(false)
+  const pendingCount = transactions.filter((tx) => tx.status === "pending").length
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="px-4 py-2.5 rounded-md border border-border bg-card text-card-foreground text-sm font-medium hover:bg-secondary transition-colors flex items-center gap-2"
+      >
+        {pendingCount > 0 && (
+          <span className="animate-spin inline-block w-3 h-3 border-2 border-current border-t-transparent rounded-full" />
+        )}
+        Activity{pendingCount > 0 ? ` (${pendingCount})` : ""}
+      </button>
+
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <div className="fixed inset-0 bg-black bg-opacity-50 z-40 animate-fade-in" onClick={() => setIsOpen(false)} />
+
+          {/* Drawer */}
+          <div className="fixed inset-y-0 right-0 z-50 w-full max-w-md bg-background border-l border-border overflow-y-auto animate-fade-in">
+            <div className="sticky top-0 border-b border-border px-6 py-4 bg-background flex items-center justify-between">
+              <div>
+                <h2 className="text-xl font-bold">Transaction History</h2>
+                <p className="text-sm text-muted-foreground mt-1">Transactions submitted from this browser.</p>
+              </div>
+              <button
+                onClick={() => setIsOpen(false)}
+                className="text-muted-foreground hover:text-foreground transition-colors text-2xl leading-none"
+              >
+                ✕
+              </button>
+            </div>
+
+            <div className="px-6 py-6 space-y-3">
+              {transactions.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-8">No transactions yet.</p>
+              )}
+
+              {transactions.map((tx) => {
+                const network = getNetwork(tx.chainId)
+                const explorerUrl = network ? getExplorerUrl(network, "tx", tx.hash) : null
+                return (
+                  <div key={tx.id} className="p-4 bg-card border border-border rounded-md space-y-2 text-sm">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <p className="font-medium">{tx.label}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {TX_KIND_LABELS[tx.kind]} • {network?.name ?? `Chain ${tx.chainId}`} •{" "}
+                          {new Date(tx.submittedAt).toLocaleString()}
+                        </p>
+                      </div>
+                      <span className={`px-2 py-0.5 rounded-full border text-xs font-medium ${STATUS_STYLES[tx.status]}`}>
+                        {STATUS_LABELS[tx.status]}
+                      </span>
+                    </div>
+
+                    {explorerUrl ? (
+                      <a href={explorerUrl} target="_blank" rel="noreferrer" className="font-mono text-xs text-primary hover:underline">
+                        {formatHash(tx.hash)}
+                      </a>
+                    ) : (
+                      <p className="font-mono text-xs text-muted-foreground">{formatHash(tx.hash)}</p>
+                    )}
+                    {tx.replacedHash && (
+                      <p className="font-mono text-xs text-muted-foreground">Replaces {formatHash(tx.replacedHash)}</p>
+                    )}
+                    {tx.uids.map((uid) => (
+                      <p key={uid} className="font-mono text-xs break-all">
+                        UID {uid}
+                      </p>
+                    ))}
+                    {tx.contractAddress && <p className="font-mono text-xs break-all">Contract {tx.contractAddress}</p>}
+                    {tx.error && <p className="text-xs text-red-600 break-words">{tx.error}</p>}
+                  </div>
+                )
+              })}
+
+              {transactions.some((tx) => tx.status !== "pending") && (
+                <button
+                  onClick={clearHistory}
+                  className="w-full px-4 py-2 rounded-md border border-border text-sm font-medium hover:bg-secondary transition-colors"
+                >
+                  Clear Finished
+                </button>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </>
+  )
+}
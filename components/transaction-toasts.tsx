@@ -0,0 +1,51 @@
+"use client"
+
+import { ToastTone, useTransactions } from "@/hooks/useTransactions"
+import { getExplorerUrl, getNetwork } from "@/lib/networks"
+
+const TONE_STYLES: Record<ToastTone, string> = {
+  info: "border-border bg-card text-card-foreground",
+  success: "border-green-300 bg-green-100 text-green-800",
+  warning: "border-yellow-300 bg-yellow-100 text-yellow-800",
+  error: "border-red-300 bg-red-100 text-red-800",
+}
+
+/** Non-blocking notifications in the corner of the screen. */
+export default function TransactionToasts() {
+  const { toasts, dismissToast } = useTransactions()
+
+  if (toasts.length === 0) return null
+
+  return (
+    <div className="fixed bottom-4 right-4 z-[60] flex flex-col gap-2 w-80 max-w-[calc(100vw-2rem)]">
+      {toasts.map((toast) => {
+        const network = toast.chainId ? getNetwork(toast.chainId) : undefined
+        const explorerUrl = network && toast.hash ? getExplorerUrl(network, "tx", toast.hash) : null
+        return (
+          <div
+            key={toast.id}
+            role={toast.tone === "error" ? "alert" : "status"}
+            className={`p-3 rounded-md border shadow-lg animate-slide-up ${TONE_STYLES[toast.tone]}`}
+          >
+            <div className="flex items-start justify-between gap-3">
+              <p className="text-sm font-medium">{toast.title}</p>
+              <button
+                onClick={() => dismissToast(toast.id)}
+                className="text-xs leading-none opacity-70 hover:opacity-100"
+                aria-label="Dismiss"
+              >
+                ✕
+              </button>
+            </div>
+            {toast.message && <p className="text-xs mt-1 break-words max-h-32 overflow-y-auto">{toast.message}</p>}
+            {explorerUrl && (
+              <a href={explorerUrl} target="_blank" rel="noreferrer" className="text-xs underline mt-1 inline-block">
+                View transaction
+              </a>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,17 @@
+import type { TrustLevel } from "@/lib/reputation"
+
+const TRUST_COLORS: Record<TrustLevel, string> = {
+  Excellent: "bg-emerald-600 text-white",
+  Good: "bg-green-600 text-white",
+  Fair: "bg-yellow-500 text-black",
+  Poor: "bg-red-600 text-white",
+  Unrated: "bg-secondary text-muted-foreground",
+}
+
+export default function TrustBadge({ trust }: { trust: TrustLevel }) {
+  return (
+    <div className={`px-3 py-1 rounded-full font-semibold ${TRUST_COLORS[trust]}`}>
+      {trust}
+    </div>
+  )
+}
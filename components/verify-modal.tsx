@@ -1,52 +1,101 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
 import {
   EAS,
-  SchemaEncoder,
   Attestation as EASAttestation,
   ZERO_ADDRESS,
   SchemaRegistry,
 } from "@ethereum-attestation-service/eas-sdk"
 import { useWallet } from "@/hooks/useWallet"
-import { ethers, BrowserProvider } from "ethers"
+import { ethers } from "ethers"
+import { NetworkConfig, getExplorerUrl, getReadProvider, hasContracts } from "@/lib/networks"
+import { DecodedValue, decodeSchemaData, extractSchemaString } from "@/lib/schema"
+import { useSchemaNames } from "@/hooks/useSchemaNames"
+import { AttestationStatus, evaluateAttestationStatus } from "@/lib/attestations"
+import { AttestationSearchField, AttestationSearchParams, IndexedAttestation } from "@/lib/indexer"
+import { canSearchAttestations, searchNetworkAttestations } from "@/lib/local-indexer"
+import { OffchainVerification, parseOffchainInput, verifyOffchainPackage } from "@/lib/offchain"
+import { AppError, classifyError } from "@/lib/errors"
+import ErrorNotice from "@/components/error-notice"
 
 /**
  * Improved VerifyModal
  * - Robust schemaRecord handling (SDK sometimes returns Proxy/Result arrays)
- * - Defensive checks for empty/corrupt data (BUFFER_OVERRUN)
+ * - Defensive checks for empty/corrupt data (classified through lib/errors)
  * - Graceful fallback: show raw hex + attestation snapshot when decode fails
  * - Friendly user messages + useful console logs for debugging
  */
 
-/** === Config (checksummed addresses) === */
-const EASContractAddress = ethers.getAddress(
-  "0xc300aeeadd60999933468738c9f5d7e9c0671e1c"
-) // example - Rootstock Testnet
-
-const SCHEMAREGISTRY_ADDRESS = ethers.getAddress(
-  "0x679c62956cd2801ababf80e9d430f18859eea2d5"
-) // example - Rootstock Testnet
+/** === Config ===
+ * EAS and SchemaRegistry addresses come from the active network (see lib/networks).
+ */
 
 /** === Types === */
 interface AttestationResult {
   uid: string
+  schemaUID: string
   schema: string
   recipient: string
   attester: string
-  decodedData: Record<string, any>
+  decodedData: Record<string, DecodedValue>
   rawDataHex?: string
   issuedOn: string
-  status: "Valid" | "Revoked" | "Expired"
+  status: ResultStatus
+  // set when the attestation was revoked
+  revokedOn?: string
+  // only the attester can revoke, so this is the attester once revoked
+  revoker?: string
+  // "Never" when the attestation has no expiration time
+  expiresOn: string
+  // why decoding failed, shown next to the raw fallback
+  decodeError?: string
   // full attestation snapshot for debugging/fallback
-  _attestationSnapshot?: Record<string, any>
+  _attestationSnapshot?: Record<string, unknown>
+  // set for offchain attestations, which are checked by signature instead of on-chain
+  offchain?: OffchainVerification
 }
 
 interface VerifyModalProps {
   onClose: () => void
+  // Attestation UID to look up as soon as the modal opens
+  initialQuery?: string
+  // Mode for initialQuery; defaults to "uid"
+  initialMode?: SearchMode
 }
 
+// "uid" reads a single attestation from the EAS contract, "offchain" checks a signed
+// attestation locally; the rest query the RAS indexer, or the local event index without one
+export type SearchMode = "uid" | "offchain" | AttestationSearchField
+
+const SEARCH_MODES: { id: SearchMode; label: string; placeholder: string }[] = [
+  { id: "uid", label: "Attestation UID", placeholder: "Enter Attestation UID (e.g., 0x...)" },
+  { id: "recipient", label: "Recipient", placeholder: "Enter recipient address (0x...)" },
+  { id: "attester", label: "Attester", placeholder: "Enter attester address (0x...)" },
+  { id: "schema", label: "Schema UID", placeholder: "Enter Schema UID (0x...)" },
+  { id: "offchain", label: "Offchain", placeholder: "Paste an offchain attestation link or JSON" },
+]
+
 /** === Helpers === */
+// Offchain attestations are only as trustworthy as their signature and signing domain
+type ResultStatus = AttestationStatus | "Invalid signature" | "Unverified"
+
+const STATUS_COLORS: Record<ResultStatus, string> = {
+  Valid: "text-green-600",
+  Revoked: "text-red-600",
+  Expired: "text-yellow-600",
+  "Invalid signature": "text-red-600",
+  Unverified: "text-yellow-600",
+}
+
+/** Attaches the signature check; "Valid" is never shown for a payload that failed it. */
+const withOffchainVerification = (result: AttestationResult, verification: OffchainVerification): AttestationResult => {
+  let status = result.status
+  if (!verification.signatureValid) status = "Invalid signature"
+  else if (!verification.network || !verification.isKnownContract) status = "Unverified"
+  return { ...result, status, offchain: verification }
+}
+
 const safeGetAddress = (addr?: string) => {
   try {
     if (!addr) return addr ?? ""
@@ -77,13 +126,15 @@ const formatTimestamp = (maybeTs: bigint | number | string) => {
   }
 }
 
-const toDisplayValue = (v: any) => {
+const jsonReplacer = (_key: string, v: unknown) => (typeof v === "bigint" ? v.toString() : v)
+
+const toDisplayValue = (v: unknown) => {
   if (v === null || typeof v === "undefined") return String(v)
   if (typeof v === "bigint") return v.toString()
   if (typeof v === "object") {
-    if ("toString" in v && typeof v.toString === "function") return v.toString()
+    // arrays and tuples render as JSON; the default toString would flatten or hide them
     try {
-      return JSON.stringify(v)
+      return JSON.stringify(v, jsonReplacer)
     } catch {
       return String(v)
     }
@@ -91,43 +142,6 @@ const toDisplayValue = (v: any) => {
   return String(v)
 }
 
-/** Try to extract a readable schema string from whatever SchemaRegistry.getSchema returned.
- * The SDK sometimes returns an object with `.schema`, other times a Result array (proxy)
- * where the schema string is at an index (commonly index 3). We search for the first
- * reasonably long string value in the result.
- */
-const extractSchemaString = (schemaRecord: any): string => {
-  if (!schemaRecord) return ""
-  try {
-    if (typeof schemaRecord === "string") return schemaRecord
-    if (typeof schemaRecord === "object") {
-      if ("schema" in schemaRecord && typeof schemaRecord.schema === "string") {
-        return schemaRecord.schema
-      }
-      // If it's a proxy/Result object (array-like)
-      // convert values and find the first long-ish string
-      const candidateStrings: string[] = []
-      for (const k of Object.keys(schemaRecord)) {
-        const v = (schemaRecord as any)[k]
-        if (typeof v === "string" && v.length > 8) candidateStrings.push(v)
-        // also check numeric-indexed keys
-        if (!isNaN(Number(k))) {
-          const vv = (schemaRecord as any)[Number(k)]
-          if (typeof vv === "string" && vv.length > 8) candidateStrings.push(vv)
-        }
-      }
-      // prefer a string containing '(' or 'uint' or 'string' (likely schema)
-      const best = candidateStrings.find((s) => /uint|int|string|bytes|\(|,/.test(s))
-      if (best) return best
-      // fallback to first candidate
-      return candidateStrings[0] ?? ""
-    }
-  } catch (err) {
-    console.warn("extractSchemaString error", err)
-  }
-  return ""
-}
-
 /** Safe decode wrapper: attempts decode only if schemaString and data look valid.
  * If decode fails, throw a clear error for the UI to show fallback info.
  */
@@ -139,51 +153,115 @@ const safeDecodeWithSchema = (schemaString: string, dataHex: string) => {
     throw new Error("Empty or missing data hex.")
   }
 
-  const encoder = new SchemaEncoder(schemaString)
-  // encoder.decodeData may throw (BUFFER_OVERRUN) if schema doesn't match data
-  const decoded = encoder.decodeData(dataHex)
-  // expected array of {name, value}
-  if (!Array.isArray(decoded)) {
-    // some encoders might return object — unify to object
-    return typeof decoded === "object" ? decoded : {}
-  }
-  const out: Record<string, any> = {}
-  decoded.forEach((d: any, i: number) => {
-    const name = d?.name ?? `field_${i}`
-    out[name] = toDisplayValue(d?.value)
+  // decodeSchemaData throws (BUFFER_OVERRUN) if schema doesn't match data
+  const decoded = decodeSchemaData(schemaString, dataHex)
+  const out: Record<string, DecodedValue> = {}
+  decoded.forEach((d) => {
+    out[d.name] = d.value
   })
   return out
 }
 
+/** Normalized, JSON-safe copy of every attestation field for the snapshot view. */
+const buildSnapshot = (attestation: EASAttestation): Record<string, unknown> => ({
+  uid: String(attestation.uid ?? ""),
+  schema: String(attestation.schema ?? ""),
+  refUID: String(attestation.refUID ?? ""),
+  recipient: String(attestation.recipient ?? ""),
+  attester: String(attestation.attester ?? ""),
+  time: attestation.time?.toString() ?? null,
+  expirationTime: attestation.expirationTime?.toString() ?? null,
+  revocationTime: attestation.revocationTime?.toString() ?? null,
+  revocable: attestation.revocable ?? null,
+  data: attestation.data ?? null,
+})
+
+const toAttestationResult = (
+  attestation: EASAttestation,
+  schemaString: string,
+  decodedData: Record<string, DecodedValue>,
+  decodeError?: string
+): AttestationResult => {
+  const { status, revokedAt, expiresAt } = evaluateAttestationStatus(attestation)
+  return {
+    uid: String(attestation.uid ?? ""),
+    schemaUID: String(attestation.schema ?? ""),
+    schema: schemaString || "",
+    recipient: safeGetAddress(attestation.recipient as string),
+    attester: safeGetAddress(attestation.attester as string),
+    decodedData,
+    rawDataHex: attestation.data ?? "0x",
+    issuedOn: formatTimestamp(attestation.time ?? 0),
+    status,
+    revokedOn: revokedAt ? formatTimestamp(revokedAt) : undefined,
+    revoker: revokedAt ? safeGetAddress(attestation.attester as string) : undefined,
+    expiresOn: expiresAt ? formatTimestamp(expiresAt) : "Never",
+    decodeError,
+    _attestationSnapshot: buildSnapshot(attestation),
+  }
+}
+
+/** Decodes against an already known schema string; decode failures become a fallback result. */
+const buildDecodedResult = (attestation: EASAttestation, schemaString: string): AttestationResult => {
+  // Try decode safely; on failure the card falls back to raw hex + snapshot
+  let decodedData: Record<string, DecodedValue> = {}
+  let decodeError: string | undefined
+  try {
+    decodedData = safeDecodeWithSchema(schemaString, attestation.data)
+  } catch (err) {
+    console.warn("Attestation decoding error:", err)
+    decodeError = classifyError(err).message
+  }
+
+  return toAttestationResult(attestation, schemaString, decodedData, decodeError)
+}
+
 /** === Component === */
-export default function VerifyModal({ onClose }: VerifyModalProps) {
-  const { provider, address, isWrongNetwork } = useWallet()
-  const [searchInput, setSearchInput] = useState("")
+export default function VerifyModal({ onClose, initialQuery, initialMode = "uid" }: VerifyModalProps) {
+  // Verification only reads, so it runs on the read-only provider and never needs a wallet
+  const { readProvider, network } = useWallet()
+  const [searchInput, setSearchInput] = useState(initialQuery ?? "")
   const [results, setResults] = useState<AttestationResult[] | null>(null)
   const [isLoading, setIsLoading] = useState(false)
-  const [errorMessage, setErrorMessage] = useState<string | null>(null)
-
-  const isReadyToSearch = !!provider && !isWrongNetwork
+  // Classified failures; plain strings for lookups that found nothing
+  const [error, setError] = useState<AppError | string | null>(null)
+
+  // Indexer search options
+  const [searchMode, setSearchMode] = useState<SearchMode>(initialMode)
+  const [sortOrder, setSortOrder] = useState<"desc" | "asc">("desc")
+  const [excludeRevoked, setExcludeRevoked] = useState(false)
+  const [excludeExpired, setExcludeExpired] = useState(false)
+  // Last indexer query, kept so paging doesn't pick up edits to the inputs
+  const [indexerQuery, setIndexerQuery] = useState<AttestationSearchParams | null>(null)
+  const [hasMore, setHasMore] = useState(false)
+
+  const resultSchemaUIDs = useMemo(() => (results ?? []).map((r) => r.schemaUID), [results])
+  const { names: schemaNames } = useSchemaNames(resultSchemaUIDs)
+
+  const isOffchain = searchMode === "offchain"
+  const isIndexerSearch = searchMode !== "uid" && !isOffchain
+  const isReadyToSearch = isOffchain || (isIndexerSearch ? canSearchAttestations(network) : hasContracts(network))
+  const activeMode = SEARCH_MODES.find((m) => m.id === searchMode) ?? SEARCH_MODES[0]
 
   const decodeAttestation = async (
     attestation: EASAttestation,
-    provider: BrowserProvider | ethers.Provider
+    provider: ethers.Provider,
+    target: NetworkConfig = network
   ): Promise<AttestationResult> => {
     if (!attestation) throw new Error("Attestation object empty")
 
     // SchemaRegistry init
-    const schemaRegistry = new SchemaRegistry(SCHEMAREGISTRY_ADDRESS)
+    const schemaRegistry = new SchemaRegistry(target.schemaRegistryAddress)
     try {
-      schemaRegistry.connect(provider as unknown as ethers.Provider)
+      schemaRegistry.connect(provider)
     } catch (err) {
       console.warn("SchemaRegistry connect warning:", err)
     }
 
     // Attempt to fetch schema record
-    let schemaRecord: any = null
     let schemaString = ""
     try {
-      schemaRecord = await schemaRegistry.getSchema({ uid: attestation.schema })
+      const schemaRecord = await schemaRegistry.getSchema({ uid: attestation.schema })
       console.debug("schemaRecord", schemaRecord)
       schemaString = extractSchemaString(schemaRecord)
       console.debug("schemaString", schemaString)
@@ -192,158 +270,184 @@ export default function VerifyModal({ onClose }: VerifyModalProps) {
       // we'll continue — if no schema we show fallback info
     }
 
-    // Try decode safely, with clear error messages on failure
-    let decodedData: Record<string, any> = {}
-  
+    return buildDecodedResult(attestation, schemaString)
+  }
 
-    // determine status
-    let status: AttestationResult["status"] = "Valid"
+  const runIndexerSearch = async (params: AttestationSearchParams) => {
+    setError(null)
+    if (!canSearchAttestations(network)) {
+      setError(`Neither a RAS indexer nor EAS contracts are configured for ${network.name}.`)
+      return
+    }
+
+    setIsLoading(true)
     try {
-      const rev = (attestation as any).revocationTime
-      if (rev && rev !== 0 && String(rev) !== "0") status = "Revoked"
-    } catch {
-      // ignore
+      // Without a RAS indexer this syncs and searches the local event index
+      const page = await searchNetworkAttestations(network, readProvider, params)
+      setIndexerQuery(params)
+      setHasMore(page.hasMore)
+      setResults(page.attestations.map((a: IndexedAttestation) => buildDecodedResult(a, a.schemaDefinition)))
+    } catch (err) {
+      console.error("Indexer search error:", err)
+      setResults(null)
+      setError(classifyError(err))
+    } finally {
+      setIsLoading(false)
     }
+  }
 
-    const issuedOn = formatTimestamp((attestation as any).time ?? 0)
-
-    return {
-      uid: String(attestation.uid ?? ""),
-      schema: schemaString || "",
-      recipient: safeGetAddress(attestation.recipient as string),
-      attester: safeGetAddress(attestation.attester as string),
-      decodedData,
-      rawDataHex: attestation.data,
-      issuedOn,
-      status,
-      _attestationSnapshot: {
-        // include a small normalized snapshot for debugging fallback display
-        uid: String(attestation.uid ?? ""),
-        recipient: String(attestation.recipient ?? ""),
-        attester: String(attestation.attester ?? ""),
-        time: (attestation as any).time ?? null,
-        revocationTime: (attestation as any).revocationTime ?? null,
-        data: attestation.data ?? null,
-      },
+  // Signature and signer are checked locally; the wallet is only used to load the schema for decoding
+  const verifyOffchain = async (input: string) => {
+    let pkg
+    try {
+      pkg = parseOffchainInput(input)
+    } catch (err) {
+      setError(classifyError(err))
+      return
     }
+
+    setIsLoading(true)
+    try {
+      const { sig } = pkg
+      const verification = verifyOffchainPackage(pkg)
+      const attestation = {
+        uid: sig.uid,
+        schema: sig.message.schema,
+        refUID: sig.message.refUID,
+        time: sig.message.time,
+        expirationTime: sig.message.expirationTime,
+        revocationTime: BigInt(0),
+        recipient: sig.message.recipient,
+        attester: pkg.signer,
+        revocable: sig.message.revocable,
+        data: sig.message.data,
+      } as EASAttestation
+
+      // Read from the network the attestation was signed for, whichever one is selected
+      const signingNetwork = verification.network
+      if (signingNetwork && hasContracts(signingNetwork)) {
+        const signingProvider = signingNetwork.chainId === network.chainId ? readProvider : getReadProvider(signingNetwork)
+        // Offchain revocations are timestamps the attester records on the EAS contract
+        try {
+          const eas = new EAS(signingNetwork.easAddress)
+          eas.connect(signingProvider)
+          attestation.revocationTime = await eas.getRevocationOffchain(pkg.signer, sig.uid)
+        } catch (err) {
+          console.warn("Offchain revocation lookup failed:", err)
+        }
+        setResults([withOffchainVerification(await decodeAttestation(attestation, signingProvider, signingNetwork), verification)])
+        return
+      }
+
+      const result = buildDecodedResult(attestation, "")
+      result.decodeError = "The attestation was signed on a network this app doesn't support, so its schema can't be loaded."
+      setResults([withOffchainVerification(result, verification)])
+    } catch (err) {
+      console.error("Offchain verification error:", err)
+      setError(classifyError(err))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleOffchainFile = async (file: File | undefined) => {
+    if (!file) return
+    const text = await file.text()
+    setSearchInput(text)
+    setResults(null)
+    setError(null)
+    await verifyOffchain(text)
   }
 
   const handleSearch = async () => {
     const query = searchInput.trim()
-    setErrorMessage(null)
+    setError(null)
     setResults(null)
+    setIndexerQuery(null)
+    setHasMore(false)
+
+    if (isOffchain) {
+      await verifyOffchain(query)
+      return
+    }
+
+    if (isIndexerSearch) {
+      if (!query) {
+        setError(`Please enter a ${activeMode.label.toLowerCase()}.`)
+        return
+      }
+      await runIndexerSearch({
+        field: searchMode,
+        value: query,
+        page: 0,
+        sort: sortOrder,
+        excludeRevoked,
+        excludeExpired,
+      })
+      return
+    }
+
     if (!query) {
-      setErrorMessage("Please enter an Attestation UID (0x...)")
+      setError("Please enter an Attestation UID (0x...)")
       return
     }
     if (!query.startsWith("0x") || query.length !== 66) {
-      setErrorMessage("Enter a valid 66-character Attestation UID starting with 0x.")
+      setError("Enter a valid 66-character Attestation UID starting with 0x.")
       return
     }
-    if (!isReadyToSearch || !provider) {
-      setErrorMessage("Connect wallet and ensure Rootstock Testnet is selected.")
+    if (!isReadyToSearch) {
+      setError(`EAS contracts are not configured for ${network.name}.`)
       return
     }
 
     setIsLoading(true)
     try {
-      const eas = new EAS(EASContractAddress)
-      eas.connect(provider as unknown as ethers.Provider)
+      const eas = new EAS(network.easAddress)
+      eas.connect(readProvider)
 
       const attestation = await eas.getAttestation(query)
       console.debug("raw attestation", attestation)
 
       if (!attestation || (attestation as any).recipient === undefined) {
-        setErrorMessage("No attestation returned for this UID.")
+        setError("No attestation returned for this UID.")
         return
       }
 
       // Check ZERO_ADDRESS for recipient
       if ((attestation as any).recipient === ZERO_ADDRESS) {
-        setErrorMessage(`No attestation found with UID: ${query}`)
-        return
-      }
-
-      // If data is missing early, show fallback
-      if (!attestation.data || attestation.data === "0x") {
-        // show a helpful message: attestation exists but no payload
-        const snapshot: AttestationResult = {
-          uid: String(attestation.uid ?? ""),
-          schema: "",
-          recipient: safeGetAddress(attestation.recipient as string),
-          attester: safeGetAddress(attestation.attester as string),
-          decodedData: {},
-          rawDataHex: attestation.data ?? "0x",
-          issuedOn: formatTimestamp((attestation as any).time ?? 0),
-          status: (attestation as any).revocationTime && (attestation as any).revocationTime !== 0 ? "Revoked" : "Valid",
-          _attestationSnapshot: {
-            uid: String(attestation.uid ?? ""),
-            recipient: String(attestation.recipient ?? ""),
-            attester: String(attestation.attester ?? ""),
-            time: (attestation as any).time ?? null,
-            revocationTime: (attestation as any).revocationTime ?? null,
-            data: attestation.data ?? null,
-          },
-        }
-        setResults([snapshot])
-        setErrorMessage("Attestation contains no data payload — shown the attestation snapshot.")
+        setError(`No attestation found with UID: ${query}`)
         return
       }
 
-      // Try decode + fallback on specific decoding errors
-      try {
-        const formatted = await decodeAttestation(attestation as EASAttestation, provider)
-        setResults([formatted])
-      } catch (err: any) {
-        console.error("Attestation decoding error:", err)
-        // Provide useful fallback to user: show raw hex + schema string (if available)
-        const rawHex = (attestation as any).data ?? "0x"
-        // attempt to obtain schema string for display (non-throwing)
-        let schemaString = ""
-        try {
-          const schemaRegistry = new SchemaRegistry(SCHEMAREGISTRY_ADDRESS)
-          schemaRegistry.connect(provider as unknown as ethers.Provider)
-          const schemaRecord = await schemaRegistry.getSchema({ uid: (attestation as any).schema })
-          schemaString = extractSchemaString(schemaRecord)
-        } catch (fetchErr) {
-          console.warn("schema fetch fallback failed", fetchErr)
-        }
-
-        const fallback: AttestationResult = {
-          uid: String(attestation.uid ?? query),
-          schema: schemaString || "",
-          recipient: safeGetAddress(attestation.recipient as string),
-          attester: safeGetAddress(attestation.attester as string),
-          decodedData: {}, // no decoded fields
-          rawDataHex: rawHex,
-          issuedOn: formatTimestamp((attestation as any).time ?? 0),
-          status: (attestation as any).revocationTime && (attestation as any).revocationTime !== 0 ? "Revoked" : "Valid",
-          _attestationSnapshot: {
-            uid: String(attestation.uid ?? ""),
-            recipient: String(attestation.recipient ?? ""),
-            attester: String(attestation.attester ?? ""),
-            time: (attestation as any).time ?? null,
-            revocationTime: (attestation as any).revocationTime ?? null,
-            data: rawHex,
-          },
-        }
+      const formatted = await decodeAttestation(attestation as EASAttestation, readProvider)
+      setResults([formatted])
 
-        // user-friendly error plus fallback results
-        setResults([fallback])
+      // show a helpful message: attestation exists but no payload
+      if (!attestation.data || attestation.data === "0x") {
+        setError("Attestation contains no data payload — shown the attestation snapshot.")
       }
-    } catch (err: any) {
+    } catch (err) {
       console.error("Attestation retrieval error:", err)
-      const msg = err?.message ?? String(err)
-      if (msg.includes("BUFFER_OVERRUN") || msg.includes("buffer")) {
-        setErrorMessage("Data corrupted: could not decode the attestation payload.")
-      } else {
-        setErrorMessage(`Verification failed: ${msg.substring(0, 240)}`)
-      }
+      setError(classifyError(err))
     } finally {
       setIsLoading(false)
     }
   }
 
+  // Latest handleSearch, so the deep-link effect below doesn't rerun on every render
+  const handleSearchRef = useRef(handleSearch)
+  useEffect(() => {
+    handleSearchRef.current = handleSearch
+  })
+
+  // Run a deep-linked lookup once, as soon as the chain can be read
+  const autoSearchedRef = useRef(false)
+  useEffect(() => {
+    if (!initialQuery || autoSearchedRef.current || !isReadyToSearch) return
+    autoSearchedRef.current = true
+    handleSearchRef.current()
+  }, [initialQuery, isReadyToSearch])
+
   return (
     <>
       {/* Backdrop */}
@@ -362,7 +466,7 @@ export default function VerifyModal({ onClose }: VerifyModalProps) {
           <div className="sticky top-0 border-b border-border px-6 py-4 bg-background flex items-center justify-between">
             <div>
               <h2 className="text-2xl font-bold">Verify Attestation</h2>
-              <p className="text-sm text-muted-foreground mt-1">Retrieve and confirm attestation data from Rootstock.</p>
+              <p className="text-sm text-muted-foreground mt-1">Retrieve and confirm attestation data from {network.name}.</p>
             </div>
             <button
               onClick={onClose}
@@ -374,21 +478,73 @@ export default function VerifyModal({ onClose }: VerifyModalProps) {
 
           {/* Content */}
           <div className="px-6 py-8 space-y-6">
-            {!address ? (
+            {!isIndexerSearch && !isOffchain && !hasContracts(network) && (
               <div className="p-4 bg-yellow-100 text-yellow-800 border border-yellow-300 rounded-md text-center">
-                Connect your wallet to enable verification on Rootstock Testnet.
+                EAS contracts are not configured for {network.name}. Set its contract addresses to verify by UID.
               </div>
-            ) : isWrongNetwork ? (
-              <div className="p-4 bg-red-100 text-red-800 border border-red-300 rounded-md text-center">
-                Please switch to <strong>Rootstock Testnet</strong> (Chain ID 31) to search.
+            )}
+
+            {/* Search Mode */}
+            <div className="flex flex-wrap gap-2">
+              {SEARCH_MODES.map((mode) => (
+                <button
+                  key={mode.id}
+                  onClick={() => {
+                    setSearchMode(mode.id)
+                    setError(null)
+                  }}
+                  className={`px-3 py-1.5 rounded-md border text-sm font-medium transition-colors ${
+                    searchMode === mode.id
+                      ? "bg-primary text-primary-foreground border-primary"
+                      : "border-border hover:bg-secondary"
+                  }`}
+                >
+                  {mode.label}
+                </button>
+              ))}
+            </div>
+
+            {isIndexerSearch && (
+              <div className="flex flex-wrap items-center gap-4 text-sm">
+                <select
+                  value={sortOrder}
+                  onChange={(e) => setSortOrder(e.target.value as "desc" | "asc")}
+                  className="px-3 py-1.5 rounded-md border border-border bg-card text-card-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  <option value="desc">Newest first</option>
+                  <option value="asc">Oldest first</option>
+                </select>
+                <label className="inline-flex items-center gap-2">
+                  <input type="checkbox" checked={excludeRevoked} onChange={(e) => setExcludeRevoked(e.target.checked)} />
+                  Hide revoked
+                </label>
+                <label className="inline-flex items-center gap-2">
+                  <input type="checkbox" checked={excludeExpired} onChange={(e) => setExcludeExpired(e.target.checked)} />
+                  Hide expired
+                </label>
+                {!network.indexerUrl &&
+                  (canSearchAttestations(network) ? (
+                    <span className="text-muted-foreground">Searching events indexed in this browser.</span>
+                  ) : (
+                    <span className="text-red-600">No indexer configured for {network.name}.</span>
+                  ))}
               </div>
-            ) : null}
+            )}
+
+            {isOffchain && (
+              <input
+                type="file"
+                accept=".json,application/json"
+                onChange={(e) => handleOffchainFile(e.target.files?.[0])}
+                className="block w-full text-sm text-muted-foreground file:mr-4 file:px-4 file:py-2 file:rounded-md file:border file:border-border file:bg-card file:text-card-foreground"
+              />
+            )}
 
             {/* Search */}
             <div className="flex gap-3">
               <input
                 type="text"
-                placeholder="Enter Attestation UID (e.g., 0x...)"
+                placeholder={activeMode.placeholder}
                 value={searchInput}
                 onChange={(e) => setSearchInput(e.target.value)}
                 onKeyDown={(e) => e.key === "Enter" && handleSearch()}
@@ -404,23 +560,19 @@ export default function VerifyModal({ onClose }: VerifyModalProps) {
                 {isLoading ? (
                   <div className="animate-spin inline-block w-4 h-4 border-2 border-current border-t-transparent rounded-full" />
                 ) : (
-                  "Verify UID"
+                  isIndexerSearch ? "Search" : isOffchain ? "Verify" : "Verify UID"
                 )}
               </button>
             </div>
 
             {/* Error */}
-            {errorMessage && (
-              <div className="p-4 bg-red-100 text-red-800 border border-red-300 rounded-md text-center">
-                {errorMessage}
-              </div>
-            )}
+            {error && <ErrorNotice error={error} className="text-center" />}
 
             {/* Results */}
             <div className="space-y-4">
-              {!results && !isLoading && !errorMessage && (
+              {!results && !isLoading && !error && (
                 <div className="text-center py-8 text-muted-foreground">
-                  <p>Search by Attestation UID to verify a claim.</p>
+                  <p>Search by Attestation UID, recipient, attester or schema, or paste an offchain attestation to verify a claim.</p>
                 </div>
               )}
 
@@ -431,21 +583,64 @@ export default function VerifyModal({ onClose }: VerifyModalProps) {
                       key={idx}
                       className="p-6 rounded-md border border-border bg-card hover:shadow-md transition-all duration-300"
                     >
+                      {result.offchain && (
+                        <div
+                          className={`mb-4 p-3 rounded-md border text-sm ${
+                            result.offchain.signatureValid
+                              ? "bg-green-50/20 border-green-300"
+                              : "bg-red-100 text-red-800 border-red-300"
+                          }`}
+                        >
+                          <p className="font-bold">
+                            {result.offchain.signatureValid ? "✓ Valid offchain signature" : "✗ Invalid offchain signature"}
+                          </p>
+                          <p className="text-xs mt-1">
+                            Signed by <span className="font-mono">{result.offchain.signer}</span>
+                            {result.offchain.network ? ` for ${result.offchain.network.name}` : " for an unsupported chain"}
+                          </p>
+                          {result.offchain.network && !result.offchain.isKnownContract && (
+                            <p className="text-xs mt-1 text-yellow-600">
+                              The signing domain does not use the {result.offchain.network.shortName} EAS contract.
+                            </p>
+                          )}
+                          {result.offchain.error && <p className="text-xs mt-1">{result.offchain.error.substring(0, 150)}</p>}
+                          <p className="text-xs text-muted-foreground mt-1 font-mono break-all">UID {result.uid}</p>
+                        </div>
+                      )}
                       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                         <div>
                           <p className="text-xs text-muted-foreground mb-1">Status</p>
-                          <p className={`font-bold ${result.status === "Valid" ? "text-green-600" : "text-red-600"}`}>
+                          <p className={`font-bold ${STATUS_COLORS[result.status]}`}>
                             {result.status}
                           </p>
+                          {result.status === "Revoked" && result.revokedOn && (
+                            <p className="text-xs text-muted-foreground mt-1">
+                              Revoked on {result.revokedOn}
+                              {result.revoker && <> by <span className="font-mono">{formatAddress(result.revoker)}</span></>}
+                            </p>
+                          )}
+                          {result.status === "Expired" && (
+                            <p className="text-xs text-muted-foreground mt-1">Expired on {result.expiresOn}</p>
+                          )}
+                          {result.status === "Invalid signature" && (
+                            <p className="text-xs text-muted-foreground mt-1">The signature does not match the attestation, so its contents can&apos;t be trusted.</p>
+                          )}
+                          {result.status === "Unverified" && (
+                            <p className="text-xs text-muted-foreground mt-1">Signed for a contract or chain this app doesn&apos;t recognize.</p>
+                          )}
                         </div>
 
                         <div>
                           <p className="text-xs text-muted-foreground mb-1">Issued On</p>
                           <p className="font-medium text-sm">{result.issuedOn}</p>
+                          <p className="text-xs text-muted-foreground mt-1">Expires: {result.expiresOn}</p>
                         </div>
 
                         <div className="md:col-span-2 lg:col-span-1">
-                          <p className="text-xs text-muted-foreground mb-1">Schema Definition</p>
+                          <p className="text-xs text-muted-foreground mb-1">Schema</p>
+                          {schemaNames[result.schemaUID.toLowerCase()] && (
+                            <p className="font-medium text-sm">{schemaNames[result.schemaUID.toLowerCase()].name}</p>
+                          )}
                           <p className="text-sm font-mono break-all text-primary">{result.schema || "—"}</p>
                         </div>
                       </div>
@@ -467,7 +662,9 @@ export default function VerifyModal({ onClose }: VerifyModalProps) {
 
                         {Object.keys(result.decodedData).length === 0 ? (
                           <>
-                            <div className="text-sm text-muted-foreground mb-2">No decoded fields available.</div>
+                            <div className="text-sm text-muted-foreground mb-2">
+                              No decoded fields available.{result.decodeError && ` ${result.decodeError}`}
+                            </div>
 
                             <div className="p-3 bg-secondary rounded-md">
                               <p className="text-xs text-muted-foreground mb-1">Raw Data (hex)</p>
@@ -477,8 +674,8 @@ export default function VerifyModal({ onClose }: VerifyModalProps) {
                             {/* Attestation snapshot for debugging */}
                             <div className="mt-3 p-3 bg-secondary/80 rounded-md">
                               <p className="text-xs text-muted-foreground mb-1 font-bold">Attestation Snapshot</p>
-                              <pre className="text-sm font-mono break-all max-h-40 overflow-auto">
-                              
+                              <pre className="text-sm font-mono whitespace-pre-wrap break-all max-h-40 overflow-auto">
+                                {JSON.stringify(result._attestationSnapshot ?? {}, jsonReplacer, 2)}
                               </pre>
                             </div>
                           </>
@@ -486,22 +683,35 @@ export default function VerifyModal({ onClose }: VerifyModalProps) {
                           <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
                             {Object.entries(result.decodedData).map(([k, v]) => (
                               <div key={k} className="p-3 bg-secondary rounded-md">
-                                <p className="text-xs text-muted-foreground capitalize">{k}</p>
-                                <p className="font-medium text-sm break-all">{toDisplayValue(v)}</p>
+                                <p
+                                  className="text-xs text-muted-foreground capitalize"
+                                  title={schemaNames[result.schemaUID.toLowerCase()]?.fieldDocs[k]}
+                                >
+                                  {k}
+                                </p>
+                                {typeof v === "object" ? (
+                                  <pre className="font-mono text-xs whitespace-pre-wrap break-all max-h-40 overflow-auto">
+                                    {JSON.stringify(v, jsonReplacer, 2)}
+                                  </pre>
+                                ) : (
+                                  <p className="font-medium text-sm break-all">{toDisplayValue(v)}</p>
+                                )}
                               </div>
                             ))}
                           </div>
                         )}
                       </div>
 
-                      <a
-                        href={`https://explorer.testnet.rsk.co/ras/attestation/${result.uid}`}
-                        target="_blank"
-                        rel="noreferrer"
-                        className="text-primary text-sm hover:underline block pt-4 text-right"
-                      >
-                        View Full Record on RSK Explorer
-                      </a>
+                      {!result.offchain && getExplorerUrl(network, "attestation", result.uid) && (
+                        <a
+                          href={getExplorerUrl(network, "attestation", result.uid)!}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="text-primary text-sm hover:underline block pt-4 text-right"
+                        >
+                          View Full Record on {network.shortName} Explorer
+                        </a>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -512,6 +722,27 @@ export default function VerifyModal({ onClose }: VerifyModalProps) {
                   <p>No attestations found for the given query.</p>
                 </div>
               )}
+
+              {/* Pagination (indexer searches only) */}
+              {indexerQuery && (hasMore || (indexerQuery.page ?? 0) > 0) && (
+                <div className="flex items-center justify-between pt-2">
+                  <button
+                    onClick={() => runIndexerSearch({ ...indexerQuery, page: (indexerQuery.page ?? 0) - 1 })}
+                    disabled={isLoading || (indexerQuery.page ?? 0) === 0}
+                    className="px-4 py-2 rounded-md border border-border text-sm font-medium hover:bg-secondary transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    ← Previous
+                  </button>
+                  <span className="text-sm text-muted-foreground">Page {(indexerQuery.page ?? 0) + 1}</span>
+                  <button
+                    onClick={() => runIndexerSearch({ ...indexerQuery, page: (indexerQuery.page ?? 0) + 1 })}
+                    disabled={isLoading || !hasMore}
+                    className="px-4 py-2 rounded-md border border-border text-sm font-medium hover:bg-secondary transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Next →
+                  </button>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,48 @@
+// SPDX-License-Identifier: MIT
+pragma solidity >=0.7.3 <0.9.0;
+pragma experimental ABIEncoderV2;
+
+import "./RasSchemaResolver.sol";
+
+/// @title AttesterAllowlistResolver
+/// @notice Only attesters approved by the owner can attest, e.g. approved lenders
+/// issuing repayment records. Revocations are always allowed.
+contract AttesterAllowlistResolver is RasSchemaResolver {
+    address public owner;
+    mapping(address => bool) public isAllowed;
+
+    event AttesterUpdated(address indexed attester, bool allowed);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+
+    constructor(address easAddress, address[] memory attesters) RasSchemaResolver(easAddress) {
+        owner = msg.sender;
+        for (uint256 i = 0; i < attesters.length; i++) {
+            isAllowed[attesters[i]] = true;
+            emit AttesterUpdated(attesters[i], true);
+        }
+    }
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "RAS: only owner");
+        _;
+    }
+
+    function setAttester(address attester, bool allowed) external onlyOwner {
+        isAllowed[attester] = allowed;
+        emit AttesterUpdated(attester, allowed);
+    }
+
+    function transferOwnership(address newOwner) external onlyOwner {
+        require(newOwner != address(0), "RAS: invalid owner");
+        emit OwnershipTransferred(owner, newOwner);
+        owner = newOwner;
+    }
+
+    function onAttest(Attestation calldata attestation, uint256) internal view override returns (bool) {
+        return isAllowed[attestation.attester];
+    }
+
+    function onRevoke(Attestation calldata, uint256) internal pure override returns (bool) {
+        return true;
+    }
+}
@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: MIT
+pragma solidity >=0.7.3 <0.9.0;
+pragma experimental ABIEncoderV2;
+
+import "./RasSchemaResolver.sol";
+
+/// @title PaymentRequiredResolver
+/// @notice Each attestation must send at least `fee` wei, which is forwarded to `payee`.
+contract PaymentRequiredResolver is RasSchemaResolver {
+    uint256 public immutable fee;
+    address payable public immutable payee;
+
+    constructor(address easAddress, uint256 attestationFee, address payable feeRecipient)
+        RasSchemaResolver(easAddress)
+    {
+        require(feeRecipient != address(0), "RAS: invalid payee");
+        fee = attestationFee;
+        payee = feeRecipient;
+    }
+
+    function isPayable() public pure override returns (bool) {
+        return true;
+    }
+
+    function onAttest(Attestation calldata, uint256 value) internal override returns (bool) {
+        if (value < fee) {
+            return false;
+        }
+        if (value > 0) {
+            (bool sent, ) = payee.call{ value: value }("");
+            require(sent, "RAS: payment failed");
+        }
+        return true;
+    }
+
+    function onRevoke(Attestation calldata, uint256 value) internal pure override returns (bool) {
+        return value == 0;
+    }
+}
@@ -0,0 +1,95 @@
+// SPDX-License-Identifier: MIT
+pragma solidity >=0.7.3 <0.9.0;
+pragma experimental ABIEncoderV2;
+
+/// @notice Mirrors the Attestation struct in EAS Common.sol so the ABI matches what EAS sends.
+struct Attestation {
+    bytes32 uid;
+    bytes32 schema;
+    uint64 time;
+    uint64 expirationTime;
+    uint64 revocationTime;
+    bytes32 refUID;
+    address recipient;
+    address attester;
+    bool revocable;
+    bytes data;
+}
+
+/// @title RasSchemaResolver
+/// @notice Minimal base implementing the EAS ISchemaResolver interface. Kept free of
+/// 0.8-only syntax (custom errors, address.code) so the templates compile for
+/// Rootstock's pre-Shanghai EVM with the pinned solc (see scripts/compile-resolvers.mjs).
+abstract contract RasSchemaResolver {
+    address public immutable eas;
+
+    constructor(address easAddress) {
+        require(easAddress != address(0), "RAS: invalid EAS");
+        eas = easAddress;
+    }
+
+    modifier onlyEAS() {
+        require(msg.sender == eas, "RAS: only EAS");
+        _;
+    }
+
+    function version() external pure returns (string memory) {
+        return "1.0.0";
+    }
+
+    function isPayable() public pure virtual returns (bool) {
+        return false;
+    }
+
+    receive() external payable virtual {
+        require(isPayable(), "RAS: not payable");
+    }
+
+    function attest(Attestation calldata attestation) external payable onlyEAS returns (bool) {
+        return onAttest(attestation, msg.value);
+    }
+
+    function multiAttest(Attestation[] calldata attestations, uint256[] calldata values)
+        external
+        payable
+        onlyEAS
+        returns (bool)
+    {
+        require(attestations.length == values.length, "RAS: invalid length");
+        uint256 remaining = msg.value;
+        for (uint256 i = 0; i < attestations.length; i++) {
+            require(values[i] <= remaining, "RAS: insufficient value");
+            remaining -= values[i];
+            if (!onAttest(attestations[i], values[i])) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    function revoke(Attestation calldata attestation) external payable onlyEAS returns (bool) {
+        return onRevoke(attestation, msg.value);
+    }
+
+    function multiRevoke(Attestation[] calldata attestations, uint256[] calldata values)
+        external
+        payable
+        onlyEAS
+        returns (bool)
+    {
+        require(attestations.length == values.length, "RAS: invalid length");
+        uint256 remaining = msg.value;
+        for (uint256 i = 0; i < attestations.length; i++) {
+            require(values[i] <= remaining, "RAS: insufficient value");
+            remaining -= values[i];
+            if (!onRevoke(attestations[i], values[i])) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    function onAttest(Attestation calldata attestation, uint256 value) internal virtual returns (bool);
+
+    function onRevoke(Attestation calldata attestation, uint256 value) internal virtual returns (bool);
+}
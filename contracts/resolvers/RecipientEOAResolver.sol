@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: MIT
+pragma solidity >=0.7.3 <0.9.0;
+pragma experimental ABIEncoderV2;
+
+import "./RasSchemaResolver.sol";
+
+/// @title RecipientEOAResolver
+/// @notice Rejects attestations whose recipient is a contract. A contract under
+/// construction has no code yet, so this is a guard against mistakes, not a proof.
+contract RecipientEOAResolver is RasSchemaResolver {
+    constructor(address easAddress) RasSchemaResolver(easAddress) {}
+
+    function onAttest(Attestation calldata attestation, uint256) internal view override returns (bool) {
+        address recipient = attestation.recipient;
+        uint256 size;
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            size := extcodesize(recipient)
+        }
+        return size == 0;
+    }
+
+    function onRevoke(Attestation calldata, uint256) internal pure override returns (bool) {
+        return true;
+    }
+}
@@ -0,0 +1,109 @@
+"use client"
+
+import { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { useWallet } from '@/hooks/useWallet';
+import { hasContracts } from '@/lib/networks';
+import {
+  ACTIVITY_EVENTS,
+  ActivityEntry,
+  ActivityKind,
+  addActivityEntry,
+  buildActivityEntry,
+  findUncanonicalBlocks,
+  REORG_CHECK_DEPTH,
+} from '@/lib/activity';
+
+const ATTESTED_TOPIC = ACTIVITY_EVENTS.getEvent('Attested')!.topicHash;
+const REVOKED_TOPIC = ACTIVITY_EVENTS.getEvent('Revoked')!.topicHash;
+
+/**
+ * Live `Attested` / `Revoked` events from the active network's EAS contract,
+ * newest first. Listens through the wallet provider when it is on the right
+ * chain, otherwise through the read provider, and resubscribes whenever
+ * useWallet swaps either one (connect, disconnect, chain or network change).
+ * Entries whose block is reorged out are removed.
+ */
+export const useActivityFeed = () => {
+  const { provider, readProvider, isWrongNetwork, network } = useWallet();
+  const activeProvider: ethers.Provider = provider && !isWrongNetwork ? provider : readProvider;
+  const canListen = hasContracts(network);
+  // Entries survive a provider swap on the same chain, but not a network change
+  const feedKey = `${network.chainId}:${network.easAddress.toLowerCase()}`;
+
+  const [feed, setFeed] = useState<{ key: string; entries: ActivityEntry[]; error?: string } | null>(null);
+
+  useEffect(() => {
+    if (!canListen) return;
+
+    let cancelled = false;
+    // Blocks of the entries this subscription added, for reorg checks
+    const seen = new Map<string, { blockNumber: number; blockHash: string }>();
+
+    const update = (change: (entries: ActivityEntry[]) => ActivityEntry[]) =>
+      setFeed((prev) => {
+        const entries = prev?.key === feedKey ? prev.entries : [];
+        return { key: feedKey, entries: change(entries) };
+      });
+
+    const dropBlocks = (hashes: Set<string>) => {
+      if (hashes.size === 0) return;
+      for (const [id, block] of seen) {
+        if (hashes.has(block.blockHash)) seen.delete(id);
+      }
+      update((entries) => entries.filter((entry) => !hashes.has(entry.blockHash)));
+    };
+
+    const onLog = async (log: ethers.Log) => {
+      const kind: ActivityKind = log.topics[0] === REVOKED_TOPIC ? 'revoked' : 'attested';
+      try {
+        const entry = await buildActivityEntry(activeProvider, network, kind, log);
+        if (cancelled) return;
+        seen.set(entry.id, { blockNumber: entry.blockNumber, blockHash: entry.blockHash });
+        update((entries) => addActivityEntry(entries, entry));
+      } catch (err) {
+        console.warn('Failed to load attestation for activity feed:', err);
+      }
+    };
+
+    // Re-check recent blocks on every new head; this works for polling and filter subscriptions alike
+    const onBlock = async (blockNumber: number) => {
+      for (const [id, block] of seen) {
+        if (block.blockNumber <= blockNumber - REORG_CHECK_DEPTH) seen.delete(id);
+      }
+      if (seen.size === 0) return;
+      try {
+        const stale = await findUncanonicalBlocks(activeProvider, [...seen.values()], blockNumber);
+        if (!cancelled) dropBlocks(stale);
+      } catch (err) {
+        console.warn('Reorg check failed:', err);
+      }
+    };
+
+    const filter = { address: network.easAddress, topics: [[ATTESTED_TOPIC, REVOKED_TOPIC]] };
+    Promise.all([activeProvider.on(filter, onLog), activeProvider.on('block', onBlock)]).catch((err) => {
+      console.warn('Failed to subscribe to EAS events:', err);
+      if (!cancelled) {
+        setFeed((prev) => ({
+          key: feedKey,
+          entries: prev?.key === feedKey ? prev.entries : [],
+          error: 'Could not subscribe to attestation events on this network.',
+        }));
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      void activeProvider.off(filter, onLog);
+      void activeProvider.off('block', onBlock);
+    };
+  }, [activeProvider, canListen, feedKey, network]);
+
+  const current = feed?.key === feedKey ? feed : null;
+
+  return {
+    entries: current?.entries ?? [],
+    error: current?.error ?? null,
+    isListening: canListen && !current?.error,
+  };
+};
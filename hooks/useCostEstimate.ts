@@ -0,0 +1,47 @@
+"use client"
+
+import { useEffect, useState } from 'react';
+import { CostEstimate } from '@/lib/gas';
+import { AppError, classifyError } from '@/lib/errors';
+
+// Wait for typing to settle before asking the node for an estimate
+const ESTIMATE_DELAY_MS = 500;
+
+/**
+ * Runs `estimate` whenever it changes (callers memoize it over their inputs) and
+ * keeps the result for that estimator only, so edits never show a stale cost.
+ * Pass null while the transaction can't be built yet.
+ */
+export const useCostEstimate = <T extends CostEstimate>(estimate: (() => Promise<T>) | null) => {
+  const [settled, setSettled] = useState<{ estimate: () => Promise<T>; cost?: T; error?: AppError } | null>(null);
+
+  useEffect(() => {
+    if (!estimate) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const cost = await estimate();
+        if (!cancelled) setSettled({ estimate, cost });
+      } catch (err) {
+        console.warn('Cost estimate failed:', err);
+        if (!cancelled) setSettled({ estimate, error: classifyError(err) });
+      }
+    }, ESTIMATE_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [estimate]);
+
+  const current = estimate && settled?.estimate === estimate ? settled : null;
+  const cost = current?.cost ?? null;
+
+  return {
+    cost,
+    error: current?.error ?? null,
+    isEstimating: !!estimate && !current,
+    isUnderfunded: !!cost && cost.shortfall > BigInt(0),
+  };
+};
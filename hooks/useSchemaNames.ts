@@ -0,0 +1,71 @@
+"use client"
+
+import { useEffect, useMemo, useState } from 'react';
+import { ethers } from 'ethers';
+import { useWallet } from '@/hooks/useWallet';
+import { canSearchAttestations, fetchNetworkSchemaMetadata } from '@/lib/local-indexer';
+import { SchemaMetadata } from '@/lib/schema-names';
+
+// chainId:uid -> metadata (null when the schema has no published name), shared by every modal.
+// Only successful lookups are cached; failed ones are retried.
+const metadataCache = new Map<string, SchemaMetadata | null>();
+
+const cacheKey = (chainId: number, uid: string) => `${chainId}:${uid.toLowerCase()}`;
+
+/** Records freshly published metadata so open views show it without another indexer round trip. */
+export const rememberSchemaMetadata = (chainId: number, metadata: SchemaMetadata) => {
+  metadataCache.set(cacheKey(chainId, metadata.uid), metadata);
+};
+
+/**
+ * Resolves published schema names for the active network through the indexer,
+ * or the local event index on networks without one. Returns a map keyed by
+ * lowercase schema UID; schemas without a name are absent.
+ */
+export const useSchemaNames = (schemaUIDs: string[]) => {
+  const { network, readProvider } = useWallet();
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+
+  const uids = useMemo(
+    () =>
+      Array.from(new Set(schemaUIDs.map((uid) => uid.toLowerCase())))
+        .filter((uid) => ethers.isHexString(uid, 32))
+        .sort(),
+    [schemaUIDs]
+  );
+  const requestKey = `${network.chainId}:${uids.join(',')}`;
+  const missing = uids.filter((uid) => !metadataCache.has(cacheKey(network.chainId, uid)));
+  const missingKey = missing.join(',');
+  const canFetch = canSearchAttestations(network) && missing.length > 0;
+
+  useEffect(() => {
+    if (!canFetch) return;
+
+    let cancelled = false;
+    const pending = missingKey.split(',');
+    fetchNetworkSchemaMetadata(network, readProvider, pending)
+      .then((found) => {
+        for (const uid of pending) metadataCache.set(cacheKey(network.chainId, uid), found[uid] ?? null);
+      })
+      .catch((err) => {
+        // Names are cosmetic; fall back to UIDs for now. Nothing is cached, so the
+        // next view that needs these schemas asks again.
+        console.warn('Failed to load schema names:', err);
+      })
+      .then(() => {
+        if (!cancelled) setLoadedKey(requestKey);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [canFetch, missingKey, requestKey, network, readProvider]);
+
+  const names: Record<string, SchemaMetadata> = {};
+  for (const uid of uids) {
+    const metadata = metadataCache.get(cacheKey(network.chainId, uid));
+    if (metadata?.name) names[uid] = metadata;
+  }
+
+  return { names, isLoading: canFetch && loadedKey !== requestKey };
+};
@@ -0,0 +1,251 @@
+"use client"
+
+import { createContext, useContext, useState, useCallback, useEffect, useRef, useSyncExternalStore, ReactNode } from 'react';
+import { TransactionReceipt } from 'ethers';
+import { useWallet } from '@/hooks/useWallet';
+import { getNetwork, getReadProvider } from '@/lib/networks';
+import { AppError, classifyError, formatError } from '@/lib/errors';
+import {
+  TrackedTransaction,
+  TrackedTransactionError,
+  TransactionSender,
+  checkTransactionReceipt,
+  getReplacement,
+  getResultUIDs,
+  loadTransactions,
+  saveTransactions,
+} from '@/lib/transactions';
+
+// Pending transactions restored after a reload are polled at this interval
+const RECEIPT_POLL_INTERVAL_MS = 5000;
+// Errors stay until dismissed; everything else fades out
+const TOAST_DURATION_MS = 6000;
+
+export type ToastTone = 'info' | 'success' | 'warning' | 'error';
+
+export interface Toast {
+  id: number;
+  tone: ToastTone;
+  title: string;
+  message?: string;
+  // Set for transaction toasts, to link the explorer
+  chainId?: number;
+  hash?: string;
+}
+
+interface TransactionState {
+  // Newest first
+  transactions: TrackedTransaction[];
+  toasts: Toast[];
+  // Sends through the connected wallet and tracks the transaction until it settles
+  sendTransaction: TransactionSender;
+  notify: (toast: Omit<Toast, 'id'>) => void;
+  dismissToast: (id: number) => void;
+  clearHistory: () => void;
+}
+
+const TransactionContext = createContext<TransactionState | undefined>(undefined);
+
+const shortUID = (uid: string) => `${uid.slice(0, 10)}...${uid.slice(-6)}`;
+
+// History store, read with useSyncExternalStore: the server render and hydration
+// see an empty history, then the persisted one is loaded on first client read.
+const EMPTY_HISTORY: TrackedTransaction[] = [];
+let history: TrackedTransaction[] | null = null;
+const historyListeners = new Set<() => void>();
+
+const subscribeHistory = (listener: () => void) => {
+  historyListeners.add(listener);
+  return () => {
+    historyListeners.delete(listener);
+  };
+};
+
+const readHistory = (): TrackedTransaction[] => (history ??= loadTransactions());
+
+const updateHistory = (update: (prev: TrackedTransaction[]) => TrackedTransaction[]) => {
+  history = update(readHistory());
+  saveTransactions(history);
+  historyListeners.forEach((listener) => listener());
+};
+
+export const TransactionProvider = ({ children }: { children: ReactNode }) => {
+  const { signer } = useWallet();
+  const transactions = useSyncExternalStore(subscribeHistory, readHistory, () => EMPTY_HISTORY);
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const transactionsRef = useRef<TrackedTransaction[]>([]);
+  // Transactions whose response object is still awaited in this session; the rest are polled
+  const inSession = useRef(new Set<string>());
+  const nextToastId = useRef(0);
+
+  const hasPending = transactions.some((tx) => tx.status === 'pending');
+
+  const updateTransactions = useCallback((update: (prev: TrackedTransaction[]) => TrackedTransaction[]) => {
+    updateHistory(update);
+  }, []);
+
+  const dismissToast = useCallback((id: number) => {
+    setToasts((prev) => prev.filter((t) => t.id !== id));
+  }, []);
+
+  const notify = useCallback((toast: Omit<Toast, 'id'>) => {
+    const id = ++nextToastId.current;
+    setToasts((prev) => [...prev, { ...toast, id }]);
+    if (toast.tone !== 'error') {
+      setTimeout(() => dismissToast(id), TOAST_DURATION_MS);
+    }
+  }, [dismissToast]);
+
+  // Stores the final state of a transaction and tells the user about it
+  const settleTransaction = useCallback((tx: TrackedTransaction, patch: Partial<TrackedTransaction>) => {
+    const settled = { ...tx, ...patch, updatedAt: Date.now() };
+    updateTransactions((prev) => prev.map((t) => (t.id === tx.id ? settled : t)));
+    inSession.current.delete(tx.id);
+
+    const link = { chainId: settled.chainId, hash: settled.hash };
+    if (settled.status === 'mined') {
+      notify({
+        tone: 'success',
+        title: `${settled.label} confirmed`,
+        message: settled.uids[0] ? `UID ${shortUID(settled.uids[0])}` : undefined,
+        ...link,
+      });
+    } else if (settled.status === 'failed') {
+      notify({ tone: 'error', title: `${settled.label} failed`, message: settled.error, ...link });
+    } else if (settled.status === 'replaced') {
+      notify({
+        tone: 'warning',
+        title: `${settled.label} was replaced`,
+        message: 'The wallet cancelled or replaced this transaction.',
+        ...link,
+      });
+    }
+  }, [updateTransactions, notify]);
+
+  const sendTransaction = useCallback<TransactionSender>(async (request, meta) => {
+    if (!signer) throw new Error('Connect your wallet to send transactions.');
+
+    const response = await signer.sendTransaction(request);
+    const now = Date.now();
+    const tx: TrackedTransaction = {
+      id: response.hash,
+      kind: meta.kind,
+      label: meta.label,
+      chainId: Number(response.chainId),
+      hash: response.hash,
+      from: response.from,
+      nonce: response.nonce,
+      status: 'pending',
+      // Schema registrations know their UID up front; attestations read it from the receipt
+      uids: meta.uid ? [meta.uid] : [],
+      submittedAt: now,
+      updatedAt: now,
+    };
+    inSession.current.add(tx.id);
+    updateTransactions((prev) => [tx, ...prev]);
+    notify({ tone: 'info', title: `${meta.label} submitted`, message: 'Waiting for confirmation...', chainId: tx.chainId, hash: tx.hash });
+
+    let receipt: TransactionReceipt | null;
+    try {
+      receipt = await response.wait();
+    } catch (error) {
+      const replacement = getReplacement(error);
+      if (replacement?.reason === 'repriced') {
+        // Sped up from the wallet: same transaction under a new hash
+        receipt = replacement.receipt;
+        notify({ tone: 'info', title: `${meta.label} was sped up`, chainId: tx.chainId, hash: replacement.hash });
+      } else if (replacement) {
+        settleTransaction(tx, { status: 'replaced' });
+        throw new TrackedTransactionError(
+          new AppError('unknown', `${meta.label} was ${replacement.reason} by transaction ${replacement.hash}.`),
+          tx.hash
+        );
+      } else {
+        const classified = classifyError(error, { gasLimit: response.gasLimit });
+        settleTransaction(tx, { status: 'failed', error: formatError(classified) });
+        throw new TrackedTransactionError(classified, tx.hash);
+      }
+    }
+
+    if (!receipt || receipt.status !== 1) {
+      const reverted = new AppError('revert', 'The transaction was reverted by the contract.');
+      settleTransaction(tx, { status: 'failed', error: formatError(reverted), hash: receipt?.hash ?? tx.hash });
+      throw new TrackedTransactionError(reverted, receipt?.hash ?? tx.hash);
+    }
+
+    const uids = getResultUIDs(receipt, meta);
+    settleTransaction(tx, {
+      status: 'mined',
+      hash: receipt.hash,
+      replacedHash: receipt.hash !== tx.hash ? tx.hash : undefined,
+      uids,
+      contractAddress: receipt.contractAddress ?? undefined,
+    });
+    return { hash: receipt.hash, receipt, uids };
+  }, [signer, updateTransactions, notify, settleTransaction]);
+
+  const clearHistory = useCallback(() => {
+    // Pending transactions stay so their outcome is still reported
+    updateTransactions((prev) => prev.filter((tx) => tx.status === 'pending'));
+  }, [updateTransactions]);
+
+  useEffect(() => {
+    transactionsRef.current = transactions;
+  }, [transactions]);
+
+  // Pick up transactions that were still pending when the page was closed
+  useEffect(() => {
+    if (!hasPending) return;
+
+    let isPolling = false;
+    const poll = async () => {
+      if (isPolling) return;
+      isPolling = true;
+      for (const tx of transactionsRef.current) {
+        if (tx.status !== 'pending' || inSession.current.has(tx.id)) continue;
+        const network = getNetwork(tx.chainId);
+        if (!network) continue;
+        try {
+          const check = await checkTransactionReceipt(getReadProvider(network), tx);
+          if (check.status === 'replaced') {
+            settleTransaction(tx, { status: 'replaced' });
+          } else if (check.status === 'mined') {
+            settleTransaction(tx, {
+              status: 'mined',
+              uids: getResultUIDs(check.receipt, { uid: tx.uids[0] }),
+              contractAddress: check.receipt.contractAddress ?? undefined,
+            });
+          } else if (check.status === 'failed') {
+            settleTransaction(tx, { status: 'failed', error: 'The transaction was reverted by the contract.' });
+          }
+        } catch (error) {
+          console.warn("Receipt polling failed:", error);
+        }
+      }
+      isPolling = false;
+    };
+
+    poll();
+    const timer = setInterval(poll, RECEIPT_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasPending, settleTransaction]);
+
+  const value: TransactionState = {
+    transactions,
+    toasts,
+    sendTransaction,
+    notify,
+    dismissToast,
+    clearHistory,
+  };
+
+  return <TransactionContext.Provider value={value}>{children}</TransactionContext.Provider>;
+};
+
+export const useTransactions = (): TransactionState => {
+  const context = useContext(TransactionContext);
+  if (context === undefined) {
+    throw new Error('useTransactions must be used within a TransactionProvider');
+  }
+  return context;
+};
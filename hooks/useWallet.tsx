@@ -1,184 +1,369 @@
 "use client"
 
-import { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react';
-import { ethers, BrowserProvider, Signer } from 'ethers';
-
-// Rootstock Testnet Configuration (Moved for reusability)
-const RSK_TESTNET = {
-  chainId: '0x1f',
-  chainName: 'Rootstock Testnet',
-  nativeCurrency: { name: 'tRBTC', symbol: 'tRBTC', decimals: 18 },
-  rpcUrls: ['https://public-node.testnet.rsk.co'],
-  blockExplorerUrls: ['https://explorer.testnet.rsk.co'],
+import { createContext, useContext, useState, useCallback, useEffect, useMemo, useRef, useSyncExternalStore, ReactNode } from 'react';
+import { ethers, BrowserProvider, JsonRpcProvider, Signer } from 'ethers';
+import {
+  NETWORKS,
+  NetworkConfig,
+  getDefaultNetwork,
+  getNetwork,
+  getReadProvider,
+  getReadRpcUrl,
+  toAddEthereumChainParams,
+} from '@/lib/networks';
+import {
+  EIP1193Provider,
+  EIP6963ProviderDetail,
+  EIP6963ProviderInfo,
+  discoverWallets,
+  selectWallet,
+} from '@/lib/wallets';
+import { formatError } from '@/lib/errors';
+import { SiweSession, fetchSession, signInWithEthereum, signOut as endServerSession } from '@/lib/siwe';
+
+// Persisted network selection, so a reload keeps the chain the user picked
+const NETWORK_STORAGE_KEY = 'ras:selectedChainId';
+// Persisted wallet choice (EIP-6963 rdns), so a reload reconnects the same wallet
+const WALLET_STORAGE_KEY = 'ras:selectedWallet';
+
+// Network selection store, read with useSyncExternalStore: the server render and
+// hydration use the default network, then the persisted choice takes over.
+// The in-memory value covers browsers where storage is unavailable (private mode).
+let selectedChainId: number | null = null;
+const networkListeners = new Set<() => void>();
+
+const subscribeNetwork = (listener: () => void) => {
+  networkListeners.add(listener);
+  return () => {
+    networkListeners.delete(listener);
+  };
+};
+
+const readSelectedChainId = (): number | null => {
+  if (selectedChainId !== null) return selectedChainId;
+  try {
+    const stored = window.localStorage.getItem(NETWORK_STORAGE_KEY);
+    return stored === null ? null : Number(stored);
+  } catch {
+    return null;
+  }
+};
+
+const writeSelectedChainId = (chainId: number) => {
+  selectedChainId = chainId;
+  try {
+    window.localStorage.setItem(NETWORK_STORAGE_KEY, String(chainId));
+  } catch {
+    // The selection still applies; it just won't survive a reload
+  }
+  networkListeners.forEach((listener) => listener());
+};
+
+const readStoredWallet = (): string | null => {
+  try {
+    return window.localStorage.getItem(WALLET_STORAGE_KEY);
+  } catch {
+    return null;
+  }
 };
-const TARGET_CHAIN_ID = 31;
 
 interface WalletState {
   address: string | null;
+  // Wallet provider, only needed for writes
   provider: BrowserProvider | null;
+  // Read-only provider for the active network; works without a wallet
+  readProvider: JsonRpcProvider;
   signer: Signer | null;
   errorMessage: string | null;
   isWrongNetwork: boolean;
-  connectWallet: () => Promise<void>;
+  // Network the dApp is targeting; every contract address is resolved from it
+  network: NetworkConfig;
+  networks: NetworkConfig[];
+  // Chain the wallet is actually on (null while disconnected)
+  walletChainId: number | null;
+  // Injected wallets discovered through EIP-6963
+  wallets: EIP6963ProviderInfo[];
+  // The connected wallet (null while disconnected)
+  wallet: EIP6963ProviderInfo | null;
+  // The server holds a Sign-In with Ethereum session for the connected address on the active network
+  isAuthenticated: boolean;
+  // Connects the wallet with the given rdns; defaults to the last one used
+  connectWallet: (walletId?: string) => Promise<void>;
   disconnectWallet: () => void;
+  // Signs a login message (EIP-4361) and starts a server session for the connected address
+  signIn: () => Promise<void>;
+  signOut: () => Promise<void>;
   switchNetwork: () => Promise<void>;
+  selectNetwork: (chainId: number) => Promise<void>;
 }
 
 const WalletContext = createContext<WalletState | undefined>(undefined);
 
-export const WalletProvider = ({ children }: { children: ReactNode }) => {
+interface WalletProviderProps {
+  children: ReactNode;
+  // Overrides the read RPC URL of every network (e.g. a local node in tests)
+  readRpcUrl?: string;
+}
+
+export const WalletProvider = ({ children, readRpcUrl }: WalletProviderProps) => {
   const [address, setAddress] = useState<string | null>(null);
   const [provider, setProvider] = useState<BrowserProvider | null>(null);
   const [signer, setSigner] = useState<Signer | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [isWrongNetwork, setIsWrongNetwork] = useState(false);
+  const selectedNetworkId = useSyncExternalStore(subscribeNetwork, readSelectedChainId, () => null);
+  const network = useMemo(() => getNetwork(selectedNetworkId) ?? getDefaultNetwork(), [selectedNetworkId]);
+  const [walletChainId, setWalletChainId] = useState<number | null>(null);
+  const [wallets, setWallets] = useState<EIP6963ProviderDetail[]>([]);
+  const [connected, setConnected] = useState<EIP6963ProviderDetail | null>(null);
+  const [session, setSession] = useState<SiweSession | null>(null);
+  const restoreAttempted = useRef(false);
+
+  const isWrongNetwork = address !== null && walletChainId !== null && walletChainId !== network.chainId;
+  // A session only counts for the account and network it was signed in with
+  const isAuthenticated =
+    !!session &&
+    !!address &&
+    session.address.toLowerCase() === address.toLowerCase() &&
+    session.chainId === network.chainId;
+  const walletInfos = useMemo(() => wallets.map((w) => w.info), [wallets]);
+  const readProvider = useMemo(() => getReadProvider(network, getReadRpcUrl(network, readRpcUrl)), [network, readRpcUrl]);
+
+  const applyNetwork = useCallback((next: NetworkConfig) => {
+    writeSelectedChainId(next.chainId);
+  }, []);
 
+  // Follows the wallet onto any supported chain; flags the rest as unsupported
   const checkNetwork = useCallback(async (p: BrowserProvider) => {
     try {
-      const network = await p.getNetwork();
-      const currentChainId = Number(network.chainId);
-      
-      const isCorrect = currentChainId === TARGET_CHAIN_ID;
-      setIsWrongNetwork(!isCorrect);
-
-      if (!isCorrect) {
-        setErrorMessage(`Please switch to ${RSK_TESTNET.chainName} (Chain ID: ${TARGET_CHAIN_ID})`);
-      } else {
+      const chainInfo = await p.getNetwork();
+      const currentChainId = Number(chainInfo.chainId);
+      setWalletChainId(currentChainId);
+
+      const known = getNetwork(currentChainId);
+      if (known) {
+        applyNetwork(known);
         setErrorMessage(null);
+      } else {
+        const supported = NETWORKS.map((n) => `${n.name} (${n.chainId})`).join(', ');
+        setErrorMessage(`Unsupported network (Chain ID: ${currentChainId}). Please switch to ${supported}.`);
       }
-      return isCorrect;
+      return !!known;
     } catch (error) {
       console.error("Error checking network:", error);
       return false;
     }
-  }, []);
+  }, [applyNetwork]);
+
+  const requestSwitch = useCallback(async (target: NetworkConfig) => {
+    if (!connected) return;
 
-  const switchNetwork = useCallback(async () => {
-    if (!(window as any).ethereum) return;
-    
+    const params = toAddEthereumChainParams(target);
     try {
-      await (window as any).ethereum.request({
+      await connected.provider.request({
         method: 'wallet_switchEthereumChain',
-        params: [{ chainId: RSK_TESTNET.chainId }],
+        params: [{ chainId: params.chainId }],
       });
       // A successful switch will trigger the 'chainChanged' event below
     } catch (switchError: any) {
       if (switchError.code === 4902) {
         try {
-          await (window as any).ethereum.request({
+          await connected.provider.request({
             method: 'wallet_addEthereumChain',
-            params: [RSK_TESTNET],
+            params: [params],
           });
         } catch (addError: any) {
-          setErrorMessage(`Failed to add network: ${addError.message}`);
+          setErrorMessage(`Failed to add network: ${formatError(addError)}`);
         }
       } else {
-        setErrorMessage(`Network switch rejected or failed: ${switchError.message}`);
+        setErrorMessage(`Network switch failed: ${formatError(switchError)}`);
       }
     }
-  }, []);
+  }, [connected]);
+
+  const switchNetwork = useCallback(() => requestSwitch(network), [requestSwitch, network]);
+
+  const selectNetwork = useCallback(async (chainId: number) => {
+    const next = getNetwork(chainId);
+    if (!next) return;
+
+    applyNetwork(next);
+    // Without a wallet the selection only changes which chain the dApp reads from
+    if (address && walletChainId !== next.chainId) {
+      await requestSwitch(next);
+    }
+  }, [applyNetwork, requestSwitch, address, walletChainId]);
+
+  // Builds the ethers provider and signer on top of an authorized wallet
+  const attachWallet = useCallback(async (detail: EIP6963ProviderDetail) => {
+    const p = new ethers.BrowserProvider(detail.provider);
+    const s = await p.getSigner();
+    const userAddress = await s.getAddress();
+
+    setAddress(userAddress);
+    setProvider(p);
+    setSigner(s);
+    setConnected(detail);
+    setErrorMessage(null);
+    try {
+      window.localStorage.setItem(WALLET_STORAGE_KEY, detail.info.rdns);
+    } catch {
+      // the choice just won't persist
+    }
+
+    await checkNetwork(p);
+  }, [checkNetwork]);
 
-  const connectWallet = useCallback(async () => {
-    if (!(window as any).ethereum) {
+  const connectWallet = useCallback(async (walletId?: string) => {
+    const detail = selectWallet(wallets, walletId ?? connected?.info.rdns ?? readStoredWallet());
+    if (!detail) {
       setErrorMessage("MetaMask (or a compatible wallet) is not installed.");
       return;
     }
 
     try {
-      await (window as any).ethereum.request({ method: 'eth_requestAccounts' });
-
-      const p = new ethers.BrowserProvider((window as any).ethereum);
-      const s = await p.getSigner();
-      const userAddress = await s.getAddress();
-      
-      setAddress(userAddress);
-      setProvider(p);
-      setSigner(s);
-      setErrorMessage(null); 
-      
-      await checkNetwork(p);
-
+      await detail.provider.request({ method: 'eth_requestAccounts' });
+      await attachWallet(detail);
     } catch (error) {
-      setErrorMessage("Wallet connection failed: " + (error as any).message);
+      setErrorMessage("Wallet connection failed: " + formatError(error));
       console.error("Connection Error:", error);
     }
-  }, [checkNetwork]);
+  }, [wallets, connected, attachWallet]);
   
+  const signIn = useCallback(async () => {
+    if (!signer) return;
+    try {
+      setSession(await signInWithEthereum(signer, walletChainId ?? network.chainId));
+      setErrorMessage(null);
+    } catch (error) {
+      setErrorMessage("Sign-in failed: " + formatError(error));
+      console.error("Sign-in Error:", error);
+    }
+  }, [signer, walletChainId, network]);
+
+  const signOut = useCallback(async () => {
+    setSession(null);
+    try {
+      await endServerSession();
+    } catch (error) {
+      console.warn("Sign-out failed:", error);
+    }
+  }, []);
+
   const disconnectWallet = useCallback(() => {
+    signOut();
     setAddress(null);
     setProvider(null);
     setSigner(null);
+    setConnected(null);
     setErrorMessage(null);
-    setIsWrongNetwork(false);
+    setWalletChainId(null);
+  }, [signOut]);
+
+  // Discover injected wallets; `window.ethereum` is only a fallback for wallets without EIP-6963
+  useEffect(() => {
+    const legacy = (window as { ethereum?: EIP1193Provider }).ethereum ?? null;
+    return discoverWallets(window, setWallets, legacy);
   }, []);
 
-  // Check for existing connection on mount
+  // Silently reconnect the remembered wallet if it's still authorized
   useEffect(() => {
+    if (restoreAttempted.current) return;
+
+    const stored = readStoredWallet();
+    const detail = stored
+      ? wallets.find((w) => w.info.rdns === stored)
+      : wallets.length === 1
+      ? wallets[0]
+      : undefined;
+    if (!detail) return;
+    restoreAttempted.current = true;
+
     const checkExistingConnection = async () => {
-      if (typeof window !== 'undefined' && (window as any).ethereum) {
-        try {
-          const accounts = await (window as any).ethereum.request({ method: 'eth_accounts' });
-          if (accounts.length > 0) {
-            const p = new ethers.BrowserProvider((window as any).ethereum);
-            const s = await p.getSigner();
-            const userAddress = await s.getAddress();
-            
-            setAddress(userAddress);
-            setProvider(p);
-            setSigner(s);
-            await checkNetwork(p);
-          }
-        } catch (error) {
-          console.error("Error checking existing connection:", error);
+      try {
+        const accounts = (await detail.provider.request({ method: 'eth_accounts' })) as string[];
+        if (accounts.length > 0) {
+          await attachWallet(detail);
         }
+      } catch (error) {
+        console.error("Error checking existing connection:", error);
       }
     };
 
     checkExistingConnection();
-  }, [checkNetwork]);
+  }, [wallets, attachWallet]);
 
-  // Set up listeners
+  // Pick up a session started before the page was reloaded
   useEffect(() => {
-    if (typeof window !== 'undefined' && (window as any).ethereum) {
-      const handleChainChanged = (chainId: string) => {
-        const chainIdNum = parseInt(chainId, 16);
-        if (chainIdNum !== TARGET_CHAIN_ID) {
-          setIsWrongNetwork(true);
-        } else {
-          setIsWrongNetwork(false);
-          if (provider) {
-            connectWallet();
-          }
-        }
-      };
-      
-      const handleAccountsChanged = (accounts: string[]) => {
-        if (accounts.length === 0) {
-          disconnectWallet();
-        } else {
-          connectWallet();
-        }
-      };
+    if (!address) return;
 
-      (window as any).ethereum.on('chainChanged', handleChainChanged);
-      (window as any).ethereum.on('accountsChanged', handleAccountsChanged);
+    let cancelled = false;
+    fetchSession()
+      .then((existing) => {
+        if (!cancelled) setSession(existing);
+      })
+      .catch((error) => console.warn("Session check failed:", error));
 
-      return () => {
-        (window as any).ethereum?.removeListener('chainChanged', handleChainChanged);
-        (window as any).ethereum?.removeListener('accountsChanged', handleAccountsChanged);
-      };
-    }
-  }, [provider, connectWallet, disconnectWallet]);
+    return () => {
+      cancelled = true;
+    };
+  }, [address]);
+
+  // Set up listeners on the connected wallet only
+  useEffect(() => {
+    const walletProvider = connected?.provider;
+    if (!connected || !walletProvider?.on) return;
+
+    const handleChainChanged = (chainId: string) => {
+      const chainIdNum = parseInt(chainId, 16);
+      setWalletChainId(chainIdNum);
+
+      const known = getNetwork(chainIdNum);
+      if (known) {
+        applyNetwork(known);
+      }
+      // BrowserProvider is bound to the chain it was created on, so rebuild it
+      attachWallet(connected).catch((error) => console.error("Error reconnecting wallet:", error));
+    };
+
+    // A session belongs to one account, so any account change ends it
+    const handleAccountsChanged = (accounts: string[]) => {
+      if (accounts.length === 0) {
+        disconnectWallet();
+      } else {
+        signOut()
+          .then(() => attachWallet(connected))
+          .catch((error) => console.error("Error reconnecting wallet:", error));
+      }
+    };
+
+    walletProvider.on('chainChanged', handleChainChanged);
+    walletProvider.on('accountsChanged', handleAccountsChanged);
+
+    return () => {
+      walletProvider.removeListener?.('chainChanged', handleChainChanged);
+      walletProvider.removeListener?.('accountsChanged', handleAccountsChanged);
+    };
+  }, [connected, attachWallet, disconnectWallet, signOut, applyNetwork]);
 
   const value: WalletState = {
     address,
     provider,
+    readProvider,
     signer,
     errorMessage,
     isWrongNetwork,
+    network,
+    networks: NETWORKS,
+    walletChainId,
+    wallets: walletInfos,
+    wallet: connected?.info ?? null,
+    isAuthenticated,
     connectWallet,
     disconnectWallet,
+    signIn,
+    signOut,
     switchNetwork,
+    selectNetwork,
   };
 
   return <WalletContext.Provider value={value}>{children}</WalletContext.Provider>;
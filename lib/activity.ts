@@ -0,0 +1,160 @@
+import { EAS, SchemaRegistry } from '@ethereum-attestation-service/eas-sdk';
+import { ethers } from 'ethers';
+import { NetworkConfig } from './networks';
+import { DecodedField, decodeSchemaData, extractSchemaString } from './schema';
+import { classifyError } from './errors';
+
+// --- Live Activity Feed ---
+// Entries built from EAS `Attested` / `Revoked` events as they arrive. Each one
+// remembers the block it was mined in, so the feed can drop it again when a
+// reorg makes that block uncanonical.
+
+export const ACTIVITY_EVENTS = new ethers.Interface([
+  'event Attested(address indexed recipient, address indexed attester, bytes32 uid, bytes32 indexed schemaUID)',
+  'event Revoked(address indexed recipient, address indexed attester, bytes32 uid, bytes32 indexed schemaUID)',
+]);
+
+// Newest entries kept in the feed
+export const MAX_ACTIVITY_ENTRIES = 50;
+// Blocks an entry is re-checked for; older ones are treated as final
+export const REORG_CHECK_DEPTH = 12;
+
+export type ActivityKind = 'attested' | 'revoked';
+
+export interface ActivityEntry {
+  // transaction hash + log index; unique per event
+  id: string;
+  kind: ActivityKind;
+  uid: string;
+  // lowercase
+  schema: string;
+  recipient: string;
+  attester: string;
+  blockNumber: number;
+  blockHash: string;
+  txHash: string;
+  // Unix seconds from the attestation record (revocation time for revocations)
+  time: number;
+  schemaDefinition: string;
+  // null when the data could not be decoded with the schema
+  fields: DecodedField[] | null;
+  decodeError?: string;
+}
+
+export interface ActivityFilter {
+  // Only entries where the connected address is the recipient or attester
+  onlyMine: boolean;
+  schema: string;
+  attester: string;
+}
+
+export const EMPTY_ACTIVITY_FILTER: ActivityFilter = { onlyMine: false, schema: '', attester: '' };
+
+// chainId:uid -> schema definition ("" when the registry has no record)
+const schemaDefinitions = new Map<string, string>();
+
+const getSchemaDefinition = async (provider: ethers.Provider, network: NetworkConfig, uid: string) => {
+  const key = `${network.chainId}:${uid.toLowerCase()}`;
+  const cached = schemaDefinitions.get(key);
+  if (cached !== undefined) return cached;
+
+  const schemaRegistry = new SchemaRegistry(network.schemaRegistryAddress);
+  schemaRegistry.connect(provider);
+  let definition = '';
+  try {
+    definition = extractSchemaString(await schemaRegistry.getSchema({ uid }));
+  } catch (err) {
+    console.warn('Failed to fetch schema record:', err);
+  }
+  schemaDefinitions.set(key, definition);
+  return definition;
+};
+
+/** Reads the attestation behind an event and decodes its data with the schema. */
+export const buildActivityEntry = async (
+  provider: ethers.Provider,
+  network: NetworkConfig,
+  kind: ActivityKind,
+  log: ethers.Log
+): Promise<ActivityEntry> => {
+  const parsed = ACTIVITY_EVENTS.parseLog(log);
+  if (!parsed) throw new Error('Not an EAS attestation event.');
+  const uid = String(parsed.args.uid);
+
+  const eas = new EAS(network.easAddress);
+  eas.connect(provider);
+  const attestation = await eas.getAttestation(uid);
+  const schema = String(parsed.args.schemaUID).toLowerCase();
+  const schemaDefinition = await getSchemaDefinition(provider, network, schema);
+
+  let fields: DecodedField[] | null = null;
+  let decodeError: string | undefined;
+  if (schemaDefinition) {
+    try {
+      fields = decodeSchemaData(schemaDefinition, attestation.data);
+    } catch (err) {
+      decodeError = classifyError(err).message;
+    }
+  }
+
+  return {
+    id: `${log.transactionHash}:${log.index}`,
+    kind,
+    uid,
+    schema,
+    recipient: ethers.getAddress(String(parsed.args.recipient)),
+    attester: ethers.getAddress(String(parsed.args.attester)),
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    txHash: log.transactionHash,
+    time: Number(kind === 'revoked' ? attestation.revocationTime : attestation.time),
+    schemaDefinition,
+    fields,
+    decodeError,
+  };
+};
+
+/** Newest first, without duplicates, capped at MAX_ACTIVITY_ENTRIES. */
+export const addActivityEntry = (entries: ActivityEntry[], entry: ActivityEntry): ActivityEntry[] => {
+  if (entries.some((e) => e.id === entry.id)) return entries;
+  return [entry, ...entries]
+    .sort((a, b) => b.blockNumber - a.blockNumber || b.id.localeCompare(a.id))
+    .slice(0, MAX_ACTIVITY_ENTRIES);
+};
+
+/**
+ * Block hashes of recent entries that are no longer on the canonical chain.
+ * Entries deeper than REORG_CHECK_DEPTH are not checked again.
+ */
+export const findUncanonicalBlocks = async (
+  provider: ethers.Provider,
+  entries: Pick<ActivityEntry, 'blockNumber' | 'blockHash'>[],
+  latestBlock: number
+): Promise<Set<string>> => {
+  const recent = new Map<number, Set<string>>();
+  for (const entry of entries) {
+    if (entry.blockNumber <= latestBlock - REORG_CHECK_DEPTH) continue;
+    recent.set(entry.blockNumber, (recent.get(entry.blockNumber) ?? new Set()).add(entry.blockHash));
+  }
+
+  const stale = new Set<string>();
+  await Promise.all(
+    [...recent.entries()].map(async ([blockNumber, hashes]) => {
+      const block = await provider.getBlock(blockNumber);
+      for (const hash of hashes) {
+        if (block?.hash !== hash) stale.add(hash);
+      }
+    })
+  );
+  return stale;
+};
+
+export const matchesActivityFilter = (entry: ActivityEntry, filter: ActivityFilter, address: string | null): boolean => {
+  if (filter.onlyMine) {
+    const mine = address?.toLowerCase();
+    if (!mine || (entry.recipient.toLowerCase() !== mine && entry.attester.toLowerCase() !== mine)) return false;
+  }
+  if (filter.schema.trim() && entry.schema !== filter.schema.trim().toLowerCase()) return false;
+  if (filter.attester.trim() && entry.attester.toLowerCase() !== filter.attester.trim().toLowerCase()) return false;
+  return true;
+};
@@ -0,0 +1,60 @@
+// --- Attestation Helpers ---
+// Status evaluation shared by every view that displays attestations.
+
+export type AttestationStatus = 'Valid' | 'Revoked' | 'Expired';
+
+// Minimal shape needed to evaluate status; matches both the EAS SDK
+// Attestation and indexer results (where timestamps arrive as numbers).
+export interface AttestationTimestamps {
+  time?: bigint | number | string | null;
+  expirationTime?: bigint | number | string | null;
+  revocationTime?: bigint | number | string | null;
+}
+
+export interface AttestationStatusInfo {
+  status: AttestationStatus;
+  // Unix seconds, only set when the attestation was revoked
+  revokedAt?: number;
+  // Unix seconds, only set when the attestation has an expiration time
+  expiresAt?: number;
+}
+
+export const toUnixSeconds = (value: bigint | number | string | null | undefined): number => {
+  if (value === null || value === undefined) return 0;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : 0;
+};
+
+export const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
+/** Revocation takes precedence over expiry: a revoked attestation stays revoked after it expires. */
+export const evaluateAttestationStatus = (
+  attestation: AttestationTimestamps,
+  now: number = nowInSeconds()
+): AttestationStatusInfo => {
+  const revokedAt = toUnixSeconds(attestation.revocationTime);
+  const expiresAt = toUnixSeconds(attestation.expirationTime);
+
+  const info: AttestationStatusInfo = { status: 'Valid' };
+  if (expiresAt > 0) info.expiresAt = expiresAt;
+  if (revokedAt > 0) {
+    info.status = 'Revoked';
+    info.revokedAt = revokedAt;
+  } else if (expiresAt > 0 && expiresAt <= now) {
+    info.status = 'Expired';
+  }
+  return info;
+};
+
+/**
+ * Converts a `datetime-local` input value (local time) to a unix timestamp.
+ * An empty value means the attestation never expires.
+ */
+export const parseExpirationInput = (value: string, now: number = nowInSeconds()): bigint => {
+  if (!value.trim()) return BigInt(0);
+  const ms = new Date(value).getTime();
+  if (Number.isNaN(ms)) throw new Error('Expiration must be a valid date and time.');
+  const seconds = Math.floor(ms / 1000);
+  if (seconds <= now) throw new Error('Expiration must be in the future.');
+  return BigInt(seconds);
+};
@@ -0,0 +1,43 @@
+// --- Batch Helpers ---
+// Sizing of multiAttest / multiRevoke chunks so each transaction fits in a block.
+
+// Leave headroom below the block gas limit for estimate drift and other transactions
+export const BLOCK_GAS_SAFETY_FACTOR = 0.8;
+
+export const splitIntoChunks = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  const step = Math.max(1, Math.floor(size));
+  for (let i = 0; i < items.length; i += step) {
+    chunks.push(items.slice(i, i + step));
+  }
+  return chunks;
+};
+
+const splitRowGas = (singleRowGas: bigint, twoRowGas: bigint) => {
+  const perRow = twoRowGas > singleRowGas ? twoRowGas - singleRowGas : singleRowGas;
+  const overhead = singleRowGas > perRow ? singleRowGas - perRow : BigInt(0);
+  return { perRow, overhead };
+};
+
+/**
+ * Derives how many rows fit in one transaction from two estimates: one row and
+ * two rows. Their difference is the marginal cost per row, the rest is the fixed
+ * transaction overhead.
+ */
+export const computeChunkSize = (
+  blockGasLimit: bigint,
+  singleRowGas: bigint,
+  twoRowGas: bigint,
+  safetyFactor: number = BLOCK_GAS_SAFETY_FACTOR
+): number => {
+  const budget = (blockGasLimit * BigInt(Math.round(safetyFactor * 100))) / BigInt(100);
+  const { perRow, overhead } = splitRowGas(singleRowGas, twoRowGas);
+  if (budget <= overhead + perRow) return 1;
+  return Number((budget - overhead) / perRow);
+};
+
+/** Gas for a whole batch from the same two estimates: every chunk pays the overhead once. */
+export const estimateBatchGas = (chunkSizes: number[], singleRowGas: bigint, twoRowGas: bigint): bigint => {
+  const { perRow, overhead } = splitRowGas(singleRowGas, twoRowGas);
+  return chunkSizes.reduce((sum, size) => sum + overhead + perRow * BigInt(size), BigInt(0));
+};
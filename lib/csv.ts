@@ -0,0 +1,76 @@
+// --- CSV Helpers ---
+// Minimal RFC 4180 reader/writer for bulk issuance: quoted fields, escaped
+// quotes ("") and CRLF or LF line endings.
+
+/** Parses CSV text into rows of cells. Blank lines are skipped. */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((c) => c.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += ch;
+    }
+  }
+  if (inQuotes) throw new Error('CSV has an unterminated quoted field.');
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+};
+
+/** Parses CSV with a header row into one record per line, keyed by trimmed header name. */
+export const parseCsvRecords = (text: string): { headers: string[]; records: Record<string, string>[] } => {
+  const [headerRow, ...rows] = parseCsv(text);
+  if (!headerRow) return { headers: [], records: [] };
+  const headers = headerRow.map((h) => h.trim());
+  const records = rows.map((cells) => {
+    const record: Record<string, string> = {};
+    headers.forEach((h, i) => {
+      record[h] = (cells[i] ?? '').trim();
+    });
+    return record;
+  });
+  return { headers, records };
+};
+
+const escapeCell = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const toCsv = (rows: string[][]): string => rows.map((r) => r.map(escapeCell).join(',')).join('\n');
+
+/** Triggers a browser download of CSV content. */
+export const downloadCsv = (filename: string, content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
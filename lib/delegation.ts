@@ -0,0 +1,116 @@
+// --- Delegated Attestation Helpers ---
+// The attester signs an EIP-712 attestation request in the browser and the relayer
+// route (app/api/relay/attest) submits it with `attestByDelegation`, paying the gas.
+
+import { EAS, EIP712MessageTypes } from '@ethereum-attestation-service/eas-sdk';
+import { Signer } from 'ethers';
+import { AppError } from './errors';
+import { NetworkConfig } from './networks';
+
+export const RELAY_ATTEST_ENDPOINT = '/api/relay/attest';
+
+// How long a signed request stays valid for the relayer
+export const DEFAULT_DELEGATION_TTL_SECONDS = 60 * 60;
+
+export interface DelegatedAttestationInput {
+  schema: string;
+  recipient: string;
+  expirationTime: bigint;
+  revocable: boolean;
+  refUID: string;
+  data: string;
+}
+
+/** JSON body posted to the relayer; bigints travel as decimal strings. */
+export interface DelegatedAttestationPayload {
+  chainId: number;
+  attester: string;
+  schema: string;
+  recipient: string;
+  expirationTime: string;
+  revocable: boolean;
+  refUID: string;
+  data: string;
+  value: string;
+  nonce: string;
+  deadline: string;
+  signature: { v: number; r: string; s: string };
+  // EIP-712 type definitions that were signed; the relayer checks them against its own
+  primaryType: string;
+  types: EIP712MessageTypes;
+}
+
+export interface RelayerStatus {
+  enabled: boolean;
+  // Address that pays for relayed transactions
+  relayer?: string;
+  // Schema UIDs the relayer sponsors (lowercase)
+  schemas: string[];
+}
+
+export interface RelayedAttestation {
+  uid: string;
+  txHash: string;
+}
+
+/** Signs a delegated attestation request with the attester's current EAS nonce. */
+export const signDelegatedAttestation = async (
+  network: NetworkConfig,
+  signer: Signer,
+  input: DelegatedAttestationInput,
+  ttlSeconds: number = DEFAULT_DELEGATION_TTL_SECONDS
+): Promise<DelegatedAttestationPayload> => {
+  const eas = new EAS(network.easAddress);
+  eas.connect(signer);
+  const attester = await signer.getAddress();
+  const delegated = await eas.getDelegated();
+  const nonce = await eas.getNonce(attester);
+  const deadline = BigInt(Math.floor(Date.now() / 1000) + ttlSeconds);
+
+  // The relayer never sponsors value, so it is always 0
+  const response = await delegated.signDelegatedAttestation(
+    { ...input, value: BigInt(0), nonce, deadline },
+    signer
+  );
+
+  return {
+    chainId: network.chainId,
+    attester,
+    schema: input.schema,
+    recipient: input.recipient,
+    expirationTime: input.expirationTime.toString(),
+    revocable: input.revocable,
+    refUID: input.refUID,
+    data: input.data,
+    value: '0',
+    nonce: nonce.toString(),
+    deadline: deadline.toString(),
+    signature: response.signature,
+    primaryType: response.primaryType,
+    types: response.types,
+  };
+};
+
+const readRelayResponse = async <T>(res: Response): Promise<T> => {
+  const body = await res.json().catch(() => null);
+  if (!res.ok) {
+    // Submission failures arrive already classified by the route
+    if (body?.kind) {
+      throw new AppError(body.kind, body.error, { suggestion: body.suggestion, revertName: body.revertName });
+    }
+    throw new Error(body?.error ?? `Relayer responded with HTTP ${res.status}.`);
+  }
+  return body as T;
+};
+
+export const fetchRelayerStatus = async (): Promise<RelayerStatus> =>
+  readRelayResponse<RelayerStatus>(await fetch(RELAY_ATTEST_ENDPOINT));
+
+export const submitDelegatedAttestation = async (payload: DelegatedAttestationPayload): Promise<RelayedAttestation> =>
+  readRelayResponse<RelayedAttestation>(
+    await fetch(RELAY_ATTEST_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    })
+  );
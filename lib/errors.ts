@@ -0,0 +1,293 @@
+import { ethers } from 'ethers';
+
+// --- Error Classification ---
+// Wallets, RPC nodes and ethers wrap the same failure in different shapes
+// (EIP-1193 codes, ethers error codes, raw revert data several levels deep).
+// classifyError flattens them into one typed AppError with a short message and,
+// where there is one, a fix the user can try.
+
+export type AppErrorKind =
+  | 'rejected'
+  | 'insufficient-funds'
+  | 'gas'
+  | 'timeout'
+  | 'wrong-chain'
+  | 'revert'
+  | 'decode'
+  | 'unknown';
+
+export class AppError extends Error {
+  kind: AppErrorKind;
+  // What the user can do about it
+  suggestion: string | null;
+  // Custom error name decoded from the revert data (e.g. AlreadyExists)
+  revertName: string | null;
+  // The original message, for logs
+  details: string;
+
+  constructor(
+    kind: AppErrorKind,
+    message: string,
+    options: { suggestion?: string | null; revertName?: string | null; details?: string } = {}
+  ) {
+    super(message);
+    this.name = 'AppError';
+    this.kind = kind;
+    this.suggestion = options.suggestion ?? null;
+    this.revertName = options.revertName ?? null;
+    this.details = options.details ?? message;
+  }
+}
+
+/** === Revert Decoding === */
+// Custom errors of the EAS and SchemaRegistry contracts
+const CONTRACT_ERRORS = new ethers.Interface([
+  'error AccessDenied()',
+  'error AddressInsufficientBalance(address)',
+  'error AlreadyExists()',
+  'error AlreadyRevoked()',
+  'error AlreadyRevokedOffchain()',
+  'error AlreadyTimestamped()',
+  'error DeadlineExpired()',
+  'error FailedInnerCall()',
+  'error InsufficientValue()',
+  'error InvalidAttestation()',
+  'error InvalidAttestations()',
+  'error InvalidExpirationTime()',
+  'error InvalidLength()',
+  'error InvalidNonce()',
+  'error InvalidOffset()',
+  'error InvalidRegistry()',
+  'error InvalidRevocation()',
+  'error InvalidRevocations()',
+  'error InvalidSchema()',
+  'error InvalidShortString()',
+  'error InvalidSignature()',
+  'error InvalidVerifier()',
+  'error Irrevocable()',
+  'error NotFound()',
+  'error NotPayable()',
+  'error StringTooLong(string)',
+  'error WrongSchema()',
+]);
+
+const REVERT_MESSAGES: Record<string, { message: string; suggestion: string }> = {
+  AccessDenied: {
+    message: 'Only the original attester can do this.',
+    suggestion: 'Switch to the account that issued the attestation.',
+  },
+  AlreadyExists: {
+    message: 'This schema is already registered.',
+    suggestion: 'Use the existing schema UID instead of registering it again.',
+  },
+  AlreadyRevoked: {
+    message: 'The attestation is already revoked.',
+    suggestion: 'Refresh the list; nothing else needs to be done.',
+  },
+  AlreadyRevokedOffchain: {
+    message: 'This offchain attestation is already revoked.',
+    suggestion: 'Nothing else needs to be done.',
+  },
+  AlreadyTimestamped: {
+    message: 'This data is already timestamped.',
+    suggestion: 'Nothing else needs to be done.',
+  },
+  DeadlineExpired: {
+    message: 'The signed request expired before it was submitted.',
+    suggestion: 'Sign the request again and submit it right away.',
+  },
+  InsufficientValue: {
+    message: 'Not enough value was sent for the schema resolver.',
+    suggestion: 'Increase the value sent with the attestation to the fee the resolver asks for.',
+  },
+  InvalidAttestation: {
+    message: 'The schema resolver rejected the attestation.',
+    suggestion: "Check the resolver's rules (approved attesters, fee or recipient type).",
+  },
+  InvalidAttestations: {
+    message: 'The schema resolver rejected one of the attestations.',
+    suggestion: "Check the resolver's rules (approved attesters, fee or recipient type).",
+  },
+  InvalidExpirationTime: {
+    message: 'The expiration time is in the past.',
+    suggestion: 'Pick a future date, or leave the expiration empty.',
+  },
+  InvalidLength: {
+    message: 'The request lists a different number of items than it has data for.',
+    suggestion: 'Check the batch for empty or mismatched rows.',
+  },
+  InvalidNonce: {
+    message: 'The signed request uses a stale nonce.',
+    suggestion: 'Sign the request again.',
+  },
+  InvalidRevocation: {
+    message: 'The schema resolver rejected the revocation.',
+    suggestion: "Check the resolver's revocation rules.",
+  },
+  InvalidRevocations: {
+    message: 'The schema resolver rejected one of the revocations.',
+    suggestion: "Check the resolver's revocation rules.",
+  },
+  InvalidSchema: {
+    message: 'The schema does not exist on this network.',
+    suggestion: 'Check the Schema UID and the selected network, or register the schema first.',
+  },
+  InvalidSignature: {
+    message: 'The signature does not match the request.',
+    suggestion: 'Sign the request again with the attester account.',
+  },
+  Irrevocable: {
+    message: 'This attestation cannot be revoked.',
+    suggestion: 'Its schema or the attestation itself was created as irrevocable.',
+  },
+  NotFound: {
+    message: 'The attestation does not exist on this network.',
+    suggestion: 'Check the UID and the selected network.',
+  },
+  NotPayable: {
+    message: 'The schema resolver does not accept payments.',
+    suggestion: 'Set the value sent with the attestation to 0.',
+  },
+  WrongSchema: {
+    message: 'The attestation belongs to a different schema.',
+    suggestion: 'Use the schema the attestation was issued under.',
+  },
+};
+
+/** Decodes EAS and SchemaRegistry custom errors; null for unknown or malformed data. */
+export const decodeRevertData = (data: string): ethers.ErrorDescription | null => {
+  if (!ethers.isHexString(data) || data.length < 10) return null;
+  try {
+    return CONTRACT_ERRORS.parseError(data);
+  } catch {
+    return null;
+  }
+};
+
+/** === Classification === */
+interface ErrorFields {
+  codes: (string | number)[];
+  messages: string[];
+  data: string[];
+}
+
+// Wallets nest the JSON-RPC error under these keys, sometimes several levels deep
+const NESTED_KEYS = ['error', 'info', 'data', 'cause', 'originalError'];
+
+const collectErrorFields = (error: unknown, fields: ErrorFields = { codes: [], messages: [], data: [] }, depth = 0) => {
+  if (depth > 5 || error === null || error === undefined) return fields;
+  if (typeof error === 'string') {
+    if (ethers.isHexString(error)) fields.data.push(error);
+    else fields.messages.push(error);
+    return fields;
+  }
+  if (typeof error !== 'object') return fields;
+
+  const record = error as Record<string, unknown>;
+  if (typeof record.code === 'number' || typeof record.code === 'string') fields.codes.push(record.code);
+  for (const key of ['shortMessage', 'reason', 'message']) {
+    if (typeof record[key] === 'string') fields.messages.push(record[key] as string);
+  }
+  for (const key of NESTED_KEYS) {
+    if (key in record) collectErrorFields(record[key], fields, depth + 1);
+  }
+  return fields;
+};
+
+const matches = (fields: ErrorFields, pattern: RegExp) => fields.messages.some((m) => pattern.test(m));
+
+const MAX_MESSAGE_LENGTH = 200;
+
+const shorten = (message: string) =>
+  message.length > MAX_MESSAGE_LENGTH ? `${message.slice(0, MAX_MESSAGE_LENGTH)}...` : message;
+
+/**
+ * Maps any thrown value to an AppError. `gasLimit` is the limit the transaction
+ * was sent with; a revert that used all of it ran out of gas.
+ */
+export const classifyError = (error: unknown, context: { gasLimit?: bigint } = {}): AppError => {
+  if (error instanceof AppError) return error;
+
+  const fields = collectErrorFields(error);
+  const details = fields.messages[fields.messages.length - 1] ?? String(error);
+  const ethersMessage = (ethers.isError(error, 'CALL_EXCEPTION') ? error.shortMessage : null) ?? fields.messages[0];
+
+  if (ethers.isError(error, 'ACTION_REJECTED') || fields.codes.includes(4001) || matches(fields, /user (rejected|denied)/i)) {
+    return new AppError('rejected', 'The request was rejected in the wallet.', {
+      suggestion: 'Approve the request in your wallet to continue.',
+      details,
+    });
+  }
+
+  for (const data of fields.data) {
+    const decoded = decodeRevertData(data);
+    if (!decoded) continue;
+    const known = REVERT_MESSAGES[decoded.name];
+    return new AppError('revert', known?.message ?? `The contract reverted with ${decoded.name}.`, {
+      suggestion: known?.suggestion ?? null,
+      revertName: decoded.name,
+      details,
+    });
+  }
+
+  if (
+    fields.codes.includes(4901) ||
+    fields.codes.includes(4902) ||
+    matches(fields, /network changed|unrecognized chain|chain ?id.*(mismatch|does not match)/i)
+  ) {
+    return new AppError('wrong-chain', 'The wallet is on a different network than the app.', {
+      suggestion: 'Switch the wallet to the network selected in the app and try again.',
+      details,
+    });
+  }
+
+  if (ethers.isError(error, 'INSUFFICIENT_FUNDS') || matches(fields, /insufficient funds/i)) {
+    return new AppError('insufficient-funds', 'The account cannot pay for this transaction.', {
+      suggestion: 'Add funds to the account for gas (and any value sent), then try again.',
+      details,
+    });
+  }
+
+  const receipt = ethers.isError(error, 'CALL_EXCEPTION') ? error.receipt : null;
+  const usedAllGas = !!receipt && !!context.gasLimit && receipt.gasUsed >= context.gasLimit;
+  if (usedAllGas || matches(fields, /out of gas|intrinsic gas too low|gas required exceeds|exceeds block gas limit/i)) {
+    return new AppError('gas', 'The transaction ran out of gas.', {
+      suggestion: 'Try again with a higher gas limit in your wallet, or submit fewer items at once.',
+      details,
+    });
+  }
+
+  if (
+    ethers.isError(error, 'TIMEOUT') ||
+    ethers.isError(error, 'NETWORK_ERROR') ||
+    matches(fields, /timeout|timed out|ETIMEDOUT|ECONNREFUSED|failed to fetch/i)
+  ) {
+    return new AppError('timeout', 'The network did not respond in time.', {
+      suggestion: 'Check your connection or the RPC endpoint and try again.',
+      details,
+    });
+  }
+
+  if (matches(fields, /BUFFER_OVERRUN|buffer/i)) {
+    return new AppError('decode', "The data doesn't match its schema and can't be decoded.", {
+      suggestion: 'Check that the schema definition matches the one the data was encoded with.',
+      details,
+    });
+  }
+
+  if (ethers.isError(error, 'CALL_EXCEPTION')) {
+    return new AppError(
+      'revert',
+      error.reason ? `The contract rejected the call: ${error.reason}` : 'The transaction was reverted by the contract.',
+      { suggestion: 'Check the inputs; a schema resolver may have rejected them.', details }
+    );
+  }
+
+  return new AppError('unknown', shorten(ethersMessage || 'An unknown error occurred.'), { details });
+};
+
+/** One-line text for places that only show a string (toasts, CSV results). */
+export const formatError = (error: unknown): string => {
+  const classified = classifyError(error);
+  return classified.suggestion ? `${classified.message} ${classified.suggestion}` : classified.message;
+};
@@ -0,0 +1,76 @@
+import { ethers, TransactionRequest } from 'ethers';
+import { NetworkConfig } from './networks';
+
+// --- Gas Cost Preview ---
+// Rootstock nodes reject transactions priced below the latest block's
+// minimumGasPrice, and miners may raise that floor by up to 1% per block. Cost
+// previews price gas at the floor plus a margin so they match what the wallet
+// will be charged, then compare the total with the sender's balance.
+
+// Headroom above the block's minimum for the blocks mined before inclusion
+export const MIN_GAS_PRICE_MARGIN_PERCENT = 10;
+
+export interface CostEstimate {
+  gasLimit: bigint;
+  gasPrice: bigint;
+  // Sent along with the transaction, e.g. a resolver fee
+  value: bigint;
+  // gasLimit * gasPrice + value
+  total: bigint;
+  balance: bigint;
+  // Missing amount; 0 when the balance covers the total
+  shortfall: bigint;
+}
+
+/**
+ * Gas price the network will accept: the node's suggestion, but never below the
+ * latest block's minimumGasPrice plus the margin. Chains without that block field
+ * (local devnets) use the node's suggestion as is.
+ */
+export const getGasPrice = async (provider: ethers.JsonRpcProvider): Promise<bigint> => {
+  const [block, nodePrice] = await Promise.all([
+    provider.send('eth_getBlockByNumber', ['latest', false]),
+    provider.send('eth_gasPrice', []),
+  ]);
+  const minimum = block?.minimumGasPrice ? BigInt(block.minimumGasPrice) : BigInt(0);
+  const floor = (minimum * BigInt(100 + MIN_GAS_PRICE_MARGIN_PERCENT)) / BigInt(100);
+  const suggested = BigInt(nodePrice);
+  return suggested > floor ? suggested : floor;
+};
+
+export const buildCostEstimate = (gasLimit: bigint, gasPrice: bigint, value: bigint, balance: bigint): CostEstimate => {
+  const total = gasLimit * gasPrice + value;
+  return { gasLimit, gasPrice, value, total, balance, shortfall: total > balance ? total - balance : BigInt(0) };
+};
+
+/**
+ * Estimates the requests as sent by `from` and adds their costs up; a batch
+ * passes one request per transaction. Reverts surface here, before the wallet opens.
+ */
+export const estimateTransactionCost = async (
+  provider: ethers.JsonRpcProvider,
+  from: string,
+  requests: TransactionRequest[]
+): Promise<CostEstimate> => {
+  const [gasPrice, balance, gasLimits] = await Promise.all([
+    getGasPrice(provider),
+    provider.getBalance(from),
+    Promise.all(requests.map((request) => provider.estimateGas({ ...request, from }))),
+  ]);
+  const gasLimit = gasLimits.reduce((sum, gas) => sum + gas, BigInt(0));
+  const value = requests.reduce((sum, request) => sum + BigInt(request.value ?? 0), BigInt(0));
+  return buildCostEstimate(gasLimit, gasPrice, value, balance);
+};
+
+// Enough precision for gas costs, which are usually far below one token
+const DISPLAY_DECIMALS = 8;
+
+/** Native amount with the network's symbol, e.g. "0.00012 tRBTC". */
+export const formatNativeAmount = (wei: bigint, network: NetworkConfig): string => {
+  const [whole, fraction = ''] = ethers.formatEther(wei).split('.');
+  const trimmed = fraction.slice(0, DISPLAY_DECIMALS).replace(/0+$/, '');
+  if (wei > BigInt(0) && whole === '0' && !trimmed) {
+    return `< 0.${'0'.repeat(DISPLAY_DECIMALS - 1)}1 ${network.nativeCurrency.symbol}`;
+  }
+  return `${trimmed ? `${whole}.${trimmed}` : whole} ${network.nativeCurrency.symbol}`;
+};
@@ -0,0 +1,173 @@
+import { Attestation } from '@ethereum-attestation-service/eas-sdk';
+import { ethers } from 'ethers';
+import { nowInSeconds } from '@/lib/attestations';
+
+// --- RAS Indexer (GraphQL) ---
+// Thin client for the RAS indexer, which exposes the EAS indexer GraphQL schema.
+// The endpoint comes from the active network, so a local mock server can be used
+// by pointing NEXT_PUBLIC_<NETWORK>_INDEXER_URL at it.
+
+export type AttestationSearchField = 'recipient' | 'attester' | 'schema';
+
+export interface AttestationSearchParams {
+  field: AttestationSearchField;
+  value: string;
+  // zero-based page index
+  page?: number;
+  pageSize?: number;
+  sort?: 'desc' | 'asc';
+  excludeRevoked?: boolean;
+  excludeExpired?: boolean;
+}
+
+export interface IndexedAttestation extends Attestation {
+  // Schema definition string as stored by the indexer ("" when unknown)
+  schemaDefinition: string;
+  txid: string;
+}
+
+export interface AttestationSearchPage {
+  attestations: IndexedAttestation[];
+  hasMore: boolean;
+}
+
+export const DEFAULT_PAGE_SIZE = 10;
+
+const ATTESTATIONS_QUERY = `
+  query SearchAttestations(
+    $where: AttestationWhereInput
+    $orderBy: [AttestationOrderByWithRelationInput!]
+    $take: Int
+    $skip: Int
+  ) {
+    attestations(where: $where, orderBy: $orderBy, take: $take, skip: $skip) {
+      id
+      schemaId
+      refUID
+      recipient
+      attester
+      time
+      expirationTime
+      revocationTime
+      revocable
+      data
+      txid
+      schema {
+        schema
+      }
+    }
+  }
+`;
+
+interface RawIndexedAttestation {
+  id: string;
+  schemaId: string;
+  refUID: string;
+  recipient: string;
+  attester: string;
+  time: number | string;
+  expirationTime: number | string;
+  revocationTime: number | string;
+  revocable: boolean;
+  data: string;
+  txid: string;
+  schema?: { schema: string } | null;
+}
+
+/** Posts a GraphQL query and returns its `data`, throwing on HTTP or GraphQL errors. */
+export const queryIndexer = async <T>(indexerUrl: string, query: string, variables: Record<string, unknown>): Promise<T> => {
+  const response = await fetch(indexerUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query, variables }),
+  });
+  if (!response.ok) {
+    throw new Error(`Indexer request failed with HTTP ${response.status}.`);
+  }
+
+  const body = await response.json();
+  if (body.errors?.length) {
+    throw new Error(`Indexer error: ${body.errors.map((e: { message: string }) => e.message).join('; ')}`);
+  }
+  return body.data as T;
+};
+
+/** Validates a search value; addresses come back checksummed, schema UIDs lowercase. */
+export const normalizeSearchValue = (field: AttestationSearchField, value: string): string => {
+  const trimmed = value.trim();
+  if (field === 'schema') {
+    if (!ethers.isHexString(trimmed, 32)) throw new Error('Enter a valid 66-character Schema UID starting with 0x.');
+    return trimmed.toLowerCase();
+  }
+  if (!ethers.isAddress(trimmed)) throw new Error(`Enter a valid ${field} address.`);
+  // The indexer stores addresses checksummed
+  return ethers.getAddress(trimmed);
+};
+
+export const buildAttestationWhere = (params: AttestationSearchParams, now: number = nowInSeconds()) => {
+  const value = normalizeSearchValue(params.field, params.value);
+  const conditions: Record<string, unknown>[] = [
+    params.field === 'schema' ? { schemaId: { equals: value } } : { [params.field]: { equals: value } },
+  ];
+  if (params.excludeRevoked) {
+    conditions.push({ revocationTime: { equals: 0 } });
+  }
+  if (params.excludeExpired) {
+    conditions.push({ OR: [{ expirationTime: { equals: 0 } }, { expirationTime: { gt: now } }] });
+  }
+  return { AND: conditions };
+};
+
+const toIndexedAttestation = (raw: RawIndexedAttestation): IndexedAttestation => ({
+  uid: raw.id,
+  schema: raw.schemaId,
+  refUID: raw.refUID,
+  recipient: raw.recipient,
+  attester: raw.attester,
+  time: BigInt(raw.time ?? 0),
+  expirationTime: BigInt(raw.expirationTime ?? 0),
+  revocationTime: BigInt(raw.revocationTime ?? 0),
+  revocable: raw.revocable,
+  data: raw.data,
+  txid: raw.txid,
+  schemaDefinition: raw.schema?.schema ?? '',
+});
+
+/** Searches attestations by recipient, attester or schema UID, one page at a time. */
+export const searchAttestations = async (
+  indexerUrl: string,
+  params: AttestationSearchParams
+): Promise<AttestationSearchPage> => {
+  const pageSize = params.pageSize ?? DEFAULT_PAGE_SIZE;
+  const page = params.page ?? 0;
+
+  // Ask for one extra row to learn whether another page exists
+  const data = await queryIndexer<{ attestations: RawIndexedAttestation[] }>(indexerUrl, ATTESTATIONS_QUERY, {
+    where: buildAttestationWhere(params),
+    orderBy: [{ time: params.sort ?? 'desc' }],
+    take: pageSize + 1,
+    skip: page * pageSize,
+  });
+
+  const rows = data?.attestations ?? [];
+  return {
+    attestations: rows.slice(0, pageSize).map(toIndexedAttestation),
+    hasMore: rows.length > pageSize,
+  };
+};
+
+/** Walks every page of a search. Stops after `maxPages` to bound very active addresses. */
+export const fetchAllAttestations = async (
+  indexerUrl: string,
+  params: Omit<AttestationSearchParams, 'page'>,
+  maxPages = 20
+): Promise<IndexedAttestation[]> => {
+  const pageSize = params.pageSize ?? 50;
+  const all: IndexedAttestation[] = [];
+  for (let page = 0; page < maxPages; page++) {
+    const result = await searchAttestations(indexerUrl, { ...params, pageSize, page });
+    all.push(...result.attestations);
+    if (!result.hasMore) break;
+  }
+  return all;
+};
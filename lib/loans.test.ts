@@ -0,0 +1,164 @@
+import { Attestation } from '@ethereum-attestation-service/eas-sdk';
+import { ethers } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import {
+  LOAN_SCHEMA_UID,
+  LoanEvent,
+  LoanEventInput,
+  LoanStatus,
+  LoanTerms,
+  buildLoanTimelines,
+  decodeLoanEvent,
+  encodeLoanEvent,
+  validateLoanTransition,
+} from '@/lib/loans';
+
+const NOW = 1_700_000_000;
+const BORROWER = '0x1111111111111111111111111111111111111111';
+const LENDER = '0x2222222222222222222222222222222222222222';
+const OTHER = '0x3333333333333333333333333333333333333333';
+
+const TERMS: LoanTerms = { loanId: 'L-1', principal: ethers.parseEther('1'), currency: 'RBTC', dueDate: NOW + 86400 };
+
+let nextUID = 1;
+
+interface EventOptions {
+  previous?: Pick<Attestation, 'uid'>;
+  terms?: LoanTerms;
+  borrower?: string;
+  attester?: string;
+  time?: number;
+  revocationTime?: bigint;
+}
+
+// A loan event attestation as read from the chain, linked to `previous` when given
+const loanEvent = (
+  status: LoanStatus,
+  { previous, terms = TERMS, borrower = BORROWER, attester = LENDER, time = NOW, revocationTime = BigInt(0) }: EventOptions = {}
+): Attestation => ({
+  uid: ethers.toBeHex(nextUID++, 32),
+  schema: LOAN_SCHEMA_UID,
+  refUID: previous?.uid ?? ethers.ZeroHash,
+  time: BigInt(time),
+  expirationTime: BigInt(0),
+  revocationTime,
+  recipient: borrower,
+  attester,
+  revocable: true,
+  data: encodeLoanEvent(attester, {
+    borrower,
+    terms,
+    status,
+    repaidDate: status === LoanStatus.Repaid ? time : undefined,
+  }),
+});
+
+const decoded = (attestation: Attestation): LoanEvent => decodeLoanEvent(attestation)!;
+
+describe('validateLoanTransition', () => {
+  const origin = decoded(loanEvent(LoanStatus.Originated));
+  const update = (overrides: Partial<LoanEventInput>): LoanEventInput => ({
+    borrower: BORROWER,
+    terms: TERMS,
+    status: LoanStatus.Late,
+    previous: origin,
+    ...overrides,
+  });
+
+  it('accepts an origination without a previous event', () => {
+    expect(validateLoanTransition(LENDER, update({ status: LoanStatus.Originated, previous: undefined }))).toBeNull();
+  });
+
+  it('requires an origination before any other event', () => {
+    expect(validateLoanTransition(LENDER, update({ previous: undefined }))).toBe(
+      'A loan has to be originated before it can be updated.'
+    );
+  });
+
+  it('accepts an allowed transition with the same terms', () => {
+    expect(validateLoanTransition(LENDER, update({}))).toBeNull();
+    expect(validateLoanTransition(LENDER, update({ status: LoanStatus.Repaid, repaidDate: NOW }))).toBeNull();
+  });
+
+  it('rejects a follow-up that changes the principal, currency or due date', () => {
+    const changed: Partial<LoanTerms>[] = [
+      { principal: ethers.parseEther('0.5') },
+      { currency: 'USDT' },
+      { dueDate: TERMS.dueDate + 86400 },
+    ];
+    for (const terms of changed) {
+      expect(validateLoanTransition(LENDER, update({ terms: { ...TERMS, ...terms } }))).toBe(
+        'The loan terms differ from the previous event.'
+      );
+    }
+  });
+
+  it('rejects events from another lender, for another borrower or loan', () => {
+    expect(validateLoanTransition(OTHER, update({}))).toBe('Only the lender who originated the loan can update it.');
+    expect(validateLoanTransition(LENDER, update({ borrower: OTHER }))).toBe('The previous event is for a different borrower.');
+    expect(validateLoanTransition(LENDER, update({ terms: { ...TERMS, loanId: 'L-2' } }))).toBe(
+      'The previous event belongs to a different loan.'
+    );
+  });
+
+  it('rejects transitions out of a closed loan', () => {
+    const repaid = decoded(loanEvent(LoanStatus.Repaid, { previous: origin }));
+    expect(validateLoanTransition(LENDER, update({ previous: repaid, status: LoanStatus.Defaulted }))).toBe(
+      "A repaid loan can't be marked defaulted."
+    );
+  });
+});
+
+describe('buildLoanTimelines', () => {
+  it('follows the refUID chain from the origination', () => {
+    const origin = loanEvent(LoanStatus.Originated, { time: NOW });
+    const late = loanEvent(LoanStatus.Late, { previous: origin, time: NOW + 10 });
+    const repaid = loanEvent(LoanStatus.Repaid, { previous: late, time: NOW + 20 });
+
+    const [timeline] = buildLoanTimelines([repaid, origin, late]);
+    expect(timeline.events.map((e) => e.status)).toEqual([LoanStatus.Originated, LoanStatus.Late, LoanStatus.Repaid]);
+    expect(timeline.currentStatus).toBe(LoanStatus.Repaid);
+    expect(timeline.orphanedEvents).toEqual([]);
+  });
+
+  it('orphans a follow-up that rewrites the loan terms', () => {
+    const origin = loanEvent(LoanStatus.Originated, { time: NOW });
+    const rewritten = loanEvent(LoanStatus.Repaid, {
+      previous: origin,
+      terms: { ...TERMS, principal: ethers.parseEther('0.01') },
+      time: NOW + 10,
+    });
+
+    const [timeline] = buildLoanTimelines([origin, rewritten]);
+    expect(timeline.events).toHaveLength(1);
+    expect(timeline.currentStatus).toBe(LoanStatus.Originated);
+    expect(timeline.orphanedEvents.map((e) => e.uid)).toEqual([rewritten.uid]);
+  });
+
+  it('orphans events from another attester and follows the valid branch instead', () => {
+    const origin = loanEvent(LoanStatus.Originated, { time: NOW });
+    const forged = loanEvent(LoanStatus.Repaid, { previous: origin, attester: OTHER, time: NOW + 10 });
+    const defaulted = loanEvent(LoanStatus.Defaulted, { previous: origin, time: NOW + 20 });
+
+    const [timeline] = buildLoanTimelines([origin, forged, defaulted]);
+    expect(timeline.events.map((e) => e.uid)).toEqual([origin.uid, defaulted.uid]);
+    expect(timeline.currentStatus).toBe(LoanStatus.Defaulted);
+    expect(timeline.orphanedEvents.map((e) => e.uid)).toEqual([forged.uid]);
+  });
+
+  it('leaves revoked events out of the chain', () => {
+    const origin = loanEvent(LoanStatus.Originated, { time: NOW });
+    const revoked = loanEvent(LoanStatus.Defaulted, { previous: origin, time: NOW + 10, revocationTime: BigInt(NOW + 20) });
+
+    const [timeline] = buildLoanTimelines([origin, revoked]);
+    expect(timeline.currentStatus).toBe(LoanStatus.Originated);
+    expect(timeline.orphanedEvents).toEqual([]);
+  });
+
+  it('lists separate loans newest first', () => {
+    const older = loanEvent(LoanStatus.Originated, { time: NOW });
+    const newer = loanEvent(LoanStatus.Originated, { terms: { ...TERMS, loanId: 'L-2' }, time: NOW + 100 });
+
+    expect(buildLoanTimelines([older, newer]).map((t) => t.loanId)).toEqual(['L-2', 'L-1']);
+  });
+});
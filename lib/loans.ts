@@ -0,0 +1,287 @@
+import { Attestation, EAS, SchemaEncoder, SchemaRegistry } from '@ethereum-attestation-service/eas-sdk';
+import { ethers, Signer } from 'ethers';
+import { evaluateAttestationStatus } from '@/lib/attestations';
+import { NetworkConfig } from '@/lib/networks';
+import { TransactionSender, sendWithSigner } from '@/lib/transactions';
+
+// --- Loan Repayment Records ---
+// Canonical loan schema for the tutorial's loan reputation system. A lender
+// records each state change as its own attestation to the borrower; every event
+// after origination points at the previous one through refUID, so a loan's
+// history is a linked chain that can be replayed and checked.
+
+export const LOAN_SCHEMA_DEFINITION =
+  'string loanId,uint256 principal,string currency,uint64 dueDate,uint64 repaidDate,uint8 status,address lender';
+export const LOAN_SCHEMA_REVOCABLE = true;
+export const LOAN_SCHEMA_UID = SchemaRegistry.getSchemaUID(LOAN_SCHEMA_DEFINITION, ethers.ZeroAddress, LOAN_SCHEMA_REVOCABLE);
+
+// Principal is stored with 18 decimals, whatever the currency
+export const LOAN_PRINCIPAL_DECIMALS = 18;
+
+export enum LoanStatus {
+  Originated = 0,
+  Repaid = 1,
+  Late = 2,
+  Defaulted = 3,
+}
+
+export const LOAN_STATUS_LABELS: Record<LoanStatus, string> = {
+  [LoanStatus.Originated]: 'Originated',
+  [LoanStatus.Repaid]: 'Repaid',
+  [LoanStatus.Late]: 'Late payment',
+  [LoanStatus.Defaulted]: 'Defaulted',
+};
+
+// Which events may follow the loan's current state; Repaid and Defaulted close the loan
+const ALLOWED_TRANSITIONS: Record<LoanStatus, LoanStatus[]> = {
+  [LoanStatus.Originated]: [LoanStatus.Repaid, LoanStatus.Late, LoanStatus.Defaulted],
+  [LoanStatus.Late]: [LoanStatus.Repaid, LoanStatus.Late, LoanStatus.Defaulted],
+  [LoanStatus.Repaid]: [],
+  [LoanStatus.Defaulted]: [],
+};
+
+export const getNextLoanStatuses = (current: LoanStatus): LoanStatus[] => ALLOWED_TRANSITIONS[current];
+
+export const isLoanOpen = (status: LoanStatus): boolean => ALLOWED_TRANSITIONS[status].length > 0;
+
+export interface LoanTerms {
+  loanId: string;
+  // Base units (LOAN_PRINCIPAL_DECIMALS)
+  principal: bigint;
+  currency: string;
+  // Unix seconds
+  dueDate: number;
+}
+
+export interface LoanEvent extends LoanTerms {
+  uid: string;
+  refUID: string;
+  borrower: string;
+  attester: string;
+  lender: string;
+  status: LoanStatus;
+  // Unix seconds, 0 until repaid
+  repaidDate: number;
+  // Attestation time, unix seconds
+  time: number;
+  revoked: boolean;
+}
+
+export interface LoanTimeline {
+  loanId: string;
+  borrower: string;
+  lender: string;
+  // Oldest first, following the refUID chain from origination
+  events: LoanEvent[];
+  currentStatus: LoanStatus;
+  // Events that don't link into the chain (wrong refUID, other attester, changed terms, bad transition)
+  orphanedEvents: LoanEvent[];
+}
+
+export interface LoanEventInput {
+  borrower: string;
+  terms: LoanTerms;
+  status: LoanStatus;
+  // Unix seconds; required for Repaid
+  repaidDate?: number;
+  // Latest event of the loan; omitted for origination
+  previous?: LoanEvent;
+}
+
+/** === Encoding === */
+const loanEncoder = new SchemaEncoder(LOAN_SCHEMA_DEFINITION);
+
+export const encodeLoanEvent = (lender: string, input: LoanEventInput): string =>
+  loanEncoder.encodeData([
+    { name: 'loanId', value: input.terms.loanId, type: 'string' },
+    { name: 'principal', value: input.terms.principal, type: 'uint256' },
+    { name: 'currency', value: input.terms.currency, type: 'string' },
+    { name: 'dueDate', value: BigInt(input.terms.dueDate), type: 'uint64' },
+    { name: 'repaidDate', value: BigInt(input.repaidDate ?? 0), type: 'uint64' },
+    { name: 'status', value: input.status, type: 'uint8' },
+    { name: 'lender', value: lender, type: 'address' },
+  ]);
+
+/** Decodes a loan attestation; returns null when it isn't a well-formed loan event. */
+export const decodeLoanEvent = (attestation: Attestation): LoanEvent | null => {
+  if (attestation.schema.toLowerCase() !== LOAN_SCHEMA_UID) return null;
+  try {
+    const values: Record<string, unknown> = {};
+    for (const item of loanEncoder.decodeData(attestation.data)) {
+      values[item.name] = item.value.value;
+    }
+    const status = Number(values.status);
+    if (!(status in LOAN_STATUS_LABELS)) return null;
+    return {
+      uid: attestation.uid,
+      refUID: attestation.refUID,
+      borrower: attestation.recipient,
+      attester: attestation.attester,
+      loanId: String(values.loanId),
+      principal: BigInt(values.principal as bigint),
+      currency: String(values.currency),
+      dueDate: Number(values.dueDate),
+      repaidDate: Number(values.repaidDate),
+      status,
+      lender: String(values.lender),
+      time: Number(attestation.time),
+      revoked: evaluateAttestationStatus(attestation).status === 'Revoked',
+    };
+  } catch {
+    return null;
+  }
+};
+
+/** Checks that `status` may follow `previous` for the same loan, terms, borrower and lender. */
+export const validateLoanTransition = (lender: string, input: LoanEventInput): string | null => {
+  if (!input.terms.loanId.trim()) return 'Loan ID is required.';
+  if (input.terms.principal <= BigInt(0)) return 'Principal must be greater than 0.';
+  if (!input.terms.currency.trim()) return 'Currency is required.';
+  if (input.terms.dueDate <= 0) return 'Due date is required.';
+  if (input.status === LoanStatus.Repaid && !input.repaidDate) return 'Repaid date is required.';
+
+  const { previous } = input;
+  if (!previous) {
+    return input.status === LoanStatus.Originated ? null : 'A loan has to be originated before it can be updated.';
+  }
+  if (previous.revoked) return 'The previous loan event was revoked.';
+  if (previous.loanId !== input.terms.loanId) return 'The previous event belongs to a different loan.';
+  // Follow-up events restate the original terms; a lender can't rewrite them mid-loan
+  if (
+    previous.principal !== input.terms.principal ||
+    previous.currency !== input.terms.currency ||
+    previous.dueDate !== input.terms.dueDate
+  ) {
+    return 'The loan terms differ from the previous event.';
+  }
+  if (previous.borrower.toLowerCase() !== input.borrower.toLowerCase()) return 'The previous event is for a different borrower.';
+  if (previous.attester.toLowerCase() !== lender.toLowerCase()) return 'Only the lender who originated the loan can update it.';
+  if (!ALLOWED_TRANSITIONS[previous.status].includes(input.status)) {
+    return `A ${LOAN_STATUS_LABELS[previous.status].toLowerCase()} loan can't be marked ${LOAN_STATUS_LABELS[input.status].toLowerCase()}.`;
+  }
+  return null;
+};
+
+/** === Contracts === */
+/** Registers the loan schema on networks that don't have it yet. Returns true when it registered it. */
+export const ensureLoanSchema = async (
+  network: NetworkConfig,
+  signer: Signer,
+  send: TransactionSender = sendWithSigner(signer)
+): Promise<boolean> => {
+  const registry = new SchemaRegistry(network.schemaRegistryAddress);
+  registry.connect(signer);
+  try {
+    await registry.getSchema({ uid: LOAN_SCHEMA_UID });
+    return false;
+  } catch (err) {
+    if ((err as Error)?.message !== 'Schema not found') throw err;
+  }
+  const tx = await registry.register({
+    schema: LOAN_SCHEMA_DEFINITION,
+    resolverAddress: ethers.ZeroAddress,
+    revocable: LOAN_SCHEMA_REVOCABLE,
+  });
+  await send(tx.data, { kind: 'schema', label: 'Register loan schema', uid: LOAN_SCHEMA_UID });
+  return true;
+};
+
+/** Attests one loan event, linked to the previous event through refUID. */
+export const recordLoanEvent = async (
+  network: NetworkConfig,
+  signer: Signer,
+  input: LoanEventInput,
+  send: TransactionSender = sendWithSigner(signer)
+): Promise<{ uid: string; txHash: string }> => {
+  const lender = await signer.getAddress();
+  const error = validateLoanTransition(lender, input);
+  if (error) throw new Error(error);
+
+  const eas = new EAS(network.easAddress);
+  eas.connect(signer);
+  const tx = await eas.attest({
+    schema: LOAN_SCHEMA_UID,
+    data: {
+      recipient: input.borrower,
+      expirationTime: BigInt(0),
+      revocable: LOAN_SCHEMA_REVOCABLE,
+      refUID: input.previous?.uid ?? ethers.ZeroHash,
+      data: encodeLoanEvent(lender, input),
+    },
+  });
+  const sent = await send(tx.data, {
+    kind: 'loan',
+    label: `Loan ${input.terms.loanId}: ${LOAN_STATUS_LABELS[input.status].toLowerCase()}`,
+  });
+  return { uid: sent.uids[0], txHash: sent.hash };
+};
+
+/** === Timelines === */
+/**
+ * Rebuilds each loan's history from its attestations. Starting at the
+ * origination, the chain follows the first valid event that references the
+ * current head; anything that doesn't link up, including events that change
+ * the loan's terms, is reported as orphaned.
+ */
+export const buildLoanTimelines = (attestations: Attestation[]): LoanTimeline[] => {
+  const events = attestations
+    .map(decodeLoanEvent)
+    .filter((e): e is LoanEvent => e !== null && !e.revoked)
+    .sort((a, b) => a.time - b.time);
+
+  const byRef = new Map<string, LoanEvent[]>();
+  for (const event of events) {
+    const key = event.refUID.toLowerCase();
+    byRef.set(key, [...(byRef.get(key) ?? []), event]);
+  }
+
+  const linked = new Set<string>();
+  const timelines: LoanTimeline[] = [];
+  for (const origin of events) {
+    if (origin.status !== LoanStatus.Originated || origin.refUID !== ethers.ZeroHash) continue;
+
+    const chain = [origin];
+    linked.add(origin.uid);
+    let head = origin;
+    for (;;) {
+      const next = (byRef.get(head.uid.toLowerCase()) ?? []).find(
+        (e) =>
+          !validateLoanTransition(e.attester, {
+            borrower: e.borrower,
+            terms: e,
+            status: e.status,
+            repaidDate: e.repaidDate,
+            previous: head,
+          })
+      );
+      if (!next) break;
+      chain.push(next);
+      linked.add(next.uid);
+      head = next;
+    }
+
+    timelines.push({
+      loanId: origin.loanId,
+      borrower: origin.borrower,
+      lender: origin.lender,
+      events: chain,
+      currentStatus: head.status,
+      orphanedEvents: [],
+    });
+  }
+
+  // Attach unlinked events to their loan so the timeline can flag them
+  for (const event of events) {
+    if (linked.has(event.uid)) continue;
+    const timeline = timelines.find(
+      (t) => t.loanId === event.loanId && t.borrower.toLowerCase() === event.borrower.toLowerCase()
+    );
+    timeline?.orphanedEvents.push(event);
+  }
+
+  // Newest loans first
+  return timelines.sort((a, b) => b.events[0].time - a.events[0].time);
+};
+
+export const formatPrincipal = (principal: bigint, currency: string): string =>
+  `${ethers.formatUnits(principal, LOAN_PRINCIPAL_DECIMALS)} ${currency}`;
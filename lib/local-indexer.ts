@@ -0,0 +1,476 @@
+import { EAS } from '@ethereum-attestation-service/eas-sdk';
+import { ethers } from 'ethers';
+import { nowInSeconds } from './attestations';
+import {
+  AttestationSearchPage,
+  AttestationSearchParams,
+  DEFAULT_PAGE_SIZE,
+  IndexedAttestation,
+  fetchAllAttestations,
+  normalizeSearchValue,
+  searchAttestations,
+} from './indexer';
+import { NetworkConfig, hasContracts } from './networks';
+import { CatalogSchema } from './schema-catalog';
+import {
+  SCHEMA_DESCRIPTION_SCHEMA_UID,
+  SCHEMA_NAME_SCHEMA_UID,
+  SchemaMetadata,
+  fetchSchemaMetadata,
+  normalizeSchemaUIDs,
+  resolveSchemaMetadata,
+} from './schema-names';
+
+// --- Local Event Indexer ---
+// Browser-side replacement for the RAS indexer on networks without one (a local
+// devnet, or any chain where the GraphQL endpoint is not configured). It backfills
+// EAS `Attested` / `Revoked` and SchemaRegistry `Registered` logs over JSON-RPC
+// in block ranges, stores them in IndexedDB and resumes from the last indexed
+// block on the next sync. Queries mirror lib/indexer so callers can use either.
+
+/** === Events === */
+const EAS_EVENTS = new ethers.Interface([
+  'event Attested(address indexed recipient, address indexed attester, bytes32 uid, bytes32 indexed schemaUID)',
+  'event Revoked(address indexed recipient, address indexed attester, bytes32 uid, bytes32 indexed schemaUID)',
+]);
+const REGISTRY_EVENTS = new ethers.Interface([
+  'event Registered(bytes32 indexed uid, address indexed registerer, (bytes32 uid, address resolver, bool revocable, string schema) schema)',
+]);
+
+const ATTESTED_TOPIC = EAS_EVENTS.getEvent('Attested')!.topicHash;
+const REVOKED_TOPIC = EAS_EVENTS.getEvent('Revoked')!.topicHash;
+const REGISTERED_TOPIC = REGISTRY_EVENTS.getEvent('Registered')!.topicHash;
+
+// Blocks per getLogs call; halved on errors, since many nodes cap the range
+export const DEFAULT_SYNC_BLOCK_RANGE = 2000;
+const MIN_SYNC_BLOCK_RANGE = 50;
+// Parallel getAttestation calls while backfilling
+const ATTESTATION_FETCH_CONCURRENCY = 10;
+
+/** === Storage === */
+const DB_NAME = 'ras-local-indexer';
+const DB_VERSION = 1;
+
+// Bigints are stored as decimal strings; IndexedDB can't index them
+interface StoredAttestation {
+  key: string;
+  chainId: number;
+  uid: string;
+  // lowercase
+  schema: string;
+  refUID: string;
+  // checksummed, like the RAS indexer
+  recipient: string;
+  attester: string;
+  time: string;
+  expirationTime: string;
+  revocationTime: string;
+  revocable: boolean;
+  data: string;
+  txid: string;
+}
+
+interface StoredSchema {
+  key: string;
+  chainId: number;
+  uid: string;
+  definition: string;
+  resolver: string;
+  revocable: boolean;
+  creator: string;
+  time: number;
+}
+
+interface SyncCursor {
+  // chain + contract addresses, so a redeployed devnet starts over
+  key: string;
+  chainId: number;
+  lastBlock: number;
+}
+
+const recordKey = (chainId: number, uid: string) => `${chainId}:${uid.toLowerCase()}`;
+
+const cursorKey = (network: NetworkConfig) =>
+  `${network.chainId}:${network.easAddress.toLowerCase()}:${network.schemaRegistryAddress.toLowerCase()}`;
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('The local indexer needs a browser with IndexedDB.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const attestations = db.createObjectStore('attestations', { keyPath: 'key' });
+      attestations.createIndex('chainId', 'chainId');
+      attestations.createIndex('recipient', ['chainId', 'recipient']);
+      attestations.createIndex('attester', ['chainId', 'attester']);
+      attestations.createIndex('schema', ['chainId', 'schema']);
+      const schemas = db.createObjectStore('schemas', { keyPath: 'key' });
+      schemas.createIndex('chainId', 'chainId');
+      db.createObjectStore('cursors', { keyPath: 'key' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const getDatabase = () => {
+  databasePromise ??= openDatabase().catch((err) => {
+    databasePromise = null;
+    throw err;
+  });
+  return databasePromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const toStoredAttestation = (chainId: number, attestation: IndexedAttestation): StoredAttestation => ({
+  key: recordKey(chainId, attestation.uid),
+  chainId,
+  uid: attestation.uid,
+  schema: attestation.schema.toLowerCase(),
+  refUID: attestation.refUID,
+  recipient: ethers.getAddress(attestation.recipient),
+  attester: ethers.getAddress(attestation.attester),
+  time: attestation.time.toString(),
+  expirationTime: attestation.expirationTime.toString(),
+  revocationTime: attestation.revocationTime.toString(),
+  revocable: attestation.revocable,
+  data: attestation.data,
+  txid: attestation.txid,
+});
+
+const fromStoredAttestation = (stored: StoredAttestation, schemaDefinition: string): IndexedAttestation => ({
+  uid: stored.uid,
+  schema: stored.schema,
+  refUID: stored.refUID,
+  recipient: stored.recipient,
+  attester: stored.attester,
+  time: BigInt(stored.time),
+  expirationTime: BigInt(stored.expirationTime),
+  revocationTime: BigInt(stored.revocationTime),
+  revocable: stored.revocable,
+  data: stored.data,
+  txid: stored.txid,
+  schemaDefinition,
+});
+
+/** Drops everything indexed for a chain, e.g. after a devnet restart. */
+export const clearLocalIndex = async (chainId: number) => {
+  const db = await getDatabase();
+  const tx = db.transaction(['attestations', 'schemas', 'cursors'], 'readwrite');
+  for (const storeName of ['attestations', 'schemas'] as const) {
+    const store = tx.objectStore(storeName);
+    const keys = await requestResult(store.index('chainId').getAllKeys(IDBKeyRange.only(chainId)));
+    keys.forEach((key) => store.delete(key));
+  }
+  const cursors = tx.objectStore('cursors');
+  const cursorKeys = await requestResult(cursors.getAllKeys());
+  cursorKeys.filter((key) => String(key).startsWith(`${chainId}:`)).forEach((key) => cursors.delete(key));
+  await transactionDone(tx);
+};
+
+/** === Sync === */
+export interface LocalIndexProgress {
+  // Last block stored so far
+  indexedBlock: number;
+  latestBlock: number;
+}
+
+// Limits concurrent getAttestation calls
+const mapInBatches = async <T, R>(items: T[], size: number, map: (item: T) => Promise<R>): Promise<R[]> => {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += size) {
+    results.push(...(await Promise.all(items.slice(i, i + size).map(map))));
+  }
+  return results;
+};
+
+/**
+ * Indexes one block range. Attestations are re-read with `getAttestation`, so a
+ * revocation in the same range is already reflected; `Revoked` logs refresh
+ * attestations indexed earlier.
+ */
+const indexRange = async (
+  provider: ethers.Provider,
+  network: NetworkConfig,
+  eas: EAS,
+  fromBlock: number,
+  toBlock: number
+) => {
+  const [easLogs, registryLogs] = await Promise.all([
+    provider.getLogs({ address: network.easAddress, topics: [[ATTESTED_TOPIC, REVOKED_TOPIC]], fromBlock, toBlock }),
+    provider.getLogs({ address: network.schemaRegistryAddress, topics: [REGISTERED_TOPIC], fromBlock, toBlock }),
+  ]);
+
+  // uid -> hash of the transaction that created it (unknown for revocations of older attestations)
+  const touched = new Map<string, string | null>();
+  for (const log of easLogs) {
+    const parsed = EAS_EVENTS.parseLog(log);
+    if (!parsed) continue;
+    const uid = String(parsed.args.uid).toLowerCase();
+    if (parsed.name === 'Attested') touched.set(uid, log.transactionHash);
+    else if (!touched.has(uid)) touched.set(uid, null);
+  }
+
+  const attestations = await mapInBatches([...touched.keys()], ATTESTATION_FETCH_CONCURRENCY, async (uid) => {
+    const attestation = await eas.getAttestation(uid);
+    return attestation.uid === ethers.ZeroHash ? null : { attestation, txid: touched.get(uid) ?? null };
+  });
+
+  const blockTimes = new Map<number, number>();
+  for (const log of registryLogs) {
+    if (!blockTimes.has(log.blockNumber)) {
+      const block = await provider.getBlock(log.blockNumber);
+      blockTimes.set(log.blockNumber, block?.timestamp ?? 0);
+    }
+  }
+
+  const db = await getDatabase();
+  const tx = db.transaction(['attestations', 'schemas', 'cursors'], 'readwrite');
+  const attestationStore = tx.objectStore('attestations');
+  for (const entry of attestations) {
+    if (!entry) continue;
+    const { attestation, txid } = entry;
+    const key = recordKey(network.chainId, attestation.uid);
+    const previous = txid ? undefined : ((await requestResult(attestationStore.get(key))) as StoredAttestation | undefined);
+    // getAttestation returns an ethers Result, whose named fields don't survive a spread
+    attestationStore.put(
+      toStoredAttestation(network.chainId, {
+        uid: attestation.uid,
+        schema: attestation.schema,
+        refUID: attestation.refUID,
+        recipient: attestation.recipient,
+        attester: attestation.attester,
+        time: attestation.time,
+        expirationTime: attestation.expirationTime,
+        revocationTime: attestation.revocationTime,
+        revocable: attestation.revocable,
+        data: attestation.data,
+        txid: txid ?? previous?.txid ?? '',
+        schemaDefinition: '',
+      })
+    );
+  }
+
+  const schemaStore = tx.objectStore('schemas');
+  for (const log of registryLogs) {
+    const parsed = REGISTRY_EVENTS.parseLog(log);
+    if (!parsed) continue;
+    const uid = String(parsed.args.uid).toLowerCase();
+    const record = parsed.args.schema;
+    const schema: StoredSchema = {
+      key: recordKey(network.chainId, uid),
+      chainId: network.chainId,
+      uid,
+      definition: String(record.schema),
+      resolver: String(record.resolver),
+      revocable: Boolean(record.revocable),
+      creator: String(parsed.args.registerer),
+      time: blockTimes.get(log.blockNumber) ?? 0,
+    };
+    schemaStore.put(schema);
+  }
+
+  // Stored with the range's records, so an interrupted sync resumes at the right block
+  const cursor: SyncCursor = { key: cursorKey(network), chainId: network.chainId, lastBlock: toBlock };
+  tx.objectStore('cursors').put(cursor);
+  await transactionDone(tx);
+};
+
+const runSync = async (
+  provider: ethers.Provider,
+  network: NetworkConfig,
+  onProgress?: (progress: LocalIndexProgress) => void
+): Promise<LocalIndexProgress> => {
+  const db = await getDatabase();
+  const latestBlock = await provider.getBlockNumber();
+  let cursor = (await requestResult(
+    db.transaction('cursors').objectStore('cursors').get(cursorKey(network))
+  )) as SyncCursor | undefined;
+
+  // A devnet that was restarted is behind what we indexed; start over
+  if (cursor && cursor.lastBlock > latestBlock) {
+    await clearLocalIndex(network.chainId);
+    cursor = undefined;
+  }
+
+  const eas = new EAS(network.easAddress);
+  eas.connect(provider);
+
+  let fromBlock = cursor ? cursor.lastBlock + 1 : network.indexerStartBlock;
+  let range = DEFAULT_SYNC_BLOCK_RANGE;
+  while (fromBlock <= latestBlock) {
+    const toBlock = Math.min(fromBlock + range - 1, latestBlock);
+    try {
+      await indexRange(provider, network, eas, fromBlock, toBlock);
+    } catch (err) {
+      if (range <= MIN_SYNC_BLOCK_RANGE) throw err;
+      range = Math.max(MIN_SYNC_BLOCK_RANGE, Math.floor(range / 2));
+      continue;
+    }
+    onProgress?.({ indexedBlock: toBlock, latestBlock });
+    fromBlock = toBlock + 1;
+  }
+
+  return { indexedBlock: latestBlock, latestBlock };
+};
+
+// One sync at a time per chain and contract set; later callers share it
+const runningSyncs = new Map<string, Promise<LocalIndexProgress>>();
+
+/** Brings the local index up to the latest block, starting where the last sync stopped. */
+export const syncLocalIndex = (
+  provider: ethers.Provider,
+  network: NetworkConfig,
+  onProgress?: (progress: LocalIndexProgress) => void
+): Promise<LocalIndexProgress> => {
+  if (!hasContracts(network)) {
+    return Promise.reject(new Error(`EAS contracts are not configured for ${network.name}.`));
+  }
+  const key = cursorKey(network);
+  let running = runningSyncs.get(key);
+  if (!running) {
+    running = runSync(provider, network, onProgress).finally(() => runningSyncs.delete(key));
+    runningSyncs.set(key, running);
+  }
+  return running;
+};
+
+/** === Queries === */
+const getSchemaDefinitions = async (chainId: number): Promise<Map<string, string>> => {
+  const db = await getDatabase();
+  const schemas = (await requestResult(
+    db.transaction('schemas').objectStore('schemas').index('chainId').getAll(IDBKeyRange.only(chainId))
+  )) as StoredSchema[];
+  return new Map(schemas.map((s) => [s.uid, s.definition]));
+};
+
+/** Every indexed attestation matching the search, sorted by time; same filters as the RAS indexer. */
+export const queryLocalAttestations = async (
+  chainId: number,
+  params: Omit<AttestationSearchParams, 'page' | 'pageSize'>,
+  now: number = nowInSeconds()
+): Promise<IndexedAttestation[]> => {
+  const value = normalizeSearchValue(params.field, params.value);
+  const db = await getDatabase();
+  const stored = (await requestResult(
+    db.transaction('attestations').objectStore('attestations').index(params.field).getAll(IDBKeyRange.only([chainId, value]))
+  )) as StoredAttestation[];
+  const definitions = await getSchemaDefinitions(chainId);
+
+  const direction = params.sort === 'asc' ? 1 : -1;
+  return stored
+    .map((s) => fromStoredAttestation(s, definitions.get(s.schema) ?? ''))
+    .filter((a) => !params.excludeRevoked || a.revocationTime === BigInt(0))
+    .filter((a) => !params.excludeExpired || a.expirationTime === BigInt(0) || a.expirationTime > BigInt(now))
+    .sort((a, b) => (a.time === b.time ? 0 : a.time > b.time ? direction : -direction));
+};
+
+/** Registered schemas, newest first, with attestation counts. */
+export const listLocalSchemas = async (chainId: number): Promise<CatalogSchema[]> => {
+  const db = await getDatabase();
+  const tx = db.transaction(['schemas', 'attestations']);
+  const schemas = (await requestResult(
+    tx.objectStore('schemas').index('chainId').getAll(IDBKeyRange.only(chainId))
+  )) as StoredSchema[];
+  const bySchema = tx.objectStore('attestations').index('schema');
+  const counts = await Promise.all(schemas.map((s) => requestResult(bySchema.count(IDBKeyRange.only([chainId, s.uid])))));
+
+  return schemas
+    .map((s, i) => ({
+      uid: s.uid,
+      definition: s.definition,
+      resolver: s.resolver,
+      revocable: s.revocable,
+      creator: s.creator,
+      time: s.time,
+      attestationCount: counts[i],
+    }))
+    .sort((a, b) => b.time - a.time);
+};
+
+/** Published names and descriptions from the indexed metadata attestations; see fetchSchemaMetadata. */
+export const queryLocalSchemaMetadata = async (
+  chainId: number,
+  schemaUIDs: string[]
+): Promise<Record<string, SchemaMetadata>> => {
+  const uids = normalizeSchemaUIDs(schemaUIDs);
+  if (uids.length === 0) return {};
+
+  const [names, descriptions] = await Promise.all(
+    [SCHEMA_NAME_SCHEMA_UID, SCHEMA_DESCRIPTION_SCHEMA_UID].map((schema) =>
+      queryLocalAttestations(chainId, { field: 'schema', value: schema, excludeRevoked: true })
+    )
+  );
+  const rows = [...names, ...descriptions].sort((a, b) => (a.time === b.time ? 0 : a.time > b.time ? -1 : 1));
+
+  const db = await getDatabase();
+  const schemaStore = db.transaction('schemas').objectStore('schemas');
+  const schemas = (await Promise.all(
+    uids.map((uid) => requestResult(schemaStore.get(recordKey(chainId, uid))))
+  )) as (StoredSchema | undefined)[];
+  const creators = new Map(schemas.flatMap((s) => (s ? [[s.uid.toLowerCase(), s.creator.toLowerCase()] as const] : [])));
+
+  return resolveSchemaMetadata(
+    uids,
+    rows.map((a) => ({ schemaId: a.schema, attester: a.attester, data: a.data })),
+    creators
+  );
+};
+
+/** === Unified Search === */
+// Listing features go through these: the RAS indexer when the network has one,
+// otherwise the local index, synced right before it is read.
+
+export const canSearchAttestations = (network: NetworkConfig): boolean => !!network.indexerUrl || hasContracts(network);
+
+export const searchNetworkAttestations = async (
+  network: NetworkConfig,
+  provider: ethers.Provider,
+  params: AttestationSearchParams
+): Promise<AttestationSearchPage> => {
+  if (network.indexerUrl) return searchAttestations(network.indexerUrl, params);
+
+  await syncLocalIndex(provider, network);
+  const pageSize = params.pageSize ?? DEFAULT_PAGE_SIZE;
+  const start = (params.page ?? 0) * pageSize;
+  const matches = await queryLocalAttestations(network.chainId, params);
+  return { attestations: matches.slice(start, start + pageSize), hasMore: matches.length > start + pageSize };
+};
+
+export const fetchAllNetworkAttestations = async (
+  network: NetworkConfig,
+  provider: ethers.Provider,
+  params: Omit<AttestationSearchParams, 'page'>
+): Promise<IndexedAttestation[]> => {
+  if (network.indexerUrl) return fetchAllAttestations(network.indexerUrl, params);
+
+  await syncLocalIndex(provider, network);
+  return queryLocalAttestations(network.chainId, params);
+};
+
+export const fetchNetworkSchemaMetadata = async (
+  network: NetworkConfig,
+  provider: ethers.Provider,
+  schemaUIDs: string[]
+): Promise<Record<string, SchemaMetadata>> => {
+  if (network.indexerUrl) return fetchSchemaMetadata(network.indexerUrl, schemaUIDs);
+
+  await syncLocalIndex(provider, network);
+  return queryLocalSchemaMetadata(network.chainId, schemaUIDs);
+};
@@ -0,0 +1,139 @@
+import { ethers } from 'ethers';
+
+// --- Network Registry ---
+// Single source of truth for every chain the dApp can talk to. Modals and hooks
+// resolve contract addresses, explorer links and the indexer endpoint from here
+// instead of keeping their own copies.
+
+export type ExplorerEntity = 'attestation' | 'schema' | 'tx' | 'address';
+
+export interface NetworkConfig {
+  chainId: number;
+  name: string;
+  shortName: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  rpcUrl: string;
+  easAddress: string;
+  schemaRegistryAddress: string;
+  // null when the network has no block explorer (e.g. a local devnet)
+  explorerUrl: string | null;
+  indexerUrl: string | null;
+  // First block the local event indexer scans, ideally the EAS deployment block
+  indexerStartBlock: number;
+  // Where to get test funds; null on mainnet and local devnets
+  faucetUrl: string | null;
+  isTestnet: boolean;
+}
+
+export const ROOTSTOCK_MAINNET_CHAIN_ID = 30;
+export const ROOTSTOCK_TESTNET_CHAIN_ID = 31;
+export const LOCAL_DEVNET_CHAIN_ID = Number(process.env.NEXT_PUBLIC_DEVNET_CHAIN_ID || 31337);
+
+const ROOTSTOCK_MAINNET: NetworkConfig = {
+  chainId: ROOTSTOCK_MAINNET_CHAIN_ID,
+  name: 'Rootstock Mainnet',
+  shortName: 'RSK Mainnet',
+  nativeCurrency: { name: 'RBTC', symbol: 'RBTC', decimals: 18 },
+  rpcUrl: process.env.NEXT_PUBLIC_MAINNET_RPC_URL || 'https://public-node.rsk.co',
+  easAddress: '0x54c0726e9d2d57bc37ad52c7e219a3229e0ee963',
+  schemaRegistryAddress: '0xef29675d82cc5967069d6d9c17f2719f67728f5b',
+  explorerUrl: 'https://explorer.rootstock.io',
+  indexerUrl: process.env.NEXT_PUBLIC_MAINNET_INDEXER_URL || 'https://ras.indexer.rootstock.io/graphql',
+  indexerStartBlock: Number(process.env.NEXT_PUBLIC_MAINNET_INDEXER_START_BLOCK || 0),
+  faucetUrl: null,
+  isTestnet: false,
+};
+
+const ROOTSTOCK_TESTNET: NetworkConfig = {
+  chainId: ROOTSTOCK_TESTNET_CHAIN_ID,
+  name: 'Rootstock Testnet',
+  shortName: 'RSK Testnet',
+  nativeCurrency: { name: 'tRBTC', symbol: 'tRBTC', decimals: 18 },
+  rpcUrl: process.env.NEXT_PUBLIC_TESTNET_RPC_URL || 'https://public-node.testnet.rsk.co',
+  easAddress: '0xc300aeeadd60999933468738c9f5d7e9c0671e1c',
+  schemaRegistryAddress: '0x679c62956cd2801ababf80e9d430f18859eea2d5',
+  explorerUrl: 'https://explorer.testnet.rootstock.io',
+  indexerUrl: process.env.NEXT_PUBLIC_TESTNET_INDEXER_URL || 'https://ras.indexer.testnet.rootstock.io/graphql',
+  indexerStartBlock: Number(process.env.NEXT_PUBLIC_TESTNET_INDEXER_START_BLOCK || 0),
+  faucetUrl: 'https://faucet.rootstock.io',
+  isTestnet: true,
+};
+
+// Local devnet (Hardhat / Anvil). EAS contracts have to be deployed locally,
+// so their addresses come from the environment.
+const LOCAL_DEVNET: NetworkConfig = {
+  chainId: LOCAL_DEVNET_CHAIN_ID,
+  name: 'Local Devnet',
+  shortName: 'Devnet',
+  nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+  rpcUrl: process.env.NEXT_PUBLIC_DEVNET_RPC_URL || 'http://127.0.0.1:8545',
+  easAddress: process.env.NEXT_PUBLIC_DEVNET_EAS_ADDRESS || ethers.ZeroAddress,
+  schemaRegistryAddress: process.env.NEXT_PUBLIC_DEVNET_SCHEMA_REGISTRY_ADDRESS || ethers.ZeroAddress,
+  explorerUrl: null,
+  indexerUrl: process.env.NEXT_PUBLIC_DEVNET_INDEXER_URL || null,
+  indexerStartBlock: Number(process.env.NEXT_PUBLIC_DEVNET_INDEXER_START_BLOCK || 0),
+  faucetUrl: null,
+  isTestnet: true,
+};
+
+export const NETWORKS: NetworkConfig[] = [ROOTSTOCK_MAINNET, ROOTSTOCK_TESTNET, LOCAL_DEVNET];
+
+export const DEFAULT_CHAIN_ID = Number(process.env.NEXT_PUBLIC_DEFAULT_CHAIN_ID || ROOTSTOCK_TESTNET_CHAIN_ID);
+
+export const getNetwork = (chainId: number | bigint | null | undefined): NetworkConfig | undefined => {
+  if (chainId === null || chainId === undefined) return undefined;
+  return NETWORKS.find((n) => n.chainId === Number(chainId));
+};
+
+export const getDefaultNetwork = (): NetworkConfig => getNetwork(DEFAULT_CHAIN_ID) ?? ROOTSTOCK_TESTNET;
+
+/** Parameters for `wallet_addEthereumChain` / `wallet_switchEthereumChain`. */
+export const toAddEthereumChainParams = (network: NetworkConfig) => ({
+  chainId: ethers.toQuantity(network.chainId),
+  chainName: network.name,
+  nativeCurrency: network.nativeCurrency,
+  rpcUrls: [network.rpcUrl],
+  blockExplorerUrls: network.explorerUrl ? [network.explorerUrl] : undefined,
+});
+
+/** Builds an explorer link for the given entity, or null when the network has no explorer. */
+export const getExplorerUrl = (network: NetworkConfig, entity: ExplorerEntity, id: string): string | null => {
+  if (!network.explorerUrl) return null;
+  switch (entity) {
+    case 'attestation':
+      return `${network.explorerUrl}/ras/attestation/${id}`;
+    case 'schema':
+      return `${network.explorerUrl}/ras/schema/${id}`;
+    case 'tx':
+      return `${network.explorerUrl}/tx/${id}`;
+    case 'address':
+      return `${network.explorerUrl}/address/${id}`;
+  }
+};
+
+/** === Read-only Access === */
+// Replaces every network's RPC URL for reads, e.g. to point tests at a local node
+const READ_RPC_URL_OVERRIDE = process.env.NEXT_PUBLIC_READ_RPC_URL || null;
+
+const readProviders = new Map<string, ethers.JsonRpcProvider>();
+
+export const getReadRpcUrl = (network: NetworkConfig, override?: string | null): string =>
+  override || READ_RPC_URL_OVERRIDE || network.rpcUrl;
+
+/**
+ * Shared JsonRpcProvider for reading a network's contracts without a wallet.
+ * One instance per chain and URL; the chain ID is fixed, so no detection call is made.
+ */
+export const getReadProvider = (network: NetworkConfig, rpcUrl: string = getReadRpcUrl(network)): ethers.JsonRpcProvider => {
+  const key = `${network.chainId}:${rpcUrl}`;
+  let provider = readProviders.get(key);
+  if (!provider) {
+    provider = new ethers.JsonRpcProvider(rpcUrl, network.chainId, { staticNetwork: true });
+    readProviders.set(key, provider);
+  }
+  return provider;
+};
+
+/** True when the EAS contracts are actually configured for this network. */
+export const hasContracts = (network: NetworkConfig): boolean =>
+  network.easAddress !== ethers.ZeroAddress && network.schemaRegistryAddress !== ethers.ZeroAddress;
@@ -0,0 +1,156 @@
+// --- Offchain Attestation Helpers ---
+// EIP-712 signed attestations that never touch the chain. A package bundles the
+// signed attestation with its signer so it can be exported, shared and verified.
+
+import {
+  AttestationShareablePackageObject,
+  EAS,
+  Offchain,
+  OffchainAttestationVersion,
+  SignedOffchainAttestation,
+  decodeBase64ZippedBase64,
+  zipAndEncodeToBase64,
+} from '@ethereum-attestation-service/eas-sdk';
+import { ethers, Signer } from 'ethers';
+import { NetworkConfig, getNetwork } from './networks';
+
+export type OffchainAttestationPackage = AttestationShareablePackageObject;
+
+export interface OffchainAttestationInput {
+  schema: string;
+  recipient: string;
+  expirationTime: bigint;
+  revocable: boolean;
+  refUID: string;
+  data: string;
+}
+
+export interface OffchainVerification {
+  // The EIP-712 signature recovers to the declared signer and the UID matches the payload
+  signatureValid: boolean;
+  signer: string;
+  // Supported network the signing domain points to, if any
+  network?: NetworkConfig;
+  // The domain's verifying contract is the EAS deployment of that network
+  isKnownContract: boolean;
+  error?: string;
+}
+
+// Query parameter used by this app's share links; EAS explorers use #attestation=
+export const OFFCHAIN_URL_PARAM = 'offchain';
+
+const jsonReplacer = (_key: string, v: unknown) => (typeof v === 'bigint' ? v.toString() : v);
+
+/** Signs an attestation with the EAS EIP-712 domain of the connected network. */
+export const signOffchainAttestation = async (
+  network: NetworkConfig,
+  signer: Signer,
+  input: OffchainAttestationInput
+): Promise<OffchainAttestationPackage> => {
+  const eas = new EAS(network.easAddress);
+  eas.connect(signer);
+  const offchain = await eas.getOffchain();
+  const sig = await offchain.signOffchainAttestation(
+    { ...input, time: BigInt(Math.floor(Date.now() / 1000)) },
+    signer
+  );
+  return { sig, signer: await signer.getAddress() };
+};
+
+export const serializeOffchainPackage = (pkg: OffchainAttestationPackage): string =>
+  JSON.stringify(pkg, jsonReplacer, 2);
+
+/** Compact, gzipped base64 form used by share links (same encoding as the EAS explorers). */
+export const encodeOffchainPackage = (pkg: OffchainAttestationPackage): string => zipAndEncodeToBase64(pkg);
+
+export const buildOffchainShareUrl = (origin: string, pkg: OffchainAttestationPackage): string =>
+  `${origin}/?${OFFCHAIN_URL_PARAM}=${encodeURIComponent(encodeOffchainPackage(pkg))}`;
+
+/** JSON turns bigints into strings; restore them so UID and signature checks hash the same values. */
+const normalizePackage = (pkg: OffchainAttestationPackage): OffchainAttestationPackage => {
+  const { sig } = pkg;
+  if (!sig?.message || !sig.domain || !sig.signature) {
+    throw new Error('Not a signed offchain attestation.');
+  }
+  if (!pkg.signer || !ethers.isAddress(pkg.signer)) {
+    throw new Error('The attestation package does not name a valid signer.');
+  }
+  return {
+    signer: pkg.signer,
+    sig: {
+      ...sig,
+      domain: { ...sig.domain, chainId: BigInt(sig.domain.chainId) },
+      message: {
+        ...sig.message,
+        time: BigInt(sig.message.time),
+        expirationTime: BigInt(sig.message.expirationTime),
+      },
+    },
+  };
+};
+
+/**
+ * Accepts the JSON export, a share link (this app's ?offchain= or an explorer's
+ * #attestation=) or the bare encoded string.
+ */
+export const parseOffchainInput = (raw: string): OffchainAttestationPackage => {
+  const input = raw.trim();
+  if (!input) throw new Error('Paste an offchain attestation, link or JSON file.');
+
+  if (input.startsWith('{')) {
+    let parsed: OffchainAttestationPackage;
+    try {
+      parsed = JSON.parse(input);
+    } catch {
+      throw new Error('The attestation JSON could not be parsed.');
+    }
+    return normalizePackage(parsed);
+  }
+
+  const match = input.match(new RegExp(`[#?&](?:${OFFCHAIN_URL_PARAM}|attestation)=([^&#]+)`));
+  const encoded = match ? decodeURIComponent(match[1]) : input;
+  let decoded: OffchainAttestationPackage;
+  try {
+    decoded = decodeBase64ZippedBase64(encoded);
+  } catch {
+    throw new Error('The link does not contain a readable offchain attestation.');
+  }
+  return normalizePackage(decoded);
+};
+
+/** Checks UID, EIP-712 signature and signer locally; no RPC call is needed. */
+export const verifyOffchainPackage = (pkg: OffchainAttestationPackage): OffchainVerification => {
+  const { sig, signer } = pkg;
+  const network = getNetwork(sig.domain.chainId);
+  const isKnownContract =
+    !!network && network.easAddress.toLowerCase() === sig.domain.verifyingContract.toLowerCase();
+
+  try {
+    // The handler only compares against its own domain, so build it from the one that was signed
+    const offchain = new Offchain(
+      { address: sig.domain.verifyingContract, version: sig.domain.version, chainId: BigInt(sig.domain.chainId) },
+      sig.version ?? OffchainAttestationVersion.Legacy,
+      new EAS(sig.domain.verifyingContract)
+    );
+    const signatureValid = offchain.verifyOffchainAttestationSignature(signer, sig as SignedOffchainAttestation);
+    return { signatureValid, signer: ethers.getAddress(signer), network, isKnownContract };
+  } catch (err) {
+    return {
+      signatureValid: false,
+      signer,
+      network,
+      isKnownContract,
+      error: (err as Error)?.message || (err as Error)?.name || String(err),
+    };
+  }
+};
+
+/** Triggers a browser download of the package as a JSON file. */
+export const downloadOffchainPackage = (pkg: OffchainAttestationPackage) => {
+  const url = URL.createObjectURL(new Blob([serializeOffchainPackage(pkg)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `offchain-attestation-${pkg.sig.uid.slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,221 @@
+// --- Relayer (server only) ---
+// Submits delegated attestations for the /api/relay/attest route. Never import this
+// from client components: it reads the relayer private key from the environment.
+//
+// Environment:
+//   RELAYER_PRIVATE_KEY           key of the account that pays for relayed attestations
+//   RELAYER_SCHEMA_ALLOWLIST      comma-separated schema UIDs the relayer sponsors
+//   RELAYER_MAX_DEADLINE_SECONDS  how far in the future a request deadline may be (default 1 day)
+
+import { EAS } from '@ethereum-attestation-service/eas-sdk';
+import { ethers } from 'ethers';
+import { nowInSeconds } from './attestations';
+import { formatError } from './errors';
+import { DelegatedAttestationPayload, RelayedAttestation, RelayerStatus } from './delegation';
+import { getNetwork, hasContracts } from './networks';
+import { SiweSession } from './siwe';
+
+/** A request the relayer refuses; `status` is the HTTP status the route responds with. */
+export class RelayRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'RelayRequestError';
+    this.status = status;
+  }
+}
+
+interface RelayerConfig {
+  privateKey: string;
+  schemas: string[];
+  maxDeadlineSeconds: number;
+}
+
+// Requests whose deadline is closer than this would likely expire before they are mined
+const DEADLINE_MARGIN_SECONDS = 60;
+const DEFAULT_MAX_DEADLINE_SECONDS = 24 * 60 * 60;
+
+// attester+nonce pairs currently being submitted, so a request replayed while the
+// first one is pending is rejected instead of burning gas on a revert
+const pendingNonces = new Set<string>();
+
+const getRelayerConfig = (): RelayerConfig | null => {
+  const privateKey = process.env.RELAYER_PRIVATE_KEY;
+  if (!privateKey) return null;
+  const schemas = (process.env.RELAYER_SCHEMA_ALLOWLIST ?? '')
+    .split(',')
+    .map((uid) => uid.trim().toLowerCase())
+    .filter(Boolean);
+  const maxDeadlineSeconds = Number(process.env.RELAYER_MAX_DEADLINE_SECONDS) || DEFAULT_MAX_DEADLINE_SECONDS;
+  return { privateKey, schemas, maxDeadlineSeconds };
+};
+
+export const getRelayerStatus = (): RelayerStatus => {
+  const config = getRelayerConfig();
+  if (!config) return { enabled: false, schemas: [] };
+  return { enabled: true, relayer: new ethers.Wallet(config.privateKey).address, schemas: config.schemas };
+};
+
+/** === Payload Validation === */
+const toBigInt = (value: unknown, name: string): bigint => {
+  try {
+    if (typeof value !== 'string' && typeof value !== 'number') throw new Error();
+    return BigInt(value);
+  } catch {
+    throw new RelayRequestError(`${name} must be an integer.`);
+  }
+};
+
+const requireHex = (value: unknown, name: string, bytes?: number): string => {
+  if (typeof value !== 'string' || !ethers.isHexString(value, bytes)) {
+    throw new RelayRequestError(`${name} must be a ${bytes ? `${bytes}-byte ` : ''}hex string.`);
+  }
+  return value;
+};
+
+const requireAddress = (value: unknown, name: string): string => {
+  if (typeof value !== 'string' || !ethers.isAddress(value)) {
+    throw new RelayRequestError(`${name} must be a valid address.`);
+  }
+  return ethers.getAddress(value);
+};
+
+const parsePayload = (body: unknown) => {
+  if (!body || typeof body !== 'object') throw new RelayRequestError('Request body must be a JSON object.');
+  const payload = body as Partial<DelegatedAttestationPayload>;
+  const { signature } = payload;
+  if (!signature || typeof signature.v !== 'number') throw new RelayRequestError('signature is missing.');
+  if (typeof payload.revocable !== 'boolean') throw new RelayRequestError('revocable must be a boolean.');
+  if (typeof payload.primaryType !== 'string' || !payload.types) throw new RelayRequestError('EIP-712 types are missing.');
+
+  return {
+    chainId: Number(payload.chainId),
+    attester: requireAddress(payload.attester, 'attester'),
+    schema: requireHex(payload.schema, 'schema', 32),
+    recipient: requireAddress(payload.recipient, 'recipient'),
+    expirationTime: toBigInt(payload.expirationTime, 'expirationTime'),
+    revocable: payload.revocable,
+    refUID: requireHex(payload.refUID, 'refUID', 32),
+    data: requireHex(payload.data, 'data'),
+    value: toBigInt(payload.value, 'value'),
+    nonce: toBigInt(payload.nonce, 'nonce'),
+    deadline: toBigInt(payload.deadline, 'deadline'),
+    signature: { v: signature.v, r: requireHex(signature.r, 'signature.r', 32), s: requireHex(signature.s, 'signature.s', 32) },
+    primaryType: payload.primaryType,
+    types: payload.types,
+  };
+};
+
+/**
+ * Validates a signed request and submits it with `attestByDelegation`.
+ * `caller` is the request's Sign-In with Ethereum session; it must be the attester.
+ * Checks, cheapest first: caller, schema allowlist, value, deadline window, in-flight
+ * nonce, on-chain nonce, EIP-712 signature, then a gas estimate that simulates
+ * the call so resolver rejections don't cost the relayer a reverted transaction.
+ */
+export const relayDelegatedAttestation = async (body: unknown, caller: SiweSession | null): Promise<RelayedAttestation> => {
+  const config = getRelayerConfig();
+  if (!config) throw new RelayRequestError('Relaying is not configured on this server.', 503);
+
+  const request = parsePayload(body);
+  const network = getNetwork(request.chainId);
+  if (!network || !hasContracts(network)) {
+    throw new RelayRequestError(`Chain ${request.chainId} is not supported by the relayer.`);
+  }
+  // Only the signed-in attester may spend the relayer's gas, and only on the chain they signed in on
+  if (!caller) {
+    throw new RelayRequestError('Sign in with your wallet before using the relayer.', 401);
+  }
+  if (caller.address.toLowerCase() !== request.attester.toLowerCase() || caller.chainId !== request.chainId) {
+    throw new RelayRequestError('The request must be signed by the signed-in account, on the network it signed in on.', 403);
+  }
+  if (!config.schemas.includes(request.schema.toLowerCase())) {
+    throw new RelayRequestError('The relayer does not sponsor this schema.', 403);
+  }
+  if (request.value !== BigInt(0)) {
+    throw new RelayRequestError('The relayer does not sponsor attestation value.', 403);
+  }
+
+  const now = nowInSeconds();
+  if (request.deadline <= BigInt(now + DEADLINE_MARGIN_SECONDS)) {
+    throw new RelayRequestError('The signed request has expired. Sign it again.');
+  }
+  if (request.deadline > BigInt(now + config.maxDeadlineSeconds)) {
+    throw new RelayRequestError('The request deadline is too far in the future.');
+  }
+
+  const nonceKey = `${network.chainId}:${request.attester.toLowerCase()}:${request.nonce}`;
+  if (pendingNonces.has(nonceKey)) {
+    throw new RelayRequestError('This request is already being relayed.', 409);
+  }
+  pendingNonces.add(nonceKey);
+
+  try {
+    const provider = new ethers.JsonRpcProvider(network.rpcUrl, network.chainId, { staticNetwork: true });
+    const wallet = new ethers.Wallet(config.privateKey, provider);
+    const eas = new EAS(network.easAddress);
+    eas.connect(wallet);
+
+    const currentNonce = await eas.getNonce(request.attester);
+    if (currentNonce !== request.nonce) {
+      throw new RelayRequestError('The request nonce is stale; it was already used or signed out of order.', 409);
+    }
+
+    // Verify against the relayer's own domain so a request signed for another contract or chain is rejected
+    const delegated = await eas.getDelegated();
+    const message = {
+      schema: request.schema,
+      recipient: request.recipient,
+      expirationTime: request.expirationTime,
+      revocable: request.revocable,
+      refUID: request.refUID,
+      data: request.data,
+      value: request.value,
+      nonce: request.nonce,
+      deadline: request.deadline,
+    };
+    let isValidSignature = false;
+    try {
+      isValidSignature = delegated.verifyDelegatedAttestationSignature(request.attester, {
+        domain: delegated.getDomainTypedData(),
+        primaryType: request.primaryType,
+        types: request.types,
+        message,
+        signature: request.signature,
+      });
+    } catch {
+      isValidSignature = false;
+    }
+    if (!isValidSignature) {
+      throw new RelayRequestError('The signature does not match the attester.', 401);
+    }
+
+    const tx = await eas.attestByDelegation({
+      schema: request.schema,
+      data: {
+        recipient: request.recipient,
+        expirationTime: request.expirationTime,
+        revocable: request.revocable,
+        refUID: request.refUID,
+        data: request.data,
+        value: request.value,
+      },
+      signature: request.signature,
+      attester: request.attester,
+      deadline: request.deadline,
+    });
+
+    try {
+      await tx.estimateGas();
+    } catch (err) {
+      // Decodes EAS custom errors (InvalidSchema, InvalidExpirationTime, ...) for the client
+      throw new RelayRequestError(`The attestation would revert: ${formatError(err)}`, 422);
+    }
+
+    const uid = await tx.wait();
+    return { uid, txHash: tx.receipt?.hash ?? '' };
+  } finally {
+    pendingNonces.delete(nonceKey);
+  }
+};
@@ -0,0 +1,194 @@
+import { Attestation, SchemaEncoder } from '@ethereum-attestation-service/eas-sdk';
+import { ethers } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { LOAN_SCHEMA_DEFINITION, LOAN_SCHEMA_UID, LoanStatus, encodeLoanEvent } from '@/lib/loans';
+import {
+  REPUTATION_SCHEMA_DEFINITION,
+  REPUTATION_SCHEMA_UID,
+  ScorableAttestation,
+  ScoringConfig,
+  computeReputationScore,
+} from '@/lib/reputation';
+
+const NOW = 1_700_000_000;
+const SUBJECT = '0x1111111111111111111111111111111111111111';
+const ATTESTER = '0x2222222222222222222222222222222222222222';
+const OTHER = '0x3333333333333333333333333333333333333333';
+// Independent issuers, for tests that need more than one attester
+const attesters = (count: number) => Array.from({ length: count }, (_, i) => ethers.toBeHex(0x1000 + i, 20));
+
+const scoreEncoder = new SchemaEncoder(REPUTATION_SCHEMA_DEFINITION);
+
+let nextUID = 1;
+
+const attestation = (overrides: Partial<Attestation>): Attestation => ({
+  uid: ethers.toBeHex(nextUID++, 32),
+  schema: REPUTATION_SCHEMA_UID,
+  refUID: ethers.ZeroHash,
+  time: BigInt(NOW - 1000),
+  expirationTime: BigInt(0),
+  revocationTime: BigInt(0),
+  recipient: SUBJECT,
+  attester: ATTESTER,
+  revocable: true,
+  data: '0x',
+  ...overrides,
+});
+
+const scoreAttestation = (score: number, overrides: Partial<Attestation> = {}): ScorableAttestation => ({
+  attestation: attestation({
+    data: scoreEncoder.encodeData([{ name: 'score', value: score, type: 'uint8' }]),
+    ...overrides,
+  }),
+  schemaDefinition: REPUTATION_SCHEMA_DEFINITION,
+});
+
+const loanAttestation = (status: LoanStatus, overrides: Partial<Attestation> = {}): ScorableAttestation => ({
+  attestation: attestation({
+    schema: LOAN_SCHEMA_UID,
+    data: encodeLoanEvent(ATTESTER, {
+      borrower: SUBJECT,
+      terms: { loanId: 'L-1', principal: ethers.parseEther('1'), currency: 'RBTC', dueDate: NOW + 86400 },
+      status,
+      repaidDate: status === LoanStatus.Repaid ? NOW - 10 : undefined,
+    }),
+    ...overrides,
+  }),
+  schemaDefinition: LOAN_SCHEMA_DEFINITION,
+});
+
+describe('computeReputationScore', () => {
+  it('rates an address without attestations as Unrated', () => {
+    const result = computeReputationScore(SUBJECT, [], undefined, NOW);
+    expect(result.score).toBe(0);
+    expect(result.trust).toBe('Unrated');
+    expect(result.contributions).toEqual([]);
+  });
+
+  it('scores the reputation schema by normalizing the score field', () => {
+    const [first, second] = attesters(2);
+    const result = computeReputationScore(
+      SUBJECT,
+      [scoreAttestation(80, { attester: first }), scoreAttestation(50, { attester: second })],
+      undefined,
+      NOW
+    );
+    expect(result.contributions.map((c) => c.points)).toEqual([80, 50]);
+    expect(result.score).toBe(130);
+    expect(result.trust).toBe('Poor');
+  });
+
+  it('adds repayments and subtracts defaults for loan events', () => {
+    const result = computeReputationScore(
+      SUBJECT,
+      [loanAttestation(LoanStatus.Originated), loanAttestation(LoanStatus.Repaid), loanAttestation(LoanStatus.Defaulted)],
+      undefined,
+      NOW
+    );
+    expect(result.contributions.map((c) => c.points).sort((a, b) => a - b)).toEqual([-90, 0, 60]);
+    expect(result.rawScore).toBe(-30);
+    expect(result.score).toBe(0);
+  });
+
+  it('skips revoked, expired and unscored attestations and ones for other recipients', () => {
+    const result = computeReputationScore(
+      SUBJECT,
+      [
+        scoreAttestation(90, { revocationTime: BigInt(NOW - 10) }),
+        scoreAttestation(90, { expirationTime: BigInt(NOW - 10) }),
+        scoreAttestation(90, { schema: ethers.id('unknown schema') }),
+        scoreAttestation(90, { recipient: OTHER }),
+      ],
+      undefined,
+      NOW
+    );
+    expect(result.contributions).toHaveLength(3);
+    expect(result.contributions.map((c) => c.skippedReason)).toEqual([
+      'Attestation is revoked',
+      'Attestation is expired',
+      'No scoring rule for this schema',
+    ]);
+    expect(result.score).toBe(0);
+    expect(result.trust).toBe('Unrated');
+  });
+
+  it('reports payloads that do not decode with their schema', () => {
+    const result = computeReputationScore(SUBJECT, [{ ...scoreAttestation(10), schemaDefinition: 'string name' }], undefined, NOW);
+    expect(result.contributions[0].skippedReason).toBe('Payload could not be decoded with its schema');
+  });
+
+  it('ignores attestations an address issued to itself', () => {
+    const result = computeReputationScore(SUBJECT, [scoreAttestation(100, { attester: SUBJECT })], undefined, NOW);
+    expect(result.contributions[0].skippedReason).toBe('Self-issued attestations do not count');
+    expect(result.score).toBe(0);
+    expect(result.trust).toBe('Unrated');
+  });
+
+  it("doesn't let a single attester flood an address to the top score", () => {
+    const flood = Array.from({ length: 20 }, (_, i) => scoreAttestation(100, { time: BigInt(NOW - i) }));
+    flood.push(...Array.from({ length: 20 }, (_, i) => loanAttestation(LoanStatus.Repaid, { time: BigInt(NOW - 100 - i) })));
+    const result = computeReputationScore(SUBJECT, flood, undefined, NOW);
+
+    const counted = result.contributions.filter((c) => !c.skippedReason);
+    expect(counted).toHaveLength(5);
+    expect(result.score).toBe(100 + 4 * 60);
+    expect(result.trust).toBe('Poor');
+    expect(result.contributions.find((c) => c.skippedReason)?.skippedReason).toBe(
+      'Over the limit of 1 per attester for this schema'
+    );
+  });
+
+  it('still rewards many independent attesters', () => {
+    const result = computeReputationScore(
+      SUBJECT,
+      attesters(10).map((attester) => scoreAttestation(90, { attester })),
+      undefined,
+      NOW
+    );
+    expect(result.score).toBe(900);
+    expect(result.trust).toBe('Excellent');
+  });
+
+  it('counts only the newest attestations of a schema up to its cap', () => {
+    const config: ScoringConfig = {
+      baseScore: 0,
+      rules: [
+        {
+          schemaUID: REPUTATION_SCHEMA_UID,
+          label: 'Reputation Score',
+          fields: [{ field: 'score', weight: 100, min: 0, max: 100 }],
+          maxAttestations: 2,
+        },
+      ],
+    };
+    const result = computeReputationScore(
+      SUBJECT,
+      [
+        scoreAttestation(10, { time: BigInt(NOW - 300) }),
+        scoreAttestation(20, { time: BigInt(NOW - 200) }),
+        scoreAttestation(30, { time: BigInt(NOW - 100) }),
+      ],
+      config,
+      NOW
+    );
+    expect(result.contributions.map((c) => c.points)).toEqual([30, 20, 0]);
+    expect(result.contributions[2].skippedReason).toBe('Only the newest 2 attestations of this schema count');
+    expect(result.score).toBe(50);
+  });
+
+  it('clamps the score to the maximum and maps it to a trust level', () => {
+    const config: ScoringConfig = {
+      baseScore: 700,
+      rules: [{ schemaUID: REPUTATION_SCHEMA_UID, label: 'Reputation Score', baseWeight: 200 }],
+    };
+    expect(computeReputationScore(SUBJECT, [scoreAttestation(1)], config, NOW)).toMatchObject({
+      rawScore: 900,
+      score: 900,
+      trust: 'Excellent',
+    });
+    expect(computeReputationScore(SUBJECT, [scoreAttestation(1), scoreAttestation(2)], config, NOW)).toMatchObject({
+      rawScore: 1100,
+      score: 1000,
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import { Attestation, SchemaRegistry } from '@ethereum-attestation-service/eas-sdk';
+import { ethers } from 'ethers';
+import { AttestationStatus, evaluateAttestationStatus, nowInSeconds } from '@/lib/attestations';
+import { LOAN_SCHEMA_UID, LoanStatus } from '@/lib/loans';
+import { DecodedField, DecodedValue, decodeSchemaData } from '@/lib/schema';
+
+// --- Reputation Scoring ---
+// Pure scoring engine: turns the attestations an address received into a 0–1000
+// score. Every input (attestations, schema definitions, weights, clock) is passed
+// in, so the same fixtures always produce the same score.
+
+export const MIN_SCORE = 0;
+export const MAX_SCORE = 1000;
+
+// Tutorial reputation schema: "uint8 score", no resolver, revocable. Schema UIDs
+// are derived from exactly these three values, so the UID matches on every chain
+// where this schema is registered.
+export const REPUTATION_SCHEMA_DEFINITION = 'uint8 score';
+export const REPUTATION_SCHEMA_REVOCABLE = true;
+export const REPUTATION_SCHEMA_UID = SchemaRegistry.getSchemaUID(
+  REPUTATION_SCHEMA_DEFINITION,
+  ethers.ZeroAddress,
+  REPUTATION_SCHEMA_REVOCABLE
+);
+
+/** Maps one decoded field onto points. The field value is normalized to 0..1 first. */
+export interface FieldMapping {
+  field: string;
+  // Points awarded when the normalized value is 1; negative weights penalize
+  weight: number;
+  // Numeric range used to normalize integer fields (defaults 0..1)
+  min?: number;
+  max?: number;
+  // Explicit normalized value per raw value, for bools and enum-like fields
+  valueMap?: Record<string, number>;
+}
+
+export interface SchemaScoringRule {
+  schemaUID: string;
+  label: string;
+  // Points for the attestation's mere existence, added to the field mappings
+  baseWeight?: number;
+  fields?: FieldMapping[];
+  // Only the newest N attestations of this schema count
+  maxAttestations?: number;
+  // Only the newest N from any one attester count, so a single issuer can't farm the score
+  maxPerAttester?: number;
+}
+
+export interface ScoringConfig {
+  baseScore: number;
+  rules: SchemaScoringRule[];
+}
+
+export interface ScorableAttestation {
+  attestation: Attestation;
+  // Schema definition string used to decode `attestation.data`
+  schemaDefinition: string;
+}
+
+export interface AttestationContribution {
+  uid: string;
+  schemaUID: string;
+  label: string;
+  attester: string;
+  status: AttestationStatus;
+  points: number;
+  // Why the attestation added nothing (unknown schema, revoked, over the cap, ...)
+  skippedReason?: string;
+  decoded: DecodedField[];
+}
+
+export type TrustLevel = 'Excellent' | 'Good' | 'Fair' | 'Poor' | 'Unrated';
+
+export interface ReputationScore {
+  subject: string;
+  score: number;
+  // Sum before clamping to MIN_SCORE..MAX_SCORE
+  rawScore: number;
+  trust: TrustLevel;
+  contributions: AttestationContribution[];
+}
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  baseScore: 0,
+  rules: [
+    {
+      schemaUID: REPUTATION_SCHEMA_UID,
+      label: 'Reputation Score',
+      fields: [{ field: 'score', weight: 100, min: 0, max: 100 }],
+      maxAttestations: 10,
+      // One score per attester: reaching the top needs several independent issuers
+      maxPerAttester: 1,
+    },
+    {
+      // Each loan event scores on its own: origination is neutral, repayment adds, late payment and default subtract
+      schemaUID: LOAN_SCHEMA_UID,
+      label: 'Loan Repayment',
+      fields: [
+        {
+          field: 'status',
+          weight: 60,
+          valueMap: {
+            [LoanStatus.Originated]: 0,
+            [LoanStatus.Repaid]: 1,
+            [LoanStatus.Late]: -0.5,
+            [LoanStatus.Defaulted]: -1.5,
+          },
+        },
+      ],
+      maxAttestations: 20,
+      // About two loans (origination + outcome) per lender
+      maxPerAttester: 4,
+    },
+  ],
+};
+
+const clamp = (n: number, min: number, max: number) => Math.min(max, Math.max(min, n));
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const normalizeFieldValue = (mapping: FieldMapping, value: DecodedValue): number | null => {
+  if (typeof value === 'object') return null;
+  const key = String(value);
+  if (mapping.valueMap) {
+    return key in mapping.valueMap ? mapping.valueMap[key] : null;
+  }
+  const n = typeof value === 'boolean' ? Number(value) : Number(key);
+  if (!Number.isFinite(n)) return null;
+  const min = mapping.min ?? 0;
+  const max = mapping.max ?? 1;
+  if (max === min) return n >= max ? 1 : 0;
+  return clamp((n - min) / (max - min), 0, 1);
+};
+
+/** Points for a single decoded attestation under a rule. Unmapped or missing fields add nothing. */
+export const scoreDecodedAttestation = (rule: SchemaScoringRule, decoded: DecodedField[]): number => {
+  let points = rule.baseWeight ?? 0;
+  for (const mapping of rule.fields ?? []) {
+    const field = decoded.find((d) => d.name === mapping.field);
+    if (!field) continue;
+    const normalized = normalizeFieldValue(mapping, field.value);
+    if (normalized === null) continue;
+    points += mapping.weight * normalized;
+  }
+  return points;
+};
+
+export const getTrustLevel = (score: number, hasSignals: boolean): TrustLevel => {
+  if (!hasSignals) return 'Unrated';
+  if (score >= 800) return 'Excellent';
+  if (score >= 600) return 'Good';
+  if (score >= 400) return 'Fair';
+  return 'Poor';
+};
+
+/** Computes the reputation of `subject` from the attestations it received. */
+export const computeReputationScore = (
+  subject: string,
+  attestations: ScorableAttestation[],
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG,
+  now: number = nowInSeconds()
+): ReputationScore => {
+  const rules = new Map(config.rules.map((r) => [r.schemaUID.toLowerCase(), r]));
+  const counted = new Map<string, number>();
+  // "<schema>:<attester>" -> attestations counted so far
+  const countedPerAttester = new Map<string, number>();
+
+  // Newest first, so per-schema caps keep the most recent signals
+  const received = attestations
+    .filter(({ attestation }) => attestation.recipient.toLowerCase() === subject.toLowerCase())
+    .sort((a, b) => Number(b.attestation.time) - Number(a.attestation.time));
+
+  const contributions = received.map(({ attestation, schemaDefinition }): AttestationContribution => {
+    const schemaUID = attestation.schema.toLowerCase();
+    const rule = rules.get(schemaUID);
+    const { status } = evaluateAttestationStatus(attestation, now);
+
+    const contribution: AttestationContribution = {
+      uid: attestation.uid,
+      schemaUID: attestation.schema,
+      label: rule?.label ?? 'Unscored schema',
+      attester: attestation.attester,
+      status,
+      points: 0,
+      decoded: [],
+    };
+
+    try {
+      contribution.decoded = decodeSchemaData(schemaDefinition, attestation.data);
+    } catch {
+      contribution.skippedReason = 'Payload could not be decoded with its schema';
+      return contribution;
+    }
+
+    if (!rule) {
+      contribution.skippedReason = 'No scoring rule for this schema';
+      return contribution;
+    }
+    if (attestation.attester.toLowerCase() === attestation.recipient.toLowerCase()) {
+      contribution.skippedReason = 'Self-issued attestations do not count';
+      return contribution;
+    }
+    if (status !== 'Valid') {
+      contribution.skippedReason = `Attestation is ${status.toLowerCase()}`;
+      return contribution;
+    }
+
+    const count = counted.get(schemaUID) ?? 0;
+    if (rule.maxAttestations !== undefined && count >= rule.maxAttestations) {
+      contribution.skippedReason = `Only the newest ${rule.maxAttestations} attestations of this schema count`;
+      return contribution;
+    }
+    const attesterKey = `${schemaUID}:${attestation.attester.toLowerCase()}`;
+    const attesterCount = countedPerAttester.get(attesterKey) ?? 0;
+    if (rule.maxPerAttester !== undefined && attesterCount >= rule.maxPerAttester) {
+      contribution.skippedReason = `Over the limit of ${rule.maxPerAttester} per attester for this schema`;
+      return contribution;
+    }
+    counted.set(schemaUID, count + 1);
+    countedPerAttester.set(attesterKey, attesterCount + 1);
+
+    contribution.points = round(scoreDecodedAttestation(rule, contribution.decoded));
+    return contribution;
+  });
+
+  const rawScore = round(config.baseScore + contributions.reduce((sum, c) => sum + c.points, 0));
+  const score = Math.round(clamp(rawScore, MIN_SCORE, MAX_SCORE));
+  const hasSignals = contributions.some((c) => !c.skippedReason);
+
+  return {
+    subject,
+    score,
+    rawScore,
+    trust: getTrustLevel(score, hasSignals),
+    contributions,
+  };
+};
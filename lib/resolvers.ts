@@ -0,0 +1,77 @@
+// --- Schema Resolver Helpers ---
+// Custom resolver checks and the deployable resolver templates compiled from
+// contracts/resolvers (run `npm run compile:resolvers` after editing them).
+
+import { ethers, Signer } from 'ethers';
+import artifacts from './resolver-artifacts.json';
+import { NetworkConfig } from './networks';
+import { TransactionSender, sendWithSigner } from './transactions';
+
+export type ResolverTemplateId = 'AttesterAllowlistResolver' | 'PaymentRequiredResolver' | 'RecipientEOAResolver';
+
+export interface ResolverTemplate {
+  id: ResolverTemplateId;
+  name: string;
+  description: string;
+  // The schema must accept value for attesters to pay the resolver
+  isPayable: boolean;
+}
+
+export const RESOLVER_TEMPLATES: ResolverTemplate[] = [
+  {
+    id: 'AttesterAllowlistResolver',
+    name: 'Attester allowlist',
+    description: 'Only approved attesters (e.g. vetted lenders) can attest. The deployer can add or remove attesters later.',
+    isPayable: false,
+  },
+  {
+    id: 'PaymentRequiredResolver',
+    name: 'Payment required',
+    description: 'Each attestation must pay a fixed fee, forwarded to a payee address.',
+    isPayable: true,
+  },
+  {
+    id: 'RecipientEOAResolver',
+    name: 'Recipient must be an EOA',
+    description: 'Rejects attestations whose recipient is a contract.',
+    isPayable: false,
+  },
+];
+
+// Constructor arguments after the EAS address, per template
+export type ResolverTemplateArgs =
+  | { id: 'AttesterAllowlistResolver'; attesters: string[] }
+  | { id: 'PaymentRequiredResolver'; fee: bigint; payee: string }
+  | { id: 'RecipientEOAResolver' };
+
+const toConstructorArgs = (args: ResolverTemplateArgs): unknown[] => {
+  switch (args.id) {
+    case 'AttesterAllowlistResolver':
+      return [args.attesters];
+    case 'PaymentRequiredResolver':
+      return [args.fee, args.payee];
+    case 'RecipientEOAResolver':
+      return [];
+  }
+};
+
+/** True when the address has deployed code; EAS calls the resolver, so an EOA would break every attestation. */
+export const hasContractCode = async (provider: ethers.Provider, address: string): Promise<boolean> => {
+  const code = await provider.getCode(address);
+  return code !== '0x';
+};
+
+/** Deploys a resolver template bound to the network's EAS contract and returns its address. */
+export const deployResolverTemplate = async (
+  network: NetworkConfig,
+  signer: Signer,
+  args: ResolverTemplateArgs,
+  send: TransactionSender = sendWithSigner(signer)
+): Promise<{ address: string; txHash: string }> => {
+  const { abi, bytecode } = artifacts.contracts[args.id];
+  const factory = new ethers.ContractFactory(abi, bytecode, signer);
+  const request = await factory.getDeployTransaction(network.easAddress, ...toConstructorArgs(args));
+  const sent = await send(request, { kind: 'resolver', label: `Deploy ${args.id}` });
+  if (!sent.receipt.contractAddress) throw new Error('The deployment receipt has no contract address.');
+  return { address: sent.receipt.contractAddress, txHash: sent.hash };
+};
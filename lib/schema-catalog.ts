@@ -0,0 +1,115 @@
+import { ethers } from 'ethers';
+import { queryIndexer } from './indexer';
+
+// --- Schema Catalog ---
+// Lists registered schemas so users can reuse one instead of pasting UIDs.
+// The RAS indexer is the primary source; networks without one (a local devnet)
+// fall back to the local event index (lib/local-indexer).
+
+export interface CatalogSchema {
+  uid: string;
+  definition: string;
+  resolver: string;
+  revocable: boolean;
+  creator: string;
+  // Registration time in seconds (0 when unknown)
+  time: number;
+  attestationCount: number;
+}
+
+export interface SchemaCatalogParams {
+  // Free text matched against the definition (field names and types), or a schema UID
+  query?: string;
+  // zero-based page index
+  page?: number;
+  pageSize?: number;
+}
+
+export interface SchemaCatalogPage {
+  schemas: CatalogSchema[];
+  hasMore: boolean;
+}
+
+export const DEFAULT_CATALOG_PAGE_SIZE = 10;
+
+/** Splits a search into terms; every term has to appear in the definition. */
+const toSearchTerms = (query: string | undefined): string[] =>
+  (query ?? '')
+    .split(/[\s,]+/)
+    .map((t) => t.trim())
+    .filter(Boolean);
+
+/** Local equivalent of the indexer filter, used for locally indexed schemas. */
+export const matchesSchemaQuery = (schema: CatalogSchema, query: string | undefined): boolean => {
+  const terms = toSearchTerms(query);
+  if (terms.length === 1 && ethers.isHexString(terms[0], 32)) {
+    return schema.uid.toLowerCase() === terms[0].toLowerCase();
+  }
+  const definition = schema.definition.toLowerCase();
+  return terms.every((term) => definition.includes(term.toLowerCase()));
+};
+
+/** === Indexer === */
+const SCHEMATA_QUERY = `
+  query SchemaCatalog($where: SchemaWhereInput, $take: Int, $skip: Int) {
+    schemata(where: $where, orderBy: [{ time: desc }], take: $take, skip: $skip) {
+      id
+      schema
+      resolver
+      revocable
+      creator
+      time
+      _count {
+        attestations
+      }
+    }
+  }
+`;
+
+interface RawCatalogSchema {
+  id: string;
+  schema: string;
+  resolver: string;
+  revocable: boolean;
+  creator: string;
+  time: number | string;
+  _count?: { attestations: number } | null;
+}
+
+const buildSchemaWhere = (query: string | undefined) => {
+  const terms = toSearchTerms(query);
+  if (terms.length === 0) return {};
+  if (terms.length === 1 && ethers.isHexString(terms[0], 32)) {
+    return { id: { equals: terms[0].toLowerCase() } };
+  }
+  return { AND: terms.map((term) => ({ schema: { contains: term } })) };
+};
+
+export const searchSchemaCatalog = async (
+  indexerUrl: string,
+  params: SchemaCatalogParams
+): Promise<SchemaCatalogPage> => {
+  const pageSize = params.pageSize ?? DEFAULT_CATALOG_PAGE_SIZE;
+  const page = params.page ?? 0;
+
+  // Ask for one extra row to learn whether another page exists
+  const data = await queryIndexer<{ schemata: RawCatalogSchema[] }>(indexerUrl, SCHEMATA_QUERY, {
+    where: buildSchemaWhere(params.query),
+    take: pageSize + 1,
+    skip: page * pageSize,
+  });
+
+  const rows = data?.schemata ?? [];
+  return {
+    schemas: rows.slice(0, pageSize).map((raw) => ({
+      uid: raw.id,
+      definition: raw.schema,
+      resolver: raw.resolver,
+      revocable: raw.revocable,
+      creator: raw.creator,
+      time: Number(raw.time ?? 0),
+      attestationCount: raw._count?.attestations ?? 0,
+    })),
+    hasMore: rows.length > pageSize,
+  };
+};
@@ -0,0 +1,267 @@
+// --- Schema Names ---
+// Human-readable schema metadata published as attestations, following the EAS
+// "Name a Schema" convention: the attestation data starts with the named schema's
+// UID, so anyone can look names up through the indexer (or the local event index,
+// see lib/local-indexer). Descriptions and field docs use a companion schema with
+// the same layout.
+
+import { EAS, SchemaEncoder, SchemaRegistry } from '@ethereum-attestation-service/eas-sdk';
+import { ethers, Signer } from 'ethers';
+import { queryIndexer } from './indexer';
+import { NetworkConfig } from './networks';
+import { TransactionSender, sendWithSigner } from './transactions';
+
+export const SCHEMA_NAME_DEFINITION = 'bytes32 schemaId,string name';
+export const SCHEMA_DESCRIPTION_DEFINITION =
+  'bytes32 schemaId,string description,string[] fieldNames,string[] fieldDescriptions';
+
+// Both metadata schemas have no resolver and are revocable, so names can be corrected
+const METADATA_RESOLVER = ethers.ZeroAddress;
+const METADATA_REVOCABLE = true;
+
+export const SCHEMA_NAME_SCHEMA_UID = SchemaRegistry.getSchemaUID(
+  SCHEMA_NAME_DEFINITION,
+  METADATA_RESOLVER,
+  METADATA_REVOCABLE
+);
+export const SCHEMA_DESCRIPTION_SCHEMA_UID = SchemaRegistry.getSchemaUID(
+  SCHEMA_DESCRIPTION_DEFINITION,
+  METADATA_RESOLVER,
+  METADATA_REVOCABLE
+);
+
+export interface SchemaMetadataInput {
+  schemaUID: string;
+  name: string;
+  description?: string;
+  // Top-level field name -> what it means
+  fieldDocs?: Record<string, string>;
+}
+
+export interface SchemaMetadata {
+  uid: string;
+  name: string | null;
+  description: string | null;
+  fieldDocs: Record<string, string>;
+  // Who published the name; preferred when it is the schema creator
+  attester: string | null;
+}
+
+export interface PublishedSchemaMetadata {
+  // Name attestation first, then the description attestation when one was published
+  uids: string[];
+  txHash: string;
+  // Metadata schemas this call had to register first
+  registeredSchemas: string[];
+}
+
+/** Short label for lists: the published name, or the UID shortened. */
+export const formatSchemaLabel = (uid: string, metadata?: SchemaMetadata | null): string =>
+  metadata?.name || `${uid.slice(0, 10)}...${uid.slice(-6)}`;
+
+/** === Publishing === */
+const isRegistered = async (registry: SchemaRegistry, uid: string): Promise<boolean> => {
+  try {
+    await registry.getSchema({ uid });
+    return true;
+  } catch (err) {
+    if (String((err as Error)?.message ?? err).includes('Schema not found')) return false;
+    throw err;
+  }
+};
+
+// Networks without the metadata schemas get them registered on first use
+const ensureMetadataSchema = async (
+  registry: SchemaRegistry,
+  uid: string,
+  definition: string,
+  send: TransactionSender
+): Promise<boolean> => {
+  if (await isRegistered(registry, uid)) return false;
+  const tx = await registry.register({ schema: definition, resolverAddress: METADATA_RESOLVER, revocable: METADATA_REVOCABLE });
+  await send(tx.data, { kind: 'schema', label: 'Register schema metadata schema', uid });
+  return true;
+};
+
+/**
+ * Attests the schema's name (and optional description / field docs) in a single
+ * multiAttest transaction, registering the metadata schemas first if needed.
+ */
+export const publishSchemaMetadata = async (
+  network: NetworkConfig,
+  signer: Signer,
+  input: SchemaMetadataInput,
+  send: TransactionSender = sendWithSigner(signer)
+): Promise<PublishedSchemaMetadata> => {
+  const name = input.name.trim();
+  if (!name) throw new Error('Schema name is required.');
+
+  const description = input.description?.trim() ?? '';
+  const docs = Object.entries(input.fieldDocs ?? {})
+    .map(([field, doc]) => [field, doc.trim()] as const)
+    .filter(([, doc]) => doc);
+  const withDescription = !!description || docs.length > 0;
+
+  const registry = new SchemaRegistry(network.schemaRegistryAddress);
+  registry.connect(signer);
+  const registeredSchemas: string[] = [];
+  if (await ensureMetadataSchema(registry, SCHEMA_NAME_SCHEMA_UID, SCHEMA_NAME_DEFINITION, send)) {
+    registeredSchemas.push(SCHEMA_NAME_SCHEMA_UID);
+  }
+  if (
+    withDescription &&
+    (await ensureMetadataSchema(registry, SCHEMA_DESCRIPTION_SCHEMA_UID, SCHEMA_DESCRIPTION_DEFINITION, send))
+  ) {
+    registeredSchemas.push(SCHEMA_DESCRIPTION_SCHEMA_UID);
+  }
+
+  const baseData = {
+    recipient: ethers.ZeroAddress,
+    expirationTime: BigInt(0),
+    revocable: METADATA_REVOCABLE,
+    refUID: ethers.ZeroHash,
+    value: BigInt(0),
+  };
+
+  const requests = [
+    {
+      schema: SCHEMA_NAME_SCHEMA_UID,
+      data: [
+        {
+          ...baseData,
+          data: new SchemaEncoder(SCHEMA_NAME_DEFINITION).encodeData([
+            { name: 'schemaId', value: input.schemaUID, type: 'bytes32' },
+            { name: 'name', value: name, type: 'string' },
+          ]),
+        },
+      ],
+    },
+  ];
+  if (withDescription) {
+    requests.push({
+      schema: SCHEMA_DESCRIPTION_SCHEMA_UID,
+      data: [
+        {
+          ...baseData,
+          data: new SchemaEncoder(SCHEMA_DESCRIPTION_DEFINITION).encodeData([
+            { name: 'schemaId', value: input.schemaUID, type: 'bytes32' },
+            { name: 'description', value: description, type: 'string' },
+            { name: 'fieldNames', value: docs.map(([field]) => field), type: 'string[]' },
+            { name: 'fieldDescriptions', value: docs.map(([, doc]) => doc), type: 'string[]' },
+          ]),
+        },
+      ],
+    });
+  }
+
+  const eas = new EAS(network.easAddress);
+  eas.connect(signer);
+  const tx = await eas.multiAttest(requests);
+  const sent = await send(tx.data, { kind: 'schema-name', label: `Name schema "${name}"` });
+  return { uids: sent.uids, txHash: sent.hash, registeredSchemas };
+};
+
+/** === Lookup === */
+const SCHEMA_METADATA_QUERY = `
+  query SchemaMetadata($where: AttestationWhereInput, $schemaIds: [String!]) {
+    attestations(where: $where, orderBy: [{ time: desc }]) {
+      schemaId
+      attester
+      data
+    }
+    schemata(where: { id: { in: $schemaIds } }) {
+      id
+      creator
+    }
+  }
+`;
+
+export interface RawMetadataAttestation {
+  schemaId: string;
+  attester: string;
+  data: string;
+}
+
+const decodeMetadata = (definition: string, data: string) => {
+  const values: Record<string, unknown> = {};
+  for (const item of new SchemaEncoder(definition).decodeData(data)) {
+    values[item.name] = item.value.value;
+  }
+  return values;
+};
+
+/** Lowercase, deduplicated, well-formed schema UIDs. */
+export const normalizeSchemaUIDs = (schemaUIDs: string[]): string[] =>
+  Array.from(new Set(schemaUIDs.map((uid) => uid.toLowerCase()))).filter((uid) => ethers.isHexString(uid, 32));
+
+/**
+ * Picks names and descriptions for `uids` out of metadata attestations, newest
+ * first. Anyone can name any schema, so a name from the schema's creator
+ * (`creators`: lowercase UID -> lowercase address) wins over the newest name
+ * from anyone else.
+ */
+export const resolveSchemaMetadata = (
+  uids: string[],
+  rows: RawMetadataAttestation[],
+  creators: Map<string, string>
+): Record<string, SchemaMetadata> => {
+  const result: Record<string, SchemaMetadata> = {};
+  // "<kind>:<uid>" entries already taken from the schema creator
+  const fromCreator = new Set<string>();
+
+  for (const row of rows) {
+    const uid = row.data.slice(0, 66).toLowerCase();
+    if (!uids.includes(uid)) continue;
+    const isCreator = creators.get(uid) === row.attester.toLowerCase();
+    const entry = (result[uid] ??= { uid, name: null, description: null, fieldDocs: {}, attester: null });
+
+    try {
+      if (row.schemaId.toLowerCase() === SCHEMA_NAME_SCHEMA_UID) {
+        // Rows are newest first: keep the first one, unless a creator's name turns up later
+        if (entry.name !== null && (fromCreator.has(`name:${uid}`) || !isCreator)) continue;
+        entry.name = String(decodeMetadata(SCHEMA_NAME_DEFINITION, row.data).name);
+        entry.attester = row.attester;
+        if (isCreator) fromCreator.add(`name:${uid}`);
+      } else {
+        if (entry.description !== null && (fromCreator.has(`description:${uid}`) || !isCreator)) continue;
+        const values = decodeMetadata(SCHEMA_DESCRIPTION_DEFINITION, row.data);
+        const names = (values.fieldNames as string[]) ?? [];
+        const docs = (values.fieldDescriptions as string[]) ?? [];
+        entry.description = String(values.description ?? '');
+        entry.fieldDocs = Object.fromEntries(names.map((field, i) => [field, docs[i] ?? '']));
+        if (isCreator) fromCreator.add(`description:${uid}`);
+      }
+    } catch (err) {
+      console.warn('Skipping malformed schema metadata attestation:', err);
+    }
+  }
+
+  return result;
+};
+
+/** Looks up published names and descriptions for the given schema UIDs through the RAS indexer. */
+export const fetchSchemaMetadata = async (
+  indexerUrl: string,
+  schemaUIDs: string[]
+): Promise<Record<string, SchemaMetadata>> => {
+  const uids = normalizeSchemaUIDs(schemaUIDs);
+  if (uids.length === 0) return {};
+
+  const data = await queryIndexer<{
+    attestations: RawMetadataAttestation[];
+    schemata: { id: string; creator: string }[];
+  }>(indexerUrl, SCHEMA_METADATA_QUERY, {
+    where: {
+      AND: [
+        { schemaId: { in: [SCHEMA_NAME_SCHEMA_UID, SCHEMA_DESCRIPTION_SCHEMA_UID] } },
+        { revocationTime: { equals: 0 } },
+        // The encoded data starts with the named schema's UID
+        { OR: uids.map((uid) => ({ data: { startsWith: uid } })) },
+      ],
+    },
+    schemaIds: uids,
+  });
+
+  const creators = new Map((data?.schemata ?? []).map((s) => [s.id.toLowerCase(), s.creator.toLowerCase()]));
+  return resolveSchemaMetadata(uids, data?.attestations ?? [], creators);
+};
@@ -0,0 +1,443 @@
+import { SchemaEncoder, SchemaItem, SchemaValue } from '@ethereum-attestation-service/eas-sdk';
+import { ethers, ParamType } from 'ethers';
+import { AppError, classifyError } from './errors';
+
+// --- Schema Helpers ---
+// Parsing of EAS schema strings ("uint8 score, address lender") and per-type
+// validation of user input before it is handed to SchemaEncoder.encodeData.
+
+export interface SchemaField {
+  name: string;
+  // Canonical ABI type as SchemaEncoder reports it, e.g. "uint256[]" or "(address,uint8)"
+  type: string;
+  // Type including component names, used to rebuild the ABI ParamType
+  signature: string;
+}
+
+export type FieldInputKind = 'bool' | 'address' | 'string' | 'bytes' | 'fixedBytes' | 'uint' | 'int' | 'array' | 'tuple';
+
+/** Try to extract a readable schema string from whatever SchemaRegistry.getSchema returned.
+ * The SDK sometimes returns an object with `.schema`, other times a Result array (proxy)
+ * where the schema string is at an index (commonly index 3). We search for the first
+ * reasonably long string value in the result.
+ */
+export const extractSchemaString = (schemaRecord: unknown): string => {
+  if (!schemaRecord) return '';
+  try {
+    if (typeof schemaRecord === 'string') return schemaRecord;
+    if (typeof schemaRecord === 'object') {
+      const record = schemaRecord as Record<string | number, unknown>;
+      if ('schema' in record && typeof record.schema === 'string') {
+        return record.schema;
+      }
+      // If it's a proxy/Result object (array-like)
+      // convert values and find the first long-ish string
+      const candidateStrings: string[] = [];
+      for (const k of Object.keys(record)) {
+        const v = record[k];
+        if (typeof v === 'string' && v.length > 8) candidateStrings.push(v);
+        // also check numeric-indexed keys
+        if (!isNaN(Number(k))) {
+          const vv = record[Number(k)];
+          if (typeof vv === 'string' && vv.length > 8) candidateStrings.push(vv);
+        }
+      }
+      // prefer a string containing '(' or 'uint' or 'string' (likely schema)
+      const best = candidateStrings.find((s) => /uint|int|string|bytes|\(|,/.test(s));
+      if (best) return best;
+      // fallback to first candidate
+      return candidateStrings[0] ?? '';
+    }
+  } catch (err) {
+    console.warn('extractSchemaString error', err);
+  }
+  return '';
+};
+
+/** Parses a schema string into its fields. Throws if the schema is not valid ABI. */
+export const parseSchemaFields = (schema: string): SchemaField[] => {
+  const encoder = new SchemaEncoder(schema);
+  return encoder.schema.map(({ name, type, signature }) => ({ name, type, signature }));
+};
+
+/** Same as parseSchemaFields, but returns an empty list for invalid schemas. */
+export const safeParseSchemaFields = (schema: string): SchemaField[] => {
+  try {
+    return parseSchemaFields(schema);
+  } catch {
+    return [];
+  }
+};
+
+const toParamType = (field: SchemaField): ParamType => ParamType.from(field.signature);
+
+export const getFieldInputKind = (field: SchemaField): FieldInputKind => {
+  const param = toParamType(field);
+  if (param.isArray()) return 'array';
+  if (param.isTuple()) return 'tuple';
+  const type = param.type;
+  if (type === 'bool') return 'bool';
+  if (type === 'address') return 'address';
+  if (type === 'string') return 'string';
+  if (type === 'bytes') return 'bytes';
+  if (type.startsWith('bytes')) return 'fixedBytes';
+  if (type.startsWith('uint')) return 'uint';
+  return 'int';
+};
+
+/** Short input hint for a field, shown as the input placeholder. */
+export const getFieldPlaceholder = (field: SchemaField): string => {
+  const param = toParamType(field);
+  switch (getFieldInputKind(field)) {
+    case 'address':
+      return '0x... (20-byte address)';
+    case 'string':
+      return 'Any text';
+    case 'bytes':
+      return '0x... (hex bytes)';
+    case 'fixedBytes':
+      return param.type === 'bytes32'
+        ? '0x... (32-byte hex) or short text (max 31 chars)'
+        : `0x... (${param.type.slice(5)}-byte hex)`;
+    case 'uint':
+      return `Whole number, 0 to 2^${param.type.slice(4) || '256'}-1`;
+    case 'int':
+      return `Whole number (signed, ${param.type.slice(3) || '256'}-bit)`;
+    case 'array':
+      return `Comma-separated ${param.arrayChildren!.format()} values, or a JSON array`;
+    case 'tuple':
+      return `JSON object or array: ${param.format('full')}`;
+    default:
+      return '';
+  }
+};
+
+const parseInteger = (type: string, raw: string): bigint => {
+  const signed = !type.startsWith('uint');
+  const bits = Number(type.slice(signed ? 3 : 4) || '256');
+  const trimmed = raw.trim();
+  if (!(signed ? /^-?\d+$/ : /^\d+$/).test(trimmed)) {
+    throw new Error(signed ? 'must be a whole number' : 'must be a non-negative whole number');
+  }
+  const value = BigInt(trimmed);
+  const min = signed ? -(BigInt(1) << BigInt(bits - 1)) : BigInt(0);
+  const max = signed ? (BigInt(1) << BigInt(bits - 1)) - BigInt(1) : (BigInt(1) << BigInt(bits)) - BigInt(1);
+  if (value < min || value > max) {
+    throw new Error(`must be between ${min.toString()} and ${max.toString()}`);
+  }
+  return value;
+};
+
+const parseElementary = (type: string, input: unknown): SchemaValue => {
+  const raw = typeof input === 'string' ? input : String(input);
+
+  if (type === 'bool') {
+    if (typeof input === 'boolean') return input;
+    const normalized = raw.trim().toLowerCase();
+    if (normalized === 'true' || normalized === '1') return true;
+    if (normalized === 'false' || normalized === '0') return false;
+    throw new Error('must be true or false');
+  }
+  if (type === 'address') {
+    if (!ethers.isAddress(raw.trim())) throw new Error('must be a valid address');
+    return ethers.getAddress(raw.trim());
+  }
+  if (type === 'string') return raw;
+  if (type === 'bytes') {
+    if (!ethers.isHexString(raw.trim()) || raw.trim().length % 2 !== 0) {
+      throw new Error('must be 0x-prefixed hex with an even number of digits');
+    }
+    return raw.trim();
+  }
+  if (type.startsWith('bytes')) {
+    const size = Number(type.slice(5));
+    if (ethers.isHexString(raw.trim(), size)) return raw.trim();
+    // SchemaEncoder turns non-hex bytes32 values into a bytes32 string
+    if (type === 'bytes32' && !raw.startsWith('0x') && ethers.toUtf8Bytes(raw).length <= 31) return raw;
+    throw new Error(`must be ${size}-byte hex (0x followed by ${size * 2} hex digits)`);
+  }
+  if (type.startsWith('uint') || type.startsWith('int')) {
+    return parseInteger(type, raw);
+  }
+  throw new Error(`unsupported type ${type}`);
+};
+
+const parseListInput = (raw: string): unknown[] => {
+  const trimmed = raw.trim();
+  if (!trimmed) return [];
+  if (trimmed.startsWith('[')) {
+    const parsed = JSON.parse(trimmed);
+    if (!Array.isArray(parsed)) throw new Error('must be a JSON array');
+    return parsed;
+  }
+  return trimmed.split(',').map((s) => s.trim());
+};
+
+const parseParamValue = (param: ParamType, input: unknown): SchemaValue => {
+  if (param.isArray()) {
+    const list = typeof input === 'string' ? parseListInput(input) : input;
+    if (!Array.isArray(list)) throw new Error('must be a list of values');
+    if (param.arrayLength >= 0 && list.length !== param.arrayLength) {
+      throw new Error(`must contain exactly ${param.arrayLength} values`);
+    }
+    return list.map((item, i) => {
+      try {
+        return parseParamValue(param.arrayChildren, item);
+      } catch (err) {
+        throw new Error(`item ${i + 1} ${(err as Error).message}`);
+      }
+    }) as SchemaValue;
+  }
+
+  if (param.isTuple()) {
+    const parsed = typeof input === 'string' ? JSON.parse(input || '{}') : input;
+    if (!parsed || typeof parsed !== 'object') throw new Error('must be a JSON object or array');
+    return param.components.map((component, i) => {
+      const value = Array.isArray(parsed)
+        ? parsed[i]
+        : (parsed as Record<string, unknown>)[component.name];
+      if (value === undefined) throw new Error(`is missing "${component.name || i}"`);
+      try {
+        return parseParamValue(component, value);
+      } catch (err) {
+        throw new Error(`"${component.name || i}" ${(err as Error).message}`);
+      }
+    }) as SchemaValue;
+  }
+
+  return parseElementary(param.type, input);
+};
+
+/** Validates and converts a raw form value into the value SchemaEncoder expects. */
+export const parseFieldValue = (field: SchemaField, raw: string): SchemaValue => {
+  try {
+    return parseParamValue(toParamType(field), raw);
+  } catch (err) {
+    if (err instanceof SyntaxError) throw new Error('is not valid JSON');
+    throw err;
+  }
+};
+
+/** Builds SchemaItems for every field, collecting a per-field error instead of throwing. */
+export const buildSchemaItems = (
+  fields: SchemaField[],
+  values: Record<string, string>
+): { items: SchemaItem[]; errors: Record<string, string> } => {
+  const items: SchemaItem[] = [];
+  const errors: Record<string, string> = {};
+  for (const field of fields) {
+    try {
+      items.push({ name: field.name, type: field.type, value: parseFieldValue(field, values[field.name] ?? '') });
+    } catch (err) {
+      errors[field.name] = `${field.name} ${(err as Error).message}`;
+    }
+  }
+  return { items, errors };
+};
+
+export type DecodedValue = string | boolean | DecodedValue[] | { [name: string]: DecodedValue };
+
+export interface DecodedField {
+  name: string;
+  type: string;
+  value: DecodedValue;
+}
+
+// Converts ethers decode output into plain JSON-friendly values: integers become
+// decimal strings, arrays stay arrays and tuples become objects keyed by component name.
+const normalizeDecoded = (param: ParamType, value: unknown): DecodedValue => {
+  if (param.isArray()) {
+    return Array.from(value as ArrayLike<unknown>).map((item) => normalizeDecoded(param.arrayChildren, item));
+  }
+  if (param.isTuple()) {
+    const list = Array.from(value as ArrayLike<unknown>);
+    const out: { [name: string]: DecodedValue } = {};
+    param.components.forEach((component, i) => {
+      out[component.name || String(i)] = normalizeDecoded(component, list[i]);
+    });
+    return out;
+  }
+  if (typeof value === 'bigint' || typeof value === 'number') return value.toString();
+  if (typeof value === 'boolean') return value;
+  return String(value);
+};
+
+/** Decodes attestation data against a schema string. Throws if the data does not match the schema. */
+export const decodeSchemaData = (schema: string, dataHex: string): DecodedField[] => {
+  const fields = parseSchemaFields(schema);
+  const params = fields.map(toParamType);
+  const values = ethers.AbiCoder.defaultAbiCoder().decode(params, dataHex);
+  return fields.map((field, i) => ({
+    name: field.name || `field_${i}`,
+    type: field.type,
+    value: normalizeDecoded(params[i], values[i]),
+  }));
+};
+
+/** === Schema Builder === */
+// Model behind the SchemaModal field builder. Fields form a tree: tuple fields
+// carry their own components.
+
+export interface SchemaBuilderField {
+  id: string;
+  name: string;
+  // Elementary Solidity type, or "tuple" for a struct built from `components`
+  type: string;
+  isArray: boolean;
+  // Empty for a dynamic array (T[]), a positive integer for a fixed one (T[N])
+  arrayLength: string;
+  components: SchemaBuilderField[];
+}
+
+const widths = (step: number, max: number) => Array.from({ length: max / step }, (_, i) => (i + 1) * step);
+
+export const TUPLE_TYPE = 'tuple';
+
+export const ELEMENTARY_TYPE_GROUPS: { label: string; types: string[] }[] = [
+  { label: 'Common', types: ['uint256', 'address', 'string', 'bool', 'bytes32', 'bytes'] },
+  { label: 'Unsigned integers', types: widths(8, 256).map((w) => `uint${w}`) },
+  { label: 'Signed integers', types: widths(8, 256).map((w) => `int${w}`) },
+  { label: 'Fixed-size bytes', types: widths(1, 32).map((w) => `bytes${w}`) },
+];
+
+// Solidity keywords and reserved words; as field names they break generated contracts and tooling
+const RESERVED_WORDS = new Set(
+  (
+    'abstract after alias anonymous apply as assembly auto break calldata case catch constant constructor continue ' +
+    'contract copyof default define delete do else emit enum error event external fallback false final for function ' +
+    'global if immutable implements import in indexed inline interface internal is let library macro mapping match ' +
+    'memory modifier mutable new null of override partial payable pragma private promise public pure receive ' +
+    'reference relocatable return returns revert sealed sizeof static storage struct super supports switch this throw ' +
+    'true try type typedef typeof unchecked using var view virtual while wei gwei ether seconds minutes hours days weeks ' +
+    'years tuple address bool string bytes byte int uint fixed ufixed'
+  ).split(' ')
+);
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+const SIZED_TYPE_PATTERN = /^(u?int|bytes|u?fixed)\d+(x\d+)?$/;
+
+export const createBuilderField = (overrides: Partial<SchemaBuilderField> = {}): SchemaBuilderField => ({
+  id: Math.random().toString(36).slice(2, 11),
+  name: '',
+  type: 'uint256',
+  isArray: false,
+  arrayLength: '',
+  components: [],
+  ...overrides,
+});
+
+export const getBuilderFieldType = (field: SchemaBuilderField): string => {
+  const base =
+    field.type === TUPLE_TYPE ? `(${field.components.map(getBuilderFieldSignature).join(',')})` : field.type;
+  return field.isArray ? `${base}[${field.arrayLength.trim()}]` : base;
+};
+
+export const getBuilderFieldSignature = (field: SchemaBuilderField): string =>
+  `${getBuilderFieldType(field)} ${field.name.trim()}`;
+
+/** Schema string for the registry, e.g. "uint256 score, (address lender,uint64 due) loan". */
+export const buildSchemaString = (fields: SchemaBuilderField[]): string =>
+  fields.map(getBuilderFieldSignature).join(', ');
+
+const validateFieldName = (name: string): string | null => {
+  if (!name) return 'Field name is required.';
+  if (!IDENTIFIER_PATTERN.test(name)) {
+    return 'Use letters, digits, _ or $, not starting with a digit.';
+  }
+  if (RESERVED_WORDS.has(name) || SIZED_TYPE_PATTERN.test(name)) return `"${name}" is a reserved word.`;
+  return null;
+};
+
+/** Per-field errors keyed by field id, covering nested tuple components. */
+export const validateBuilderFields = (fields: SchemaBuilderField[]): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  const seen = new Set<string>();
+
+  for (const field of fields) {
+    const name = field.name.trim();
+    const nameError = validateFieldName(name);
+    if (nameError) {
+      errors[field.id] = nameError;
+    } else if (seen.has(name)) {
+      errors[field.id] = `Duplicate field name "${name}".`;
+    }
+    seen.add(name);
+
+    if (!errors[field.id] && field.isArray && field.arrayLength.trim() && !/^[1-9]\d*$/.test(field.arrayLength.trim())) {
+      errors[field.id] = 'Array length must be a positive integer (leave empty for a dynamic array).';
+    }
+    if (field.type === TUPLE_TYPE) {
+      if (field.components.length === 0 && !errors[field.id]) {
+        errors[field.id] = 'A tuple needs at least one component.';
+      }
+      Object.assign(errors, validateBuilderFields(field.components));
+    }
+  }
+  return errors;
+};
+
+/**
+ * Checks that SchemaEncoder reads the schema back exactly as it was built, then
+ * encodes and decodes default values with it. Returns a classified error, or
+ * null when the schema is safe to register. SchemaEncoder drops names inside nested
+ * tuples and the length of fixed tuple arrays, so those layouts fail here.
+ */
+const UNSUPPORTED_LAYOUT_SUGGESTION = 'Flatten nested tuples or use dynamic arrays instead of fixed tuple arrays.';
+
+export const verifySchemaRoundTrip = (schema: string): AppError | null => {
+  try {
+    const expected = ethers.FunctionFragment.from(`schema(${schema})`).inputs;
+    const encoder = new SchemaEncoder(schema);
+    if (encoder.schema.length !== expected.length) {
+      return new AppError('decode', `SchemaEncoder reads ${encoder.schema.length} field(s) instead of ${expected.length}.`, {
+        suggestion: UNSUPPORTED_LAYOUT_SUGGESTION,
+      });
+    }
+
+    for (const [i, item] of encoder.schema.entries()) {
+      const built = expected[i].format('full');
+      const readBack = ParamType.from(item.signature).format('full');
+      if (built !== readBack) {
+        return new AppError('decode', `SchemaEncoder reads "${expected[i].name}" as "${item.signature}". This layout is not supported.`, {
+          suggestion: UNSUPPORTED_LAYOUT_SUGGESTION,
+        });
+      }
+    }
+
+    const defaults = ethers.AbiCoder.defaultAbiCoder().getDefaultValue(expected);
+    const encoded = encoder.encodeData(
+      encoder.schema.map((item, i) => ({ name: item.name, type: item.type, value: defaults[i] }))
+    );
+    const decoded = encoder.decodeData(encoded);
+    if (decoded.length !== expected.length || decoded.some((d, i) => d.name !== expected[i].name)) {
+      return new AppError('decode', 'Encoded data does not decode back to the same fields.', {
+        suggestion: UNSUPPORTED_LAYOUT_SUGGESTION,
+      });
+    }
+    return null;
+  } catch (err) {
+    return classifyError(err);
+  }
+};
+
+/** === Builder Tree Updates === */
+// Immutable updates by field id, anywhere in the tree.
+
+export const updateBuilderField = (
+  fields: SchemaBuilderField[],
+  id: string,
+  patch: Partial<SchemaBuilderField>
+): SchemaBuilderField[] =>
+  fields.map((f) =>
+    f.id === id ? { ...f, ...patch } : { ...f, components: updateBuilderField(f.components, id, patch) }
+  );
+
+export const removeBuilderField = (fields: SchemaBuilderField[], id: string): SchemaBuilderField[] =>
+  fields.filter((f) => f.id !== id).map((f) => ({ ...f, components: removeBuilderField(f.components, id) }));
+
+export const addBuilderComponent = (fields: SchemaBuilderField[], parentId: string): SchemaBuilderField[] =>
+  fields.map((f) =>
+    f.id === parentId
+      ? { ...f, components: [...f.components, createBuilderField()] }
+      : { ...f, components: addBuilderComponent(f.components, parentId) }
+  );
@@ -0,0 +1,165 @@
+// --- Sign-In Sessions (server only) ---
+// Backs the /api/auth routes. Nonces and sessions live in HMAC-signed, HTTP-only
+// cookies, so no server-side store is needed. Never import this from client
+// components: it reads the session secret from the environment.
+//
+// Environment:
+//   SESSION_SECRET  key that signs the cookies (required in production)
+//   SIWE_DOMAIN     host sign-in messages must name (default: the request's Host header)
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { ethers } from 'ethers';
+import type { NextRequest, NextResponse } from 'next/server';
+import { getNetwork } from './networks';
+import { SiweSession, parseSiweMessage } from './siwe';
+
+export const SESSION_COOKIE = 'ras_session';
+export const NONCE_COOKIE = 'ras_siwe_nonce';
+
+export const SESSION_TTL_SECONDS = 24 * 60 * 60;
+// A login message has to be signed and verified within this window
+export const NONCE_TTL_SECONDS = 10 * 60;
+
+/** A sign-in the server refuses; `status` is the HTTP status the route responds with. */
+export class AuthRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'AuthRequestError';
+    this.status = status;
+  }
+}
+
+interface NonceData {
+  nonce: string;
+  expiresAt: number;
+}
+
+const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
+/** === Signed Cookies === */
+// Development fallback; sessions end whenever the server restarts
+let ephemeralSecret: string | null = null;
+
+const getSessionSecret = (): string => {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'production') {
+    throw new AuthRequestError('Sign-in is not configured on this server (SESSION_SECRET is missing).', 503);
+  }
+  ephemeralSecret ??= randomBytes(32).toString('hex');
+  return ephemeralSecret;
+};
+
+const mac = (body: string) => createHmac('sha256', getSessionSecret()).update(body).digest('base64url');
+
+const seal = (payload: object): string => {
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${body}.${mac(body)}`;
+};
+
+// null for missing, tampered or expired tokens
+const unseal = <T extends { expiresAt: number }>(token: string | undefined): T | null => {
+  if (!token) return null;
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  const expected = Buffer.from(mac(body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString()) as T;
+    return payload.expiresAt > nowInSeconds() ? payload : null;
+  } catch {
+    return null;
+  }
+};
+
+const setCookie = (response: NextResponse, name: string, value: string, maxAge: number) => {
+  response.cookies.set(name, value, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge,
+  });
+};
+
+/** === Nonces === */
+// 32 hex characters; EIP-4361 asks for at least 8 alphanumerics
+export const createNonce = (): string => randomBytes(16).toString('hex');
+
+/** Remembers the nonce, signed, until the login message comes back. */
+export const setNonceCookie = (response: NextResponse, nonce: string) => {
+  setCookie(response, NONCE_COOKIE, seal({ nonce, expiresAt: nowInSeconds() + NONCE_TTL_SECONDS }), NONCE_TTL_SECONDS);
+};
+
+/** === Sessions === */
+/** The signed-in account of a request, or null. The relay route uses this to only sponsor the signed-in attester. */
+export const getRequestSession = (request: NextRequest): SiweSession | null => {
+  const session = unseal<SiweSession>(request.cookies.get(SESSION_COOKIE)?.value);
+  return session ? { address: session.address, chainId: session.chainId, expiresAt: session.expiresAt } : null;
+};
+
+/**
+ * Checks a signed login message against the request's nonce cookie and host and
+ * returns the session for its signer. The address and chain ID come from the
+ * message, which the browser builds for the connected wallet.
+ */
+export const verifySignIn = (request: NextRequest, body: unknown): SiweSession => {
+  const { message, signature } = (body ?? {}) as { message?: unknown; signature?: unknown };
+  if (typeof message !== 'string' || typeof signature !== 'string' || !ethers.isHexString(signature)) {
+    throw new AuthRequestError('Body must contain the signed message and its signature.');
+  }
+
+  let fields;
+  try {
+    fields = parseSiweMessage(message);
+  } catch (err) {
+    throw new AuthRequestError((err as Error).message);
+  }
+
+  const expectedDomain = process.env.SIWE_DOMAIN || request.headers.get('host');
+  if (fields.domain !== expectedDomain) {
+    throw new AuthRequestError(`The message was signed for ${fields.domain}, not this site.`, 401);
+  }
+
+  const stored = unseal<NonceData>(request.cookies.get(NONCE_COOKIE)?.value);
+  if (!stored || stored.nonce !== fields.nonce) {
+    throw new AuthRequestError('The sign-in nonce is missing or expired. Sign in again.', 401);
+  }
+  if (fields.expirationTime && Date.parse(fields.expirationTime) <= Date.now()) {
+    throw new AuthRequestError('The sign-in message has expired. Sign in again.', 401);
+  }
+  if (!getNetwork(fields.chainId)) {
+    throw new AuthRequestError(`Chain ID ${fields.chainId} is not supported.`);
+  }
+  if (!ethers.isAddress(fields.address)) {
+    throw new AuthRequestError('The sign-in message names an invalid address.');
+  }
+
+  let signer: string;
+  try {
+    signer = ethers.verifyMessage(message, signature);
+  } catch {
+    throw new AuthRequestError('The signature is malformed.');
+  }
+  if (signer !== ethers.getAddress(fields.address)) {
+    throw new AuthRequestError('The signature does not match the address in the message.', 401);
+  }
+
+  return { address: signer, chainId: fields.chainId, expiresAt: nowInSeconds() + SESSION_TTL_SECONDS };
+};
+
+export const startSession = (response: NextResponse, session: SiweSession) => {
+  setCookie(response, SESSION_COOKIE, seal(session), SESSION_TTL_SECONDS);
+  // Each nonce signs in once
+  response.cookies.delete(NONCE_COOKIE);
+};
+
+export const clearSession = (response: NextResponse) => {
+  response.cookies.delete(SESSION_COOKIE);
+  response.cookies.delete(NONCE_COOKIE);
+};
@@ -0,0 +1,129 @@
+// --- Sign-In with Ethereum (EIP-4361) ---
+// The wallet signs a plain-text login message carrying a server nonce; the
+// /api/auth routes check it and keep the session in an HTTP-only cookie, so
+// server code can trust which address is calling. Shared by the browser (message
+// building, route calls) and the server (message parsing in lib/session).
+
+import { Signer } from 'ethers';
+
+export const AUTH_NONCE_ENDPOINT = '/api/auth/nonce';
+export const AUTH_VERIFY_ENDPOINT = '/api/auth/verify';
+export const AUTH_SESSION_ENDPOINT = '/api/auth/session';
+
+export const SIWE_STATEMENT = 'Sign in to the Rootstock Attestation Service dApp.';
+
+export interface SiweMessageFields {
+  // Host that asked for the signature, e.g. localhost:3000
+  domain: string;
+  address: string;
+  statement: string;
+  uri: string;
+  version: '1';
+  chainId: number;
+  nonce: string;
+  // ISO 8601
+  issuedAt: string;
+  expirationTime?: string;
+}
+
+/** Who the session cookie belongs to, as reported by the session route. */
+export interface SiweSession {
+  address: string;
+  chainId: number;
+  // Unix seconds
+  expiresAt: number;
+}
+
+/** === Message Format === */
+export const buildSiweMessage = (fields: SiweMessageFields): string =>
+  [
+    `${fields.domain} wants you to sign in with your Ethereum account:`,
+    fields.address,
+    '',
+    fields.statement,
+    '',
+    `URI: ${fields.uri}`,
+    `Version: ${fields.version}`,
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`,
+    ...(fields.expirationTime ? [`Expiration Time: ${fields.expirationTime}`] : []),
+  ].join('\n');
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+
+/** Reads back a message in the format above; throws when a line is missing or malformed. */
+export const parseSiweMessage = (message: string): SiweMessageFields => {
+  const lines = message.split('\n');
+  if (!lines[0]?.endsWith(HEADER_SUFFIX) || lines[2] !== '' || lines[4] !== '') {
+    throw new Error('Not a Sign-In with Ethereum message.');
+  }
+
+  const values: Record<string, string> = {};
+  for (const line of lines.slice(5)) {
+    const separator = line.indexOf(': ');
+    if (separator <= 0) throw new Error(`Malformed line in sign-in message: ${line}`);
+    values[line.slice(0, separator)] = line.slice(separator + 2);
+  }
+
+  const required = ['URI', 'Version', 'Chain ID', 'Nonce', 'Issued At'];
+  const missing = required.filter((key) => !values[key]);
+  if (missing.length > 0) throw new Error(`Sign-in message is missing: ${missing.join(', ')}`);
+  if (values['Version'] !== '1') throw new Error('Unsupported sign-in message version.');
+
+  const chainId = Number(values['Chain ID']);
+  if (!Number.isInteger(chainId) || chainId <= 0) throw new Error('Sign-in message has an invalid chain ID.');
+
+  return {
+    domain: lines[0].slice(0, -HEADER_SUFFIX.length),
+    address: lines[1],
+    statement: lines[3],
+    uri: values['URI'],
+    version: '1',
+    chainId,
+    nonce: values['Nonce'],
+    issuedAt: values['Issued At'],
+    expirationTime: values['Expiration Time'],
+  };
+};
+
+/** === Browser Helpers === */
+const readAuthResponse = async <T>(res: Response): Promise<T> => {
+  const body = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new Error(body?.error ?? `Sign-in route responded with HTTP ${res.status}.`);
+  }
+  return body as T;
+};
+
+export const fetchSession = async (): Promise<SiweSession | null> =>
+  (await readAuthResponse<{ session: SiweSession | null }>(await fetch(AUTH_SESSION_ENDPOINT))).session;
+
+/** Asks the wallet to sign a login message for `chainId` and exchanges it for a session cookie. */
+export const signInWithEthereum = async (signer: Signer, chainId: number): Promise<SiweSession> => {
+  const { nonce } = await readAuthResponse<{ nonce: string }>(await fetch(AUTH_NONCE_ENDPOINT));
+  const message = buildSiweMessage({
+    domain: window.location.host,
+    address: await signer.getAddress(),
+    statement: SIWE_STATEMENT,
+    uri: window.location.origin,
+    version: '1',
+    chainId,
+    nonce,
+    issuedAt: new Date().toISOString(),
+  });
+  const signature = await signer.signMessage(message);
+
+  const { session } = await readAuthResponse<{ session: SiweSession }>(
+    await fetch(AUTH_VERIFY_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ message, signature }),
+    })
+  );
+  return session;
+};
+
+export const signOut = async (): Promise<void> => {
+  await readAuthResponse(await fetch(AUTH_SESSION_ENDPOINT, { method: 'DELETE' }));
+};
@@ -0,0 +1,153 @@
+import { getUIDsFromAttestReceipt } from '@ethereum-attestation-service/eas-sdk';
+import { ethers, Signer, TransactionReceipt, TransactionRequest } from 'ethers';
+import { AppError } from './errors';
+
+// --- Transaction Tracking ---
+// Every transaction the dApp submits goes through a TransactionSender, so the
+// tracker learns its hash as soon as the wallet broadcasts it instead of only
+// after it is mined. Records are plain JSON and persist across reloads.
+
+export type TransactionKind =
+  | 'schema'
+  | 'attestation'
+  | 'batch'
+  | 'revocation'
+  | 'schema-name'
+  | 'resolver'
+  | 'loan';
+
+export type TransactionStatus = 'pending' | 'mined' | 'failed' | 'replaced';
+
+export const TX_KIND_LABELS: Record<TransactionKind, string> = {
+  schema: 'Schema Deploy',
+  attestation: 'Attestation',
+  batch: 'Batch Attestation',
+  revocation: 'Revocation',
+  'schema-name': 'Schema Name',
+  resolver: 'Resolver Deploy',
+  loan: 'Loan Event',
+};
+
+export interface TrackedTransaction {
+  // Local id; stays the same when the hash changes because the tx was sped up
+  id: string;
+  kind: TransactionKind;
+  label: string;
+  chainId: number;
+  hash: string;
+  from: string;
+  nonce: number;
+  status: TransactionStatus;
+  // Attestation or schema UIDs the transaction produced
+  uids: string[];
+  // Created contract, for deployments
+  contractAddress?: string;
+  // Hash of the original transaction when the wallet re-priced it
+  replacedHash?: string;
+  error?: string;
+  // Unix milliseconds
+  submittedAt: number;
+  updatedAt: number;
+}
+
+export interface TransactionMeta {
+  kind: TransactionKind;
+  label: string;
+  // Known result UID (schema registrations); otherwise read from the Attested logs
+  uid?: string;
+}
+
+export interface SentTransaction {
+  hash: string;
+  receipt: TransactionReceipt;
+  uids: string[];
+}
+
+/** A submitted transaction that failed or was replaced; the tracker already reported it. */
+export class TrackedTransactionError extends AppError {
+  hash: string;
+
+  constructor(error: AppError, hash: string) {
+    super(error.kind, error.message, error);
+    this.name = 'TrackedTransactionError';
+    this.hash = hash;
+  }
+}
+
+/** Sends a prepared transaction and resolves once it is mined. */
+export type TransactionSender = (request: TransactionRequest, meta: TransactionMeta) => Promise<SentTransaction>;
+
+/** UIDs produced by a mined transaction; the known UID wins over log parsing. */
+export const getResultUIDs = (receipt: TransactionReceipt, meta: Pick<TransactionMeta, 'uid'>): string[] => {
+  if (meta.uid) return [meta.uid];
+  try {
+    return getUIDsFromAttestReceipt(receipt);
+  } catch {
+    return [];
+  }
+};
+
+/** Untracked sender for callers outside the TransactionProvider. */
+export const sendWithSigner =
+  (signer: Signer): TransactionSender =>
+  async (request, meta) => {
+    const response = await signer.sendTransaction(request);
+    const receipt = await response.wait();
+    if (!receipt) throw new Error(`Unable to confirm transaction ${response.hash}`);
+    return { hash: receipt.hash, receipt, uids: getResultUIDs(receipt, meta) };
+  };
+
+/** === Persistence === */
+export const TX_STORAGE_KEY = 'ras:transactions';
+// Oldest records are dropped beyond this
+export const MAX_TRACKED_TRANSACTIONS = 50;
+
+export const loadTransactions = (): TrackedTransaction[] => {
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(TX_STORAGE_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter((tx) => tx && typeof tx.hash === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveTransactions = (transactions: TrackedTransaction[]) => {
+  try {
+    window.localStorage.setItem(TX_STORAGE_KEY, JSON.stringify(transactions.slice(0, MAX_TRACKED_TRANSACTIONS)));
+  } catch {
+    // Storage can be unavailable (private mode); history just won't persist
+  }
+};
+
+/** === Receipts === */
+export type ReceiptCheck =
+  | { status: 'pending' }
+  | { status: 'mined' | 'failed'; receipt: TransactionReceipt }
+  | { status: 'replaced' };
+
+/**
+ * One polling step for a transaction whose original response object is gone
+ * (after a reload). A transaction that vanished from the node while its sender's
+ * nonce moved past it was replaced by another one.
+ */
+export const checkTransactionReceipt = async (
+  provider: ethers.Provider,
+  tx: Pick<TrackedTransaction, 'hash' | 'from' | 'nonce'>
+): Promise<ReceiptCheck> => {
+  const receipt = await provider.getTransactionReceipt(tx.hash);
+  if (receipt) return { status: receipt.status === 1 ? 'mined' : 'failed', receipt };
+
+  const pending = await provider.getTransaction(tx.hash);
+  if (pending) return { status: 'pending' };
+
+  const nonce = await provider.getTransactionCount(tx.from, 'latest');
+  return nonce > tx.nonce ? { status: 'replaced' } : { status: 'pending' };
+};
+
+/** The replacement ethers reports when a wallet speeds up or cancels a transaction. */
+export const getReplacement = (
+  error: unknown
+): { reason: 'repriced' | 'cancelled' | 'replaced'; hash: string; receipt: TransactionReceipt } | null => {
+  if (!ethers.isError(error, 'TRANSACTION_REPLACED')) return null;
+  return { reason: error.reason, hash: error.replacement.hash, receipt: error.receipt };
+};
@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  ANNOUNCE_PROVIDER_EVENT,
+  EIP1193Provider,
+  EIP6963ProviderDetail,
+  LEGACY_WALLET_RDNS,
+  REQUEST_PROVIDER_EVENT,
+  discoverWallets,
+  selectWallet,
+} from '@/lib/wallets';
+
+const mockProvider = (): EIP1193Provider => ({ request: vi.fn(async () => null) });
+
+const mockWallet = (rdns: string, name = rdns): EIP6963ProviderDetail => ({
+  info: { uuid: `${rdns}-uuid`, name, icon: '', rdns },
+  provider: mockProvider(),
+});
+
+const announce = (target: EventTarget, detail: unknown) =>
+  target.dispatchEvent(new CustomEvent(ANNOUNCE_PROVIDER_EVENT, { detail }));
+
+// A window where the given wallets answer every discovery request, like real extensions
+const walletWindow = (wallets: EIP6963ProviderDetail[]) => {
+  const target = new EventTarget();
+  target.addEventListener(REQUEST_PROVIDER_EVENT, () => wallets.forEach((wallet) => announce(target, wallet)));
+  return target;
+};
+
+describe('discoverWallets', () => {
+  it('collects wallets that answer the discovery request', () => {
+    const onChange = vi.fn();
+    discoverWallets(walletWindow([mockWallet('io.metamask'), mockWallet('com.coinbase.wallet')]), onChange);
+
+    const latest: EIP6963ProviderDetail[] = onChange.mock.lastCall![0];
+    expect(latest.map((w) => w.info.rdns)).toEqual(['io.metamask', 'com.coinbase.wallet']);
+  });
+
+  it('keeps one entry per rdns, with the latest provider', () => {
+    const target = new EventTarget();
+    const onChange = vi.fn();
+    discoverWallets(target, onChange);
+
+    const first = mockWallet('io.metamask');
+    const again = mockWallet('io.metamask', 'MetaMask');
+    announce(target, first);
+    announce(target, again);
+
+    const latest: EIP6963ProviderDetail[] = onChange.mock.lastCall![0];
+    expect(latest).toHaveLength(1);
+    expect(latest[0].provider).toBe(again.provider);
+    expect(latest[0].info.name).toBe('MetaMask');
+  });
+
+  it('ignores malformed announcements', () => {
+    const target = new EventTarget();
+    const onChange = vi.fn();
+    discoverWallets(target, onChange);
+
+    announce(target, { info: { rdns: '' }, provider: mockProvider() });
+    announce(target, { info: { rdns: 'io.fake' }, provider: {} });
+    announce(target, null);
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenLastCalledWith([]);
+  });
+
+  it('falls back to window.ethereum when no wallet announces', () => {
+    const legacy = mockProvider();
+    const onChange = vi.fn();
+    discoverWallets(new EventTarget(), onChange, legacy);
+
+    const latest: EIP6963ProviderDetail[] = onChange.mock.lastCall![0];
+    expect(latest).toHaveLength(1);
+    expect(latest[0].info.rdns).toBe(LEGACY_WALLET_RDNS);
+    expect(latest[0].provider).toBe(legacy);
+  });
+
+  it('drops the fallback once an EIP-6963 wallet announces', () => {
+    const target = new EventTarget();
+    const onChange = vi.fn();
+    discoverWallets(target, onChange, mockProvider());
+
+    announce(target, mockWallet('io.metamask'));
+
+    const latest: EIP6963ProviderDetail[] = onChange.mock.lastCall![0];
+    expect(latest.map((w) => w.info.rdns)).toEqual(['io.metamask']);
+  });
+
+  it('stops listening after cleanup', () => {
+    const target = new EventTarget();
+    const onChange = vi.fn();
+    const stop = discoverWallets(target, onChange);
+    stop();
+
+    announce(target, mockWallet('io.metamask'));
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('selectWallet', () => {
+  const wallets = [mockWallet('io.metamask'), mockWallet('io.rabby'), mockWallet('com.coinbase.wallet')];
+
+  it('picks the previously chosen wallet by rdns', () => {
+    expect(selectWallet(wallets, 'io.rabby')).toBe(wallets[1]);
+  });
+
+  it('falls back to the first wallet when the stored one is gone or unset', () => {
+    expect(selectWallet(wallets, 'io.uninstalled')).toBe(wallets[0]);
+    expect(selectWallet(wallets, null)).toBe(wallets[0]);
+  });
+
+  it('returns null when no wallet is installed', () => {
+    expect(selectWallet([], 'io.metamask')).toBeNull();
+  });
+});
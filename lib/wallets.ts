@@ -0,0 +1,95 @@
+// --- Wallet Discovery (EIP-6963) ---
+// Injected wallets announce themselves with `eip6963:announceProvider` events
+// instead of racing each other for `window.ethereum`, so every installed wallet
+// can be offered. Nothing here touches `window` directly; callers pass the event
+// target and providers in, which keeps discovery usable with mock providers.
+
+export interface EIP1193RequestArguments {
+  method: string;
+  params?: unknown[] | Record<string, unknown>;
+}
+
+/** Minimal EIP-1193 surface the dApp relies on. */
+export interface EIP1193Provider {
+  request(args: EIP1193RequestArguments): Promise<unknown>;
+  on?(event: 'chainChanged', listener: (chainId: string) => void): void;
+  on?(event: 'accountsChanged', listener: (accounts: string[]) => void): void;
+  removeListener?(event: 'chainChanged', listener: (chainId: string) => void): void;
+  removeListener?(event: 'accountsChanged', listener: (accounts: string[]) => void): void;
+}
+
+export interface EIP6963ProviderInfo {
+  uuid: string;
+  name: string;
+  // Data URI of the wallet's icon
+  icon: string;
+  // Reverse-DNS id (e.g. io.metamask); stable across sessions, unlike uuid
+  rdns: string;
+}
+
+export interface EIP6963ProviderDetail {
+  info: EIP6963ProviderInfo;
+  provider: EIP1193Provider;
+}
+
+export const ANNOUNCE_PROVIDER_EVENT = 'eip6963:announceProvider';
+export const REQUEST_PROVIDER_EVENT = 'eip6963:requestProvider';
+
+// Stand-in id for a wallet that only injects `window.ethereum`
+export const LEGACY_WALLET_RDNS = 'injected';
+
+const isProviderDetail = (detail: unknown): detail is EIP6963ProviderDetail => {
+  const candidate = detail as Partial<EIP6963ProviderDetail> | null;
+  return (
+    !!candidate?.info &&
+    typeof candidate.info.rdns === 'string' &&
+    !!candidate.info.rdns &&
+    typeof candidate.provider?.request === 'function'
+  );
+};
+
+/** Wraps a bare `window.ethereum` so wallets without EIP-6963 support can still be picked. */
+export const toLegacyWallet = (provider: EIP1193Provider): EIP6963ProviderDetail => ({
+  info: { uuid: LEGACY_WALLET_RDNS, name: 'Browser Wallet', icon: '', rdns: LEGACY_WALLET_RDNS },
+  provider,
+});
+
+/**
+ * Listens for wallet announcements on `target` (the window) and asks installed
+ * wallets to announce. `onChange` receives the full list, one entry per rdns,
+ * whenever it changes. When no wallet announces, the legacy provider is offered
+ * on its own. Returns a function that stops listening.
+ */
+export const discoverWallets = (
+  target: EventTarget,
+  onChange: (wallets: EIP6963ProviderDetail[]) => void,
+  legacyProvider?: EIP1193Provider | null
+): (() => void) => {
+  const byRdns = new Map<string, EIP6963ProviderDetail>();
+
+  const emit = () => {
+    const announced = [...byRdns.values()];
+    onChange(announced.length === 0 && legacyProvider ? [toLegacyWallet(legacyProvider)] : announced);
+  };
+
+  const handleAnnounce = (event: Event) => {
+    const detail = (event as CustomEvent<unknown>).detail;
+    if (!isProviderDetail(detail)) return;
+    // A wallet re-announces on every request; keep the latest provider for its rdns
+    byRdns.set(detail.info.rdns, detail);
+    emit();
+  };
+
+  target.addEventListener(ANNOUNCE_PROVIDER_EVENT, handleAnnounce);
+  target.dispatchEvent(new Event(REQUEST_PROVIDER_EVENT));
+  // Wallets answer the request synchronously; report the legacy fallback if none did
+  if (byRdns.size === 0) emit();
+
+  return () => target.removeEventListener(ANNOUNCE_PROVIDER_EVENT, handleAnnounce);
+};
+
+/** The wallet with the given rdns, falling back to the first one discovered. */
+export const selectWallet = (
+  wallets: EIP6963ProviderDetail[],
+  rdns?: string | null
+): EIP6963ProviderDetail | null => wallets.find((w) => w.info.rdns === rdns) ?? wallets[0] ?? null;
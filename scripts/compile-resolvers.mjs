@@ -0,0 +1,51 @@
+// Compiles the resolver templates in contracts/resolvers into lib/resolver-artifacts.json
+// (ABI + creation bytecode), which the app uses to deploy them from the browser.
+//
+//   npm run compile:resolvers
+//
+// Targets the istanbul EVM: Rootstock does not implement the opcodes newer solc
+// versions emit by default (e.g. PUSH0), so the artifacts must stay compatible.
+import { readFileSync, readdirSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import solc from 'solc';
+
+const root = path.join(path.dirname(fileURLToPath(import.meta.url)), '..');
+const sourceDir = path.join(root, 'contracts', 'resolvers');
+const outputFile = path.join(root, 'lib', 'resolver-artifacts.json');
+
+// Deployable templates; RasSchemaResolver is the abstract base
+const TEMPLATES = ['AttesterAllowlistResolver', 'PaymentRequiredResolver', 'RecipientEOAResolver'];
+
+const sources = Object.fromEntries(
+  readdirSync(sourceDir)
+    .filter((file) => file.endsWith('.sol'))
+    .map((file) => [file, { content: readFileSync(path.join(sourceDir, file), 'utf8') }])
+);
+
+const input = {
+  language: 'Solidity',
+  sources,
+  settings: {
+    evmVersion: 'istanbul',
+    optimizer: { enabled: true, runs: 200 },
+    outputSelection: { '*': { '*': ['abi', 'evm.bytecode.object'] } },
+  },
+};
+
+const output = JSON.parse(solc.compile(JSON.stringify(input)));
+const errors = (output.errors ?? []).filter((e) => e.severity === 'error');
+for (const message of output.errors ?? []) {
+  console[message.severity === 'error' ? 'error' : 'warn'](message.formattedMessage);
+}
+if (errors.length > 0) process.exit(1);
+
+const artifacts = { compiler: solc.version(), contracts: {} };
+for (const name of TEMPLATES) {
+  const contract = output.contracts[`${name}.sol`]?.[name];
+  if (!contract) throw new Error(`${name} was not compiled`);
+  artifacts.contracts[name] = { abi: contract.abi, bytecode: `0x${contract.evm.bytecode.object}` };
+}
+
+writeFileSync(outputFile, `${JSON.stringify(artifacts, null, 2)}\n`);
+console.log(`Wrote ${TEMPLATES.length} resolver artifacts to ${path.relative(root, outputFile)} (solc ${artifacts.compiler})`);